@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, SESSION_COOKIE_OPTIONS } from "@/lib/auth/cookie";
+import { verifyPassword } from "@/lib/auth/password";
+import { createSession } from "@/lib/auth/session";
+import { findUserForLogin } from "@/lib/auth/users";
+
+/** Checked against when the email is unknown, so both cases take as long */
+const DUMMY_HASH = `scrypt$16384$8$1$${"A".repeat(24)}$${"A".repeat(88)}`;
+
+/** POST /api/auth/login — { email, password } → session cookie */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.email !== "string" || typeof body.password !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Expected { email, password }." },
+        { status: 400 }
+      );
+    }
+
+    const found = await findUserForLogin(body.email);
+    const valid = await verifyPassword(body.password, found?.passwordHash ?? DUMMY_HASH);
+    if (!found || !valid || found.user.disabled) {
+      return NextResponse.json(
+        { success: false, error: "Incorrect email or password." },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true, user: found.user });
+    response.cookies.set(SESSION_COOKIE, await createSession(found.user.id), SESSION_COOKIE_OPTIONS);
+    return response;
+  } catch (error: unknown) {
+    console.error("[auth login]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/cookie";
+import { deleteSession } from "@/lib/auth/session";
+
+/** POST /api/auth/logout — end the current session */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) await deleteSession(token);
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error: unknown) {
+    console.error("[auth logout]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
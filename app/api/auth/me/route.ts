@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+
+/** GET /api/auth/me — the signed-in user */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    return NextResponse.json({ success: true, user: auth.user });
+  } catch (error: unknown) {
+    console.error("[auth me]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
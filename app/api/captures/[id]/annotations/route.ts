@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { CARD_HEIGHT, CARD_WIDTH, validateAnnotations } from "@/lib/annotations";
+import { loadAnnotations, saveAnnotations } from "@/lib/annotations/store";
+import { getCapture } from "@/lib/captures";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: "Capture not found." },
+    { status: 404 }
+  );
+}
+
+/** GET /api/captures/:id/annotations — the capture's labelled boxes */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    const capture = id && (await getCapture(id, ownerScope(auth.user)));
+    if (!id || !capture) return notFound();
+
+    return NextResponse.json({
+      success: true,
+      annotations: await loadAnnotations(id),
+      annotatedAt: capture.annotatedAt,
+    });
+  } catch (error: unknown) {
+    console.error("[annotations GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/captures/:id/annotations — replace all boxes.
+ * Body: { annotations: [{ label, x, y, width, height }] } in image pixels.
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const scope = ownerScope(auth.user);
+    const id = parseId((await params).id);
+    const capture = id && (await getCapture(id, scope));
+    if (!id || !capture) return notFound();
+
+    const body = await request.json().catch(() => null);
+    const validation = validateAnnotations(
+      body?.annotations,
+      capture.width ?? CARD_WIDTH,
+      capture.height ?? CARD_HEIGHT
+    );
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const annotations = await saveAnnotations(id, validation.boxes);
+    const saved = await getCapture(id, scope);
+    return NextResponse.json({
+      success: true,
+      annotations,
+      annotatedAt: saved?.annotatedAt ?? null,
+    });
+  } catch (error: unknown) {
+    console.error("[annotations PUT]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { getCapture, trashCaptures } from "@/lib/captures";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * DELETE /api/captures/:id — discard a capture, e.g. a near-duplicate the
+ * user chose not to keep, by moving it to the gallery trash. It can be
+ * restored from there until purgeTrash (lib/captures) deletes it, along
+ * with its image and any unreviewed draft lead made from it.
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    const capture = id && (await getCapture(id, ownerScope(auth.user)));
+    if (!id || !capture) {
+      return NextResponse.json(
+        { success: false, error: "Capture not found." },
+        { status: 404 }
+      );
+    }
+
+    await trashCaptures([capture.id], auth.user.id);
+    return NextResponse.json({ success: true, id });
+  } catch (error: unknown) {
+    console.error("[capture DELETE]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
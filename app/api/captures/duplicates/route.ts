@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import {
+  clusterDuplicates,
+  DUPLICATE_MAX_DISTANCE,
+  hashMissingCaptures,
+} from "@/lib/capture-duplicates";
+import { HASH_BITS } from "@/lib/image/phash";
+import { signImageUrl } from "@/lib/storage";
+
+/**
+ * GET /api/captures/duplicates — cluster near-duplicate captures (admin).
+ *
+ * Captures stored before hashing are hashed first, a batch per request;
+ * `unhashed` says how many are left, so call again until it reaches 0.
+ * `unhashable` counts those whose image was missing or unreadable; they
+ * are not retried and never cluster.
+ * `distance` (bits, default 10) is the widest gap counted as a duplicate.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const raw = request.nextUrl.searchParams.get("distance");
+    const distance = raw === null ? DUPLICATE_MAX_DISTANCE : Number(raw);
+    if (!Number.isInteger(distance) || distance < 0 || distance > HASH_BITS) {
+      return NextResponse.json(
+        { success: false, error: `distance must be an integer from 0 to ${HASH_BITS}.` },
+        { status: 400 }
+      );
+    }
+
+    const backfill = await hashMissingCaptures();
+    const clusters = await clusterDuplicates(ownerScope(auth.user), distance);
+
+    return NextResponse.json({
+      success: true,
+      distance,
+      unhashed: backfill.remaining,
+      unhashable: backfill.failed,
+      clusters: clusters.map((cluster) => ({
+        captures: cluster.captures.map((c) => ({ ...c, url: signImageUrl(c.url) })),
+      })),
+    });
+  } catch (error: unknown) {
+    console.error("[capture duplicates GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
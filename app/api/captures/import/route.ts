@@ -0,0 +1,97 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { importFile, type ImportFileResult } from "@/lib/capture-import";
+import { resolveEventId } from "@/lib/events";
+import { runOcrJob } from "@/lib/ocr/jobs";
+import { signImageUrl } from "@/lib/storage";
+
+/** Largest file accepted — scanned PDFs run big. Keep under proxyClientMaxBodySize */
+const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25 MB
+/** Most files in one request; the import page sends one at a time */
+const MAX_FILES = 20;
+
+/** Swap canonical image URLs for signed ones before results go to the client */
+function signResult(result: ImportFileResult): ImportFileResult {
+  return {
+    ...result,
+    cards: result.cards.map((card) => ({
+      ...card,
+      url: card.url && signImageUrl(card.url),
+      duplicateOf: card.duplicateOf && {
+        ...card.duplicateOf,
+        url: signImageUrl(card.duplicateOf.url),
+      },
+    })),
+  };
+}
+
+/**
+ * POST /api/captures/import — bulk-import card photos, scanned sheets and
+ * scanned PDFs sent as one or more `files` fields.
+ *
+ * Each file is split into cards, which are flattened to 1024×585 and
+ * checked like /api/upload captures; the ones that pass are stored and
+ * queued for OCR. Results come back per file and per card — a bad file
+ * or card doesn't fail the others. An optional `eventId` tags everything.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const formData = await request.formData();
+    const files = formData.getAll("files").filter((f): f is File => f instanceof File);
+    if (files.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No files provided. Send each as a 'files' field." },
+        { status: 400 }
+      );
+    }
+    if (files.length > MAX_FILES) {
+      return NextResponse.json(
+        { success: false, error: `Too many files (${files.length}). Max: ${MAX_FILES} per request.` },
+        { status: 400 }
+      );
+    }
+
+    const event = await resolveEventId(formData.get("eventId"));
+    if (!event.ok) {
+      return NextResponse.json(
+        { success: false, error: event.error },
+        { status: 400 }
+      );
+    }
+
+    // One file at a time: splitting and warping are CPU-heavy
+    const results: ImportFileResult[] = [];
+    for (const file of files) {
+      if (file.size > MAX_FILE_SIZE) {
+        results.push({
+          name: file.name,
+          error: `File too large (${(file.size / 1024 / 1024).toFixed(1)} MB). Max: ${MAX_FILE_SIZE / 1024 / 1024} MB.`,
+          cards: [],
+        });
+        continue;
+      }
+      try {
+        const result = await importFile(
+          file.name,
+          Buffer.from(await file.arrayBuffer()),
+          { user: auth.user, eventId: event.eventId },
+          (jobId, image) => after(() => runOcrJob(jobId, image))
+        );
+        results.push(signResult(result));
+      } catch (error) {
+        // Keep the results of the files before it
+        console.error("[capture import POST]", file.name, error);
+        results.push({ name: file.name, error: "This file could not be imported.", cards: [] });
+      }
+    }
+
+    return NextResponse.json({ success: true, files: results });
+  } catch (error: unknown) {
+    console.error("[capture import POST]", error);
+    const message = error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
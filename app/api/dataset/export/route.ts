@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { authenticate } from "@/lib/auth";
+import {
+  createDatasetArchive,
+  datasetFilterFromParams,
+  loadDatasetItems,
+  splitConfig,
+} from "@/lib/dataset";
+
+/**
+ * GET /api/dataset/export — download a training-dataset zip (admin only).
+ *
+ * Query:
+ *   format   jsonl (default) | coco
+ *   seed     split seed (default DATASET_SPLIT_SEED)
+ *   ratios   train,val,test (default DATASET_SPLIT_RATIOS or 0.8,0.1,0.1)
+ *   from/to, minBrightness/maxBrightness, minSharpness/maxSharpness,
+ *   minQuality/maxQuality
+ *            filters (see lib/dataset/query)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get("format") ?? "jsonl";
+    if (format !== "jsonl" && format !== "coco") {
+      return NextResponse.json(
+        { success: false, error: "format must be 'jsonl' or 'coco'." },
+        { status: 400 }
+      );
+    }
+
+    const split = splitConfig({ seed: params.get("seed"), ratios: params.get("ratios") });
+    if (!split.ok) {
+      return NextResponse.json(
+        { success: false, error: "ratios must be three non-negative numbers: train,val,test." },
+        { status: 400 }
+      );
+    }
+
+    const filter = datasetFilterFromParams(params);
+    if (!filter.ok) {
+      return NextResponse.json(
+        { success: false, error: filter.error },
+        { status: 400 }
+      );
+    }
+
+    const items = await loadDatasetItems(filter);
+    const zip = createDatasetArchive(items, {
+      format,
+      split: split.config,
+      filter: filter.applied,
+    });
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(Readable.toWeb(zip) as ReadableStream<Uint8Array>, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="dataset-${format}-${stamp}.zip"`,
+        "X-Dataset-Images": String(items.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[dataset export GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
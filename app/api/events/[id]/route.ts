@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, hasRole, ownerScope } from "@/lib/auth";
+import { eventSummary, getEvent, updateEvent, validateEventInput } from "@/lib/events";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: "Event not found." },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/events/:id — the event and a summary of its captures and
+ * leads, counting only those the user can see.
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    const event = id ? await getEvent(id) : null;
+    if (!event) return notFound();
+
+    const summary = await eventSummary(event.id, ownerScope(auth.user));
+    return NextResponse.json({ success: true, event, summary });
+  } catch (error: unknown) {
+    console.error("[event GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/** PATCH /api/events/:id — rename or reschedule (its creator or an admin) */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    const event = id ? await getEvent(id) : null;
+    if (!event) return notFound();
+
+    if (event.createdBy !== auth.user.id && !hasRole(auth.user, "admin")) {
+      return NextResponse.json(
+        { success: false, error: "Only the event's creator or an admin can edit it." },
+        { status: 403 }
+      );
+    }
+
+    const validation = validateEventInput(await request.json().catch(() => null), true);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    // Check the merged dates, since a PATCH may send only one of them
+    const merged = { ...event, ...validation.event };
+    if (merged.endsOn < merged.startsOn) {
+      return NextResponse.json(
+        { success: false, error: "endsOn must not be before startsOn." },
+        { status: 400 }
+      );
+    }
+
+    await updateEvent(event.id, validation.event);
+    return NextResponse.json({ success: true, event: await getEvent(event.id) });
+  } catch (error: unknown) {
+    console.error("[event PATCH]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
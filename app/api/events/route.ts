@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { createEvent, getEvent, listEvents, validateEventInput } from "@/lib/events";
+
+/** GET /api/events — every event, most recent first */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    return NextResponse.json({ success: true, events: await listEvents() });
+  } catch (error: unknown) {
+    console.error("[events GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/events — create an event.
+ * Body: { name, startsOn, endsOn, location? } with dates as YYYY-MM-DD.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const validation = validateEventInput(await request.json().catch(() => null));
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const id = await createEvent(validation.event, auth.user.id);
+    return NextResponse.json({ success: true, event: await getEvent(id) }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("[events POST]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
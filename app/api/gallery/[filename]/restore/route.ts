@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { getCapturesByKeys, restoreCaptures } from "@/lib/captures";
+
+type Params = { params: Promise<{ filename: string }> };
+
+/** POST /api/gallery/:filename/restore — take a capture out of the trash */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const { filename } = await params;
+    const [capture] = await getCapturesByKeys([filename], ownerScope(auth.user));
+    if (!capture) {
+      return NextResponse.json(
+        { success: false, error: "Capture not found." },
+        { status: 404 }
+      );
+    }
+
+    await restoreCaptures([capture.id]);
+    return NextResponse.json({ success: true, filename });
+  } catch (error: unknown) {
+    console.error("[gallery restore]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { discardCapture, getCapturesByKeys, trashCaptures } from "@/lib/captures";
+
+type Params = { params: Promise<{ filename: string }> };
+
+/**
+ * DELETE /api/gallery/:filename — move a capture, and its back, to the
+ * trash; it can be restored until it is purged. With `?permanent=true`,
+ * delete a capture that is already in the trash for good: its images and
+ * any unreviewed draft lead made from it.
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const { filename } = await params;
+    const [capture] = await getCapturesByKeys([filename], ownerScope(auth.user));
+    if (!capture) {
+      return NextResponse.json(
+        { success: false, error: "Capture not found." },
+        { status: 404 }
+      );
+    }
+
+    if (request.nextUrl.searchParams.get("permanent") === "true") {
+      if (!capture.deletedAt) {
+        return NextResponse.json(
+          { success: false, error: "Move the capture to the trash before deleting it for good." },
+          { status: 409 }
+        );
+      }
+      await discardCapture(capture);
+      return NextResponse.json({ success: true, filename, deleted: true });
+    }
+
+    await trashCaptures([capture.id], auth.user.id);
+    return NextResponse.json({ success: true, filename, deleted: false });
+  } catch (error: unknown) {
+    console.error("[gallery DELETE]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { createCaptureArchive } from "@/lib/capture-archive";
+import { getCapturesByKeys, MAX_BULK_CAPTURES, parseBulkKeys } from "@/lib/captures";
+
+/**
+ * GET /api/gallery/download?file=<filename>&file=… — the chosen captures'
+ * images as a zip (at most 100), backs included. A plain GET so the
+ * browser streams it straight to disk. Filenames the user can't see, and
+ * captures in the trash, are left out.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const filenames = parseBulkKeys(request.nextUrl.searchParams.getAll("file"));
+    if (!filenames) {
+      return NextResponse.json(
+        { success: false, error: `Pass 1 to ${MAX_BULK_CAPTURES} file parameters.` },
+        { status: 400 }
+      );
+    }
+
+    const captures = (await getCapturesByKeys(filenames, ownerScope(auth.user))).filter(
+      (capture) => !capture.deletedAt
+    );
+    if (captures.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "None of these captures were found." },
+        { status: 404 }
+      );
+    }
+    // In the order they were asked for
+    const order = new Map(filenames.map((f, i) => [f, i]));
+    captures.sort((a, b) => order.get(a.key)! - order.get(b.key)!);
+
+    const zip = createCaptureArchive(captures);
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(Readable.toWeb(zip) as ReadableStream<Uint8Array>, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="captures-${stamp}.zip"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[gallery download]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
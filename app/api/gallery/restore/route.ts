@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import {
+  getCapturesByKeys,
+  MAX_BULK_CAPTURES,
+  parseBulkKeys,
+  restoreCaptures,
+} from "@/lib/captures";
+
+/**
+ * POST /api/gallery/restore — take several captures out of the trash.
+ * Body: { filenames: string[] } (at most 100). Filenames that aren't
+ * found come back in `notFound`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json().catch(() => null);
+    const filenames = parseBulkKeys(body?.filenames);
+    if (!filenames) {
+      return NextResponse.json(
+        { success: false, error: `Expected { filenames: string[] } with 1 to ${MAX_BULK_CAPTURES} entries.` },
+        { status: 400 }
+      );
+    }
+
+    const captures = await getCapturesByKeys(filenames, ownerScope(auth.user));
+    await restoreCaptures(captures.map((c) => c.id));
+
+    const found = new Set(captures.map((c) => c.key));
+    return NextResponse.json({
+      success: true,
+      restored: filenames.filter((f) => found.has(f)),
+      notFound: filenames.filter((f) => !found.has(f)),
+    });
+  } catch (error: unknown) {
+    console.error("[gallery restore]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,158 @@
-import { NextResponse } from "next/server";
-import { readdir, stat } from "fs/promises";
-import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import {
+  discardCapture,
+  getCapturesByKeys,
+  listCaptures,
+  MAX_BULK_CAPTURES,
+  parseBulkKeys,
+  trashCaptures,
+} from "@/lib/captures";
+import { variantSources } from "@/lib/image/variants";
+import { signImageUrl } from "@/lib/storage";
 
-const UPLOADS_DIR = path.join(process.cwd(), "public", "uploads");
-const ALLOWED_EXT = new Set([".png", ".jpg", ".jpeg", ".webp"]);
-
-export async function GET() {
+/**
+ * GET /api/gallery — the captures the user can see, newest first.
+ *
+ * Query: `limit` (default 30, max 100), `cursor` (the previous page's
+ * `nextCursor`), `from`/`to` (YYYY-MM-DD, inclusive), `annotated`
+ * (true/false), `event` (event id), `trash` (true lists the trash instead).
+ *
+ * Each image comes with `variants`: AVIF and WebP copies at a few widths
+ * for `srcset`, behind URLs that stay the same all day so browsers cache
+ * them. The list is empty until they are made.
+ */
+export async function GET(request: NextRequest) {
   try {
-    let files: string[];
-    try {
-      files = await readdir(UPLOADS_DIR);
-    } catch {
-      // Directory doesn't exist yet
-      return NextResponse.json({ success: true, images: [] });
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const rawLimit = params.get("limit");
+    const limit = rawLimit === null ? undefined : Number(rawLimit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return NextResponse.json(
+        { success: false, error: "limit must be a positive integer." },
+        { status: 400 }
+      );
     }
 
-    const images = [];
+    const annotated = params.get("annotated");
+    if (annotated !== null && annotated !== "true" && annotated !== "false") {
+      return NextResponse.json(
+        { success: false, error: "annotated must be 'true' or 'false'." },
+        { status: 400 }
+      );
+    }
 
-    for (const file of files) {
-      const ext = path.extname(file).toLowerCase();
-      if (!ALLOWED_EXT.has(ext)) continue;
+    const event = params.get("event");
+    const eventId = event === null ? undefined : Number(event);
+    if (eventId !== undefined && (!Number.isInteger(eventId) || eventId < 1)) {
+      return NextResponse.json(
+        { success: false, error: "event must be an event id." },
+        { status: 400 }
+      );
+    }
 
-      const filePath = path.join(UPLOADS_DIR, file);
-      const info = await stat(filePath);
+    const trash = params.get("trash");
+    if (trash !== null && trash !== "true" && trash !== "false") {
+      return NextResponse.json(
+        { success: false, error: "trash must be 'true' or 'false'." },
+        { status: 400 }
+      );
+    }
 
-      images.push({
-        filename: file,
-        url: `/uploads/${file}`,
-        size: info.size,
-        createdAt: info.birthtime.toISOString(),
-      });
+    const result = await listCaptures(ownerScope(auth.user), {
+      limit,
+      cursor: params.get("cursor"),
+      from: params.get("from"),
+      to: params.get("to"),
+      annotated: annotated === null ? undefined : annotated === "true",
+      eventId,
+      trashed: trash === "true",
+    });
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
     }
 
-    // Newest first
-    images.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const { captures, nextCursor, total } = result.page;
+    const images = captures.map((capture) => ({
+      id: capture.id,
+      filename: capture.key,
+      url: signImageUrl(capture.url),
+      variants: variantSources(capture.variants),
+      size: capture.byteSize,
+      mimeType: capture.mimeType,
+      width: capture.width,
+      height: capture.height,
+      brightness: capture.brightness,
+      laplacianVariance: capture.laplacianVariance,
+      leadId: capture.leadId,
+      eventId: capture.eventId,
+      back: capture.back && {
+        id: capture.back.id,
+        url: signImageUrl(capture.back.url),
+        variants: variantSources(capture.back.variants),
+      },
+      annotatedAt: capture.annotatedAt,
+      deletedAt: capture.deletedAt,
+      createdAt: capture.createdAt,
+    }));
 
-    return NextResponse.json({ success: true, images, total: images.length });
+    return NextResponse.json({ success: true, images, nextCursor, total });
   } catch (error: unknown) {
     console.error("[gallery GET]", error);
     const message = error instanceof Error ? error.message : "Unknown server error";
     return NextResponse.json({ success: false, error: message }, { status: 500 });
   }
 }
+
+/**
+ * DELETE /api/gallery — move several captures to the trash, or with
+ * `permanent: true` delete captures already in the trash for good.
+ * Body: { filenames: string[] (at most 100), permanent?: boolean }.
+ * Filenames that aren't found come back in `notFound`.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json().catch(() => null);
+    const filenames = parseBulkKeys(body?.filenames);
+    if (!filenames || (body.permanent !== undefined && typeof body.permanent !== "boolean")) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Expected { filenames: string[] with 1 to ${MAX_BULK_CAPTURES} entries, permanent?: boolean }.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const captures = await getCapturesByKeys(filenames, ownerScope(auth.user));
+    if (body.permanent) {
+      if (captures.some((c) => !c.deletedAt)) {
+        return NextResponse.json(
+          { success: false, error: "Move captures to the trash before deleting them for good." },
+          { status: 409 }
+        );
+      }
+      for (const capture of captures) await discardCapture(capture);
+    } else {
+      await trashCaptures(captures.map((c) => c.id), auth.user.id);
+    }
+
+    const found = new Set(captures.map((c) => c.key));
+    return NextResponse.json({
+      success: true,
+      deleted: filenames.filter((f) => found.has(f)),
+      permanent: body.permanent === true,
+      notFound: filenames.filter((f) => !found.has(f)),
+    });
+  } catch (error: unknown) {
+    console.error("[gallery DELETE]", error);
+    const message = error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { VARIANT_PREFIX } from "@/lib/image/variants";
+import { getStorage, isValidKey, verifySignedKey } from "@/lib/storage";
+
+type Params = { params: Promise<{ key: string[] }> };
+
+/**
+ * GET /api/images/<key>?expires=…&sig=… — serve a stored image.
+ * Only signed, unexpired URLs are honoured, and only for a signed-in
+ * user; API responses hand these out in place of the stored `image_url`.
+ * Browsers may cache a response until its URL expires; variants never
+ * change under their key, so they are also marked immutable.
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const key = (await params).key.join("/");
+    if (!isValidKey(key)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid image key." },
+        { status: 400 }
+      );
+    }
+
+    const search = request.nextUrl.searchParams;
+    const expires = search.get("expires");
+    if (!verifySignedKey(key, expires, search.get("sig"))) {
+      return NextResponse.json(
+        { success: false, error: "Missing, invalid or expired image signature." },
+        { status: 403 }
+      );
+    }
+
+    const object = await getStorage().get(key);
+    if (!object) {
+      return NextResponse.json(
+        { success: false, error: "Image not found." },
+        { status: 404 }
+      );
+    }
+
+    const maxAge = Math.max(0, Math.floor(Number(expires) - Date.now() / 1000));
+    const immutable = key.startsWith(VARIANT_PREFIX) ? ", immutable" : "";
+    return new NextResponse(new Uint8Array(object.data), {
+      headers: {
+        "Content-Type": object.contentType,
+        "Content-Length": String(object.size),
+        "Cache-Control": `private, max-age=${maxAge}${immutable}`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[images GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
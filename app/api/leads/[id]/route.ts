@@ -0,0 +1,278 @@
+import { NextRequest, NextResponse } from "next/server";
+import pool from "@/lib/db";
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import { authenticate, ownerScope } from "@/lib/auth";
+import type { LeadFieldName } from "@/lib/contact-extract";
+import { LEAD_FIELDS, rowToLead, type LeadEdit, type LeadMerge } from "@/lib/leads";
+import { withSignedImage } from "@/lib/leads/store";
+import { signImageUrl } from "@/lib/storage";
+import { queueLeadEvent } from "@/lib/webhooks/events";
+import { wakeWebhookDispatcher } from "@/lib/webhooks/outbox";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: "Lead not found." },
+    { status: 404 }
+  );
+}
+
+function invalidId() {
+  return NextResponse.json(
+    { success: false, error: "Invalid lead id." },
+    { status: 400 }
+  );
+}
+
+async function loadEdits(id: number): Promise<LeadEdit[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, field, old_value, new_value, edited_at
+     FROM lead_edits WHERE lead_id = ? ORDER BY edited_at DESC, id DESC`,
+    [id]
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    field: row.field,
+    old_value: row.old_value,
+    new_value: row.new_value,
+    edited_at: new Date(row.edited_at).toISOString(),
+  }));
+}
+
+/** Every card image linked to the lead, its primary image first */
+async function loadImages(id: number, primary: string | null): Promise<string[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT image_url FROM lead_images WHERE lead_id = ? ORDER BY id",
+    [id]
+  );
+  const urls = rows.map((row) => row.image_url as string);
+  return [...new Set(primary ? [primary, ...urls] : urls)].map(signImageUrl);
+}
+
+async function loadMerges(id: number): Promise<LeadMerge[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, source_id, source_snapshot, merged_at
+     FROM lead_merges WHERE target_id = ? ORDER BY merged_at DESC, id DESC`,
+    [id]
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    source_id: row.source_id,
+    source: typeof row.source_snapshot === "string" ? JSON.parse(row.source_snapshot) : row.source_snapshot,
+    merged_at: new Date(row.merged_at).toISOString(),
+  }));
+}
+
+/** GET /api/leads/:id — one lead with its edit history, images and merges */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    if (!id) return invalidId();
+
+    const scope = ownerScope(auth.user);
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM leads WHERE id = ? AND ${scope.where}`,
+      [id, ...scope.params]
+    );
+    if (rows.length === 0) return notFound();
+
+    const lead = rowToLead(rows[0]);
+    return NextResponse.json({
+      success: true,
+      lead: withSignedImage(lead),
+      edits: await loadEdits(id),
+      images: await loadImages(id, lead.image_url),
+      merges: await loadMerges(id),
+    });
+  } catch (error: unknown) {
+    console.error("[lead GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/leads/:id — update fields and/or status.
+ * Every changed field is recorded in `lead_edits`, and its extraction
+ * confidence is replaced by 1 (human-verified).
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+    const scope = ownerScope(auth.user);
+
+    const id = parseId((await params).id);
+    if (!id) return invalidId();
+
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { success: false, error: "Expected a JSON object." },
+        { status: 400 }
+      );
+    }
+
+    const updates: Partial<Record<LeadFieldName, string | null>> = {};
+    for (const field of LEAD_FIELDS) {
+      if (!(field in body)) continue;
+      const value = body[field];
+      if (value !== null && typeof value !== "string") {
+        return NextResponse.json(
+          { success: false, error: `Field '${field}' must be a string or null.` },
+          { status: 400 }
+        );
+      }
+      updates[field] = value === null ? null : value.trim() || null;
+    }
+
+    const status = body.status;
+    if (status !== undefined && status !== "draft" && status !== "active") {
+      return NextResponse.json(
+        { success: false, error: "Status must be 'draft' or 'active'." },
+        { status: 400 }
+      );
+    }
+
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const [rows] = await connection.query<RowDataPacket[]>(
+        `SELECT * FROM leads WHERE id = ? AND ${scope.where} FOR UPDATE`,
+        [id, ...scope.params]
+      );
+      if (rows.length === 0) {
+        await connection.rollback();
+        return notFound();
+      }
+      const current = rowToLead(rows[0]);
+
+      const changed = (Object.keys(updates) as LeadFieldName[]).filter(
+        (field) => updates[field] !== current[field]
+      );
+
+      const next = { ...current, ...updates };
+      if (!next.name && !next.email && !next.phone) {
+        await connection.rollback();
+        return NextResponse.json(
+          {
+            success: false,
+            error: "At least one of name, email, or phone is required.",
+          },
+          { status: 400 }
+        );
+      }
+
+      const confidence = { ...current.field_confidence };
+      for (const field of changed) confidence[field] = 1;
+
+      const assignments = changed.map((field) => `\`${field}\` = ?`);
+      const values: (string | null)[] = changed.map((field) => updates[field] ?? null);
+      if (changed.length > 0) {
+        assignments.push("field_confidence = ?");
+        values.push(JSON.stringify(confidence));
+      }
+      if (status && status !== current.status) {
+        assignments.push("status = ?");
+        values.push(status);
+      }
+
+      if (assignments.length > 0) {
+        await connection.execute<ResultSetHeader>(
+          `UPDATE leads SET ${assignments.join(", ")} WHERE id = ?`,
+          [...values, id]
+        );
+      }
+
+      const history: [string, string | null, string | null][] = changed.map((field) => [
+        field,
+        current[field],
+        updates[field] ?? null,
+      ]);
+      if (status && status !== current.status) history.push(["status", current.status, status]);
+
+      for (const [field, oldValue, newValue] of history) {
+        await connection.execute(
+          "INSERT INTO lead_edits (lead_id, field, old_value, new_value) VALUES (?, ?, ?, ?)",
+          [id, field, oldValue, newValue]
+        );
+      }
+
+      // Queued in the transaction, so receivers only hear of edits that stick
+      if (history.length > 0) {
+        await queueLeadEvent("lead.updated", id, {
+          db: connection,
+          changes: history.map(([field]) => field),
+        });
+      }
+
+      await connection.commit();
+      if (history.length > 0) wakeWebhookDispatcher();
+
+      const [updated] = await pool.query<RowDataPacket[]>(
+        "SELECT * FROM leads WHERE id = ?",
+        [id]
+      );
+      return NextResponse.json({
+        success: true,
+        lead: withSignedImage(rowToLead(updated[0])),
+        edits: await loadEdits(id),
+      });
+    } catch (error) {
+      await connection.rollback().catch(() => {});
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error: unknown) {
+    console.error("[lead PATCH]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE /api/leads/:id — remove a lead (its edit history goes with it) */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    if (!id) return invalidId();
+
+    const scope = ownerScope(auth.user);
+    const [result] = await pool.execute<ResultSetHeader>(
+      `DELETE FROM leads WHERE id = ? AND ${scope.where}`,
+      [id, ...scope.params]
+    );
+    if (result.affectedRows === 0) return notFound();
+
+    return NextResponse.json({ success: true, id });
+  } catch (error: unknown) {
+    console.error("[lead DELETE]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
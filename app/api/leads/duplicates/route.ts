@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { DUPLICATE_THRESHOLD, scanDuplicates } from "@/lib/leads/duplicates";
+
+/**
+ * GET /api/leads/duplicates — scan the leads the user can see for likely
+ * duplicate pairs.
+ * `threshold` (0-1, default 0.85) is the minimum score reported.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const raw = request.nextUrl.searchParams.get("threshold");
+    const threshold = raw === null ? DUPLICATE_THRESHOLD : Number(raw);
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+      return NextResponse.json(
+        { success: false, error: "threshold must be a number in (0, 1]." },
+        { status: 400 }
+      );
+    }
+
+    const pairs = await scanDuplicates(ownerScope(auth.user), threshold);
+    return NextResponse.json({ success: true, threshold, pairs });
+  } catch (error: unknown) {
+    console.error("[leads duplicates GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import pool from "@/lib/db";
+import { RowDataPacket } from "mysql2";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { rowToLead } from "@/lib/leads";
+import { DEFAULT_CSV_COLUMNS, leadsToCsv, parseColumnSpec } from "@/lib/leads/csv";
+import { leadFilterFromParams } from "@/lib/leads/filters";
+import { readLeadImage } from "@/lib/leads/store";
+import { leadToVCard } from "@/lib/leads/vcard";
+
+/**
+ * GET /api/leads/export?format=vcf|csv — download the leads the user can see.
+ *
+ * Filters: q, status, company, email, event, createdBy, from, to, ids
+ * (see lib/leads/filters).
+ * vcf: vCard 4.0, card image embedded as PHOTO unless `photos=0`.
+ * csv: RFC 4180; `columns=name:Full Name,email,…` picks and renames columns.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get("format") ?? "csv";
+    if (format !== "vcf" && format !== "csv") {
+      return NextResponse.json(
+        { success: false, error: "format must be 'vcf' or 'csv'." },
+        { status: 400 }
+      );
+    }
+
+    const filter = leadFilterFromParams(params);
+    if (!filter.ok) {
+      return NextResponse.json(
+        { success: false, error: filter.error },
+        { status: 400 }
+      );
+    }
+
+    let columns = DEFAULT_CSV_COLUMNS;
+    const spec = params.get("columns");
+    if (format === "csv" && spec) {
+      const parsed = parseColumnSpec(spec);
+      if (!parsed.ok) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        );
+      }
+      columns = parsed.columns;
+    }
+
+    const scope = ownerScope(auth.user);
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM leads WHERE ${filter.where} AND ${scope.where} ORDER BY created_at DESC`,
+      [...filter.params, ...scope.params]
+    );
+    const leads = rows.map(rowToLead);
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    if (format === "csv") {
+      return new NextResponse(leadsToCsv(leads, columns), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8; header=present",
+          "Content-Disposition": `attachment; filename="leads-${stamp}.csv"`,
+        },
+      });
+    }
+
+    const withPhotos = params.get("photos") !== "0";
+    const cards: string[] = [];
+    for (const lead of leads) {
+      const photo = withPhotos ? await readLeadImage(lead.image_url) : null;
+      cards.push(leadToVCard(lead, photo));
+    }
+
+    return new NextResponse(cards.join(""), {
+      headers: {
+        "Content-Type": "text/vcard; charset=utf-8",
+        "Content-Disposition": `attachment; filename="leads-${stamp}.vcf"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[leads export]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import path from "path";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { resolveEventId } from "@/lib/events";
+import {
+  csvToLeadInputs,
+  parseColumnMapping,
+  parseCsv,
+  type ColumnMapping,
+} from "@/lib/leads/csv";
+import { insertLeads } from "@/lib/leads/store";
+import { validateLeadInput, type LeadInput } from "@/lib/leads/validation";
+import { parseVCards } from "@/lib/leads/vcard";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+interface ImportRow {
+  row: number;
+  lead: LeadInput;
+  valid: boolean;
+  error?: string;
+  id?: number;
+}
+
+/**
+ * POST /api/leads/import — import leads from a .vcf or .csv file.
+ *
+ * Form fields:
+ *   file     — the vCard or CSV file
+ *   mapping  — optional JSON { "CSV header": "lead field" | null },
+ *              null skipping the column
+ *   commit   — "true" to insert the valid rows, in one transaction;
+ *              otherwise only a preview
+ *              of the parsed rows is returned
+ *   eventId  — optional event to tag the imported leads with
+ *
+ * Every row goes through the same validation as POST /api/leads. An
+ * `image_url` pointing at a capture the user can't see is dropped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: "No file provided. Send as 'file' field." },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `File too large (${(file.size / 1024 / 1024).toFixed(1)} MB). Max: ${MAX_FILE_SIZE / 1024 / 1024} MB.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const ext = path.extname(file.name).toLowerCase();
+    const format =
+      ext === ".vcf" || ext === ".vcard" || file.type === "text/vcard"
+        ? "vcf"
+        : ext === ".csv" || file.type === "text/csv"
+          ? "csv"
+          : null;
+    if (!format) {
+      return NextResponse.json(
+        { success: false, error: "Unsupported file. Upload a .vcf or .csv file." },
+        { status: 400 }
+      );
+    }
+
+    let mapping: ColumnMapping = {};
+    const rawMapping = formData.get("mapping");
+    if (typeof rawMapping === "string" && rawMapping.trim()) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(rawMapping);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: "Invalid 'mapping' field. Expected JSON." },
+          { status: 400 }
+        );
+      }
+      const result = parseColumnMapping(parsed);
+      if (!result.ok) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        );
+      }
+      mapping = result.mapping;
+    }
+
+    const event = await resolveEventId(formData.get("eventId"));
+    if (!event.ok) {
+      return NextResponse.json(
+        { success: false, error: event.error },
+        { status: 400 }
+      );
+    }
+
+    const text = await file.text();
+    let inputs: LeadInput[];
+    let columns: { mapping: Record<string, string>; ignored: string[] } | undefined;
+    if (format === "vcf") {
+      inputs = parseVCards(text);
+    } else {
+      const parsed = csvToLeadInputs(parseCsv(text), mapping);
+      inputs = parsed.leads;
+      columns = { mapping: parsed.mapping, ignored: parsed.ignored };
+    }
+
+    const rows: ImportRow[] = inputs.map((input, i) => {
+      const validation = validateLeadInput(input);
+      return validation.ok
+        ? { row: i + 1, lead: validation.lead, valid: true }
+        : { row: i + 1, lead: input, valid: false, error: validation.error };
+    });
+
+    const commit = formData.get("commit") === "true";
+    if (commit) {
+      // All valid rows or none, so a failed import can simply be retried
+      const toInsert = rows.filter((r) => r.valid);
+      const ids = await insertLeads(
+        toInsert.map((r) => r.lead),
+        { createdBy: auth.user.id, eventId: event.eventId, scope: ownerScope(auth.user) }
+      );
+      toInsert.forEach((row, i) => (row.id = ids[i]));
+    }
+
+    const valid = rows.filter((r) => r.valid).length;
+    return NextResponse.json(
+      {
+        success: true,
+        format,
+        committed: commit,
+        columns,
+        summary: { total: rows.length, valid, invalid: rows.length - valid },
+        rows,
+      },
+      { status: commit ? 201 : 200 }
+    );
+  } catch (error: unknown) {
+    console.error("[leads import]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
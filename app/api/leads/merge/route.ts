@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { mergeLeads } from "@/lib/leads/merge";
+import { withSignedImage } from "@/lib/leads/store";
+
+function isLeadId(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * POST /api/leads/merge — fold duplicate leads into one.
+ *
+ * Body: { targetId, sourceIds: number[], choices?: { column: leadId } }
+ * The target survives; the sources are deleted after their images,
+ * history and a snapshot are attached to it (see lib/leads/merge).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json().catch(() => null);
+    if (
+      !body ||
+      !isLeadId(body.targetId) ||
+      !Array.isArray(body.sourceIds) ||
+      !body.sourceIds.every(isLeadId) ||
+      (body.choices !== undefined &&
+        (typeof body.choices !== "object" ||
+          body.choices === null ||
+          !Object.values(body.choices).every(isLeadId)))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Expected { targetId, sourceIds: number[], choices?: { column: leadId } }.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeLeads({
+      targetId: body.targetId,
+      sourceIds: body.sourceIds,
+      choices: body.choices,
+      scope: ownerScope(auth.user),
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      lead: withSignedImage(result.lead),
+      merged: result.merged,
+    });
+  } catch (error: unknown) {
+    console.error("[leads merge POST]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,59 @@
 import { NextRequest, NextResponse } from "next/server";
-import pool from "@/lib/db";
-import { ResultSetHeader, RowDataPacket } from "mysql2";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { getCapturesByKeys, linkCaptureToLead } from "@/lib/captures";
+import { resolveEventId } from "@/lib/events";
+import { findDuplicatesOf } from "@/lib/leads/duplicates";
+import { leadFilterFromParams } from "@/lib/leads/filters";
+import { leadQueryFromParams, searchLeads, type LeadListResponse } from "@/lib/leads/search";
+import { insertLead, scopedImageUrl, withSignedImage } from "@/lib/leads/store";
+import { validateLeadInput } from "@/lib/leads/validation";
+import { keyFromImageUrl } from "@/lib/storage";
 
-/** GET /api/leads — list all leads */
-export async function GET() {
+/**
+ * GET /api/leads — one page of the leads the user can see.
+ *
+ * Query: `q` (free-text search over name, email and company), filters
+ * `status`, `company`, `email`, `event`, `createdBy`, `from`/`to` and `ids`
+ * (see lib/leads/filters), `sort` (created_at | name | company |
+ * relevance; relevance by default when searching), `order` (asc | desc,
+ * default desc), `limit` (default 50, max 200) and `cursor` (the previous
+ * page's `nextCursor`). `total` counts every match across pages.
+ */
+export async function GET(request: NextRequest) {
   try {
-    const [rows] = await pool.query<RowDataPacket[]>(
-      "SELECT * FROM leads ORDER BY created_at DESC"
-    );
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
 
-    return NextResponse.json({ success: true, leads: rows });
+    const filter = leadFilterFromParams(request.nextUrl.searchParams);
+    if (!filter.ok) {
+      return NextResponse.json(
+        { success: false, error: filter.error },
+        { status: 400 }
+      );
+    }
+
+    const query = leadQueryFromParams(request.nextUrl.searchParams);
+    if (!query.ok) {
+      return NextResponse.json(
+        { success: false, error: query.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await searchLeads(ownerScope(auth.user), filter, query.query);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const body: LeadListResponse = {
+      success: true,
+      ...result.page,
+      leads: result.page.leads.map(withSignedImage),
+    };
+    return NextResponse.json(body);
   } catch (error: unknown) {
     console.error("[leads GET]", error);
     const message =
@@ -21,46 +65,81 @@ export async function GET() {
   }
 }
 
-/** POST /api/leads — create a new lead */
+/**
+ * POST /api/leads — create a new lead, tagged with `eventId` if given.
+ * Responds 409 with the likely duplicates unless `allowDuplicate: true`.
+ * When `image_url` is one of the user's captures (e.g. from the gallery),
+ * that capture is linked to the new lead; any other stored image is
+ * refused with 400.
+ */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
     const body = await request.json();
-    const { name, email, phone, company, image_url } = body as {
-      name?: string;
-      email?: string;
-      phone?: string;
-      company?: string;
-      image_url?: string;
-    };
+    const validation = validateLeadInput(body);
 
-    if (!name && !email && !phone) {
+    if (!validation.ok) {
       return NextResponse.json(
-        {
-          success: false,
-          error:
-            "At least one of name, email, or phone is required.",
-        },
+        { success: false, error: validation.error },
         { status: 400 }
       );
     }
 
-    const [result] = await pool.execute<ResultSetHeader>(
-      `INSERT INTO leads (name, email, phone, company, image_url)
-       VALUES (?, ?, ?, ?, ?)`,
-      [name ?? null, email ?? null, phone ?? null, company ?? null, image_url ?? null]
-    );
+    const scope = ownerScope(auth.user);
+    const imageUrl = validation.lead.image_url;
+    if (imageUrl && keyFromImageUrl(imageUrl) && !(await scopedImageUrl(imageUrl, scope))) {
+      return NextResponse.json(
+        { success: false, error: "image_url is not one of your captures." },
+        { status: 400 }
+      );
+    }
+
+    const event = await resolveEventId(body.eventId);
+    if (!event.ok) {
+      return NextResponse.json(
+        { success: false, error: event.error },
+        { status: 400 }
+      );
+    }
+
+    if (body.allowDuplicate !== true) {
+      const duplicates = await findDuplicatesOf(validation.lead, scope);
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "This lead looks like one that already exists.",
+            duplicates,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const id = await insertLead(validation.lead, {
+      createdBy: auth.user.id,
+      eventId: event.eventId,
+      scope,
+    });
+
+    const key = keyFromImageUrl(validation.lead.image_url);
+    if (key) {
+      const [capture] = await getCapturesByKeys([key], scope);
+      if (capture) await linkCaptureToLead(capture.key, id);
+    }
 
     return NextResponse.json(
       {
         success: true,
-        lead: {
-          id: result.insertId,
-          name,
-          email,
-          phone,
-          company,
-          image_url,
-        },
+        lead: withSignedImage({
+          id,
+          image_url: null,
+          ...validation.lead,
+          created_by: auth.user.id,
+          event_id: event.eventId,
+        }),
       },
       { status: 201 }
     );
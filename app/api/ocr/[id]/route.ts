@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, ownerScope } from "@/lib/auth";
+import { getOcrJob } from "@/lib/ocr/jobs";
+import { signImageUrl } from "@/lib/storage";
+
+/** GET /api/ocr/:id — poll an OCR job for its status and result */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const job = await getOcrJob(id, ownerScope(auth.user));
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: "OCR job not found." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        ...job,
+        imageUrl: signImageUrl(job.imageUrl),
+        backImageUrl: job.backImageUrl && signImageUrl(job.backImageUrl),
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[ocr GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
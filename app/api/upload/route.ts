@@ -1,22 +1,198 @@
-import { NextRequest, NextResponse } from "next/server";
-import { writeFile, mkdir } from "fs/promises";
-import path from "path";
+import { after, NextRequest, NextResponse } from "next/server";
 import { v4 as uuidv4 } from "uuid";
-
-/** Allowed MIME types and their file extensions */
-const ALLOWED_TYPES: Record<string, string> = {
-  "image/png": ".png",
-  "image/jpeg": ".jpg",
-  "image/webp": ".webp",
-};
+import { authenticate, ownerScope } from "@/lib/auth";
+import { cutoutCoverage } from "@/lib/auto-capture";
+import { findRecentDuplicate } from "@/lib/capture-duplicates";
+import {
+  generateCaptureVariants,
+  insertCapture,
+  type CardGeometry,
+  type DeviceInfo,
+} from "@/lib/captures";
+import { resolveEventId } from "@/lib/events";
+import { dHash } from "@/lib/image/phash";
+import { assessQuality, qualityIssue, type AssessedQuality } from "@/lib/image/quality";
+import { sanitizeImage, type SanitizedImage } from "@/lib/image/sanitize";
+import { IMAGE_EXTENSIONS } from "@/lib/image/sniff";
+import { createOcrJob, runOcrJob } from "@/lib/ocr/jobs";
+import { getStorage, imageUrlForKey, signImageUrl } from "@/lib/storage";
+import {
+  claimUploadKey,
+  completeUploadKey,
+  isValidIdempotencyKey,
+  releaseUploadKey,
+} from "@/lib/upload-keys";
+import { queueCaptureUploaded } from "@/lib/webhooks/events";
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
-const UPLOADS_DIR = path.join(process.cwd(), "public", "uploads");
+/** Longest `device` JSON accepted; it is free-form client data */
+const MAX_DEVICE_INFO_LENGTH = 2048;
+
+/**
+ * Parse the optional `corners` form field. Returns `undefined` when absent,
+ * `null` when present but malformed.
+ */
+function parseCorners(raw: FormDataEntryValue | null): CardGeometry | null | undefined {
+  if (raw === null) return undefined;
+  if (typeof raw !== "string") return null;
+
+  try {
+    const value = JSON.parse(raw) as Partial<CardGeometry>;
+    const isNum = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+    if (
+      !Array.isArray(value.points) ||
+      value.points.length !== 4 ||
+      !value.points.every((p) => p && isNum(p.x) && isNum(p.y)) ||
+      !isNum(value.sourceWidth) ||
+      !isNum(value.sourceHeight)
+    ) {
+      return null;
+    }
+    return {
+      points: value.points.map((p) => ({ x: p.x, y: p.y })),
+      sourceWidth: value.sourceWidth,
+      sourceHeight: value.sourceHeight,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the optional `device` form field: a flat JSON object of scalars.
+ * Returns `undefined` when absent, `null` when malformed.
+ */
+function parseDeviceInfo(raw: FormDataEntryValue | null): DeviceInfo | null | undefined {
+  if (raw === null) return undefined;
+  if (typeof raw !== "string" || raw.length > MAX_DEVICE_INFO_LENGTH) return null;
+
+  try {
+    const value = JSON.parse(raw);
+    if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+    const scalar = (v: unknown) => v === null || ["string", "number", "boolean"].includes(typeof v);
+    return Object.values(value).every(scalar) ? (value as DeviceInfo) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Swap the canonical image URLs in a stored upload response for signed,
+ * expiring ones before it goes to the client.
+ */
+function signResponse(body: Record<string, unknown>): Record<string, unknown> {
+  const duplicate = body.duplicateOf as { url: string } | null | undefined;
+  const back = body.back as { url: string } | null | undefined;
+  return {
+    ...body,
+    url: signImageUrl(body.url as string),
+    duplicateOf: duplicate ? { ...duplicate, url: signImageUrl(duplicate.url) } : null,
+    back: back ? { ...back, url: signImageUrl(back.url) } : null,
+  };
+}
+
+type ImageCheck =
+  | { ok: true; image: SanitizedImage; quality: AssessedQuality }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Size-check, sanitize and quality-check one uploaded side; `label` names
+ * the form field in error messages. The side's corners, if sent, give how
+ * much of the camera cutout the card filled.
+ */
+async function checkImage(
+  file: File,
+  label: string,
+  corners: CardGeometry | undefined
+): Promise<ImageCheck> {
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          success: false,
+          error: `${label} too large (${(file.size / 1024 / 1024).toFixed(1)} MB). Max: ${MAX_FILE_SIZE / 1024 / 1024} MB.`,
+        },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const sanitized = await sanitizeImage(Buffer.from(await file.arrayBuffer()));
+  if (!sanitized.ok) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, error: `${label}: ${sanitized.error}` },
+        { status: 400 }
+      ),
+    };
+  }
+  const image = sanitized.image;
+  const quality = assessQuality(
+    image,
+    corners ? cutoutCoverage(corners.points, corners.sourceWidth, corners.sourceHeight) : null
+  );
+  const issue = qualityIssue(quality);
+  if (issue) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, error: `${label}: ${issue}`, ...quality },
+        { status: 400 }
+      ),
+    };
+  }
+  return { ok: true, image, quality };
+}
 
+/**
+ * POST /api/upload — store a captured card image and queue OCR.
+ *
+ * Send an `Idempotency-Key` header to make retries safe: a key that was
+ * already stored returns the original response (with `replayed: true`)
+ * instead of saving the image again, and a key still being processed
+ * returns 409 so the client backs off and retries. A key left pending by
+ * a request that died is taken over after a couple of minutes. Keys are
+ * per user.
+ *
+ * An optional `eventId` field tags the capture, and the lead OCR creates,
+ * with the event it was taken at.
+ *
+ * The declared file type is ignored: the bytes must sniff as PNG, JPEG or
+ * WebP, and are decoded and re-encoded before storage. Brightness,
+ * sharpness, highlight clipping, glare and contrast are measured here
+ * rather than trusted from the client, card coverage comes from the
+ * corners, and shots below the capture page's quality floor are rejected.
+ * The rest are stored with their combined quality score.
+ *
+ * A near-duplicate of a recent capture is still stored, but the response
+ * carries `duplicateOf` (the earlier capture) so the client can offer to
+ * discard it via DELETE /api/captures/:id, which moves it to the trash.
+ *
+ * For a double-sided card, send the back as a `back` file (with optional
+ * `backCorners`). It is checked like the front, stored as a capture linked
+ * to it, and read by the same OCR job so one lead gets both sides' text.
+ */
 export async function POST(request: NextRequest) {
+  const idempotencyKey = request.headers.get("idempotency-key");
+  /** User whose key this request reserved, to release it on failure */
+  let claimedBy: number | null = null;
+
   try {
+    const auth = await authenticate(request, "rep");
+    if (!auth.ok) return auth.response;
+
+    if (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid Idempotency-Key header." },
+        { status: 400 }
+      );
+    }
+
     const formData = await request.formData();
     const file = formData.get("image");
+    const backFile = formData.get("back");
 
     // ── Validate presence ──
     if (!file || !(file instanceof File)) {
@@ -26,51 +202,171 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // ── Validate MIME type ──
-    const ext = ALLOWED_TYPES[file.type];
-    if (!ext) {
+    if (backFile !== null && !(backFile instanceof File)) {
       return NextResponse.json(
-        {
-          success: false,
-          error: `Unsupported file type: ${file.type}. Allowed: ${Object.keys(ALLOWED_TYPES).join(", ")}`,
-        },
+        { success: false, error: "Invalid 'back' field. Send the card's back as a file." },
         { status: 400 }
       );
     }
 
-    // ── Validate size ──
-    if (file.size > MAX_FILE_SIZE) {
+    // ── Validate card corners ──
+    const corners = parseCorners(formData.get("corners"));
+    const backCorners = parseCorners(formData.get("backCorners"));
+    if (corners === null || backCorners === null) {
+      const field = corners === null ? "corners" : "backCorners";
       return NextResponse.json(
         {
           success: false,
-          error: `File too large (${(file.size / 1024 / 1024).toFixed(1)} MB). Max: ${MAX_FILE_SIZE / 1024 / 1024} MB.`,
+          error: `Invalid '${field}' field. Expected { points: [4 × {x, y}], sourceWidth, sourceHeight }.`,
         },
         { status: 400 }
       );
     }
 
-    // ── Ensure upload directory exists ──
-    await mkdir(UPLOADS_DIR, { recursive: true });
+    // ── Validate device details ──
+    const deviceInfo = parseDeviceInfo(formData.get("device"));
+    if (deviceInfo === null) {
+      return NextResponse.json(
+        { success: false, error: "Invalid 'device' field." },
+        { status: 400 }
+      );
+    }
 
-    // ── Write file ──
-    const filename = `${uuidv4()}${ext}`;
-    const filepath = path.join(UPLOADS_DIR, filename);
-    const buffer = Buffer.from(await file.arrayBuffer());
+    // ── Validate the event ──
+    const event = await resolveEventId(formData.get("eventId"));
+    if (!event.ok) {
+      return NextResponse.json(
+        { success: false, error: event.error },
+        { status: 400 }
+      );
+    }
 
-    await writeFile(filepath, buffer);
+    // ── Verify, re-encode and measure each side ──
+    const front = await checkImage(file, backFile ? "Front" : "Image", corners);
+    if (!front.ok) return front.response;
+    const image = front.image;
 
-    return NextResponse.json(
-      {
-        success: true,
-        filename,
-        url: `/uploads/${filename}`,
-        size: file.size,
-        type: file.type,
-      },
-      { status: 201 }
-    );
+    let backSide: { image: SanitizedImage; quality: AssessedQuality } | null = null;
+    if (backFile) {
+      const back = await checkImage(backFile, "Back", backCorners);
+      if (!back.ok) return back.response;
+      backSide = back;
+    }
+    const backImage = backSide?.image ?? null;
+
+    // ── Replay or reserve the idempotency key ──
+    if (idempotencyKey) {
+      const claim = await claimUploadKey(auth.user.id, idempotencyKey);
+      if (claim.status === "done") {
+        return NextResponse.json(
+          { ...signResponse(claim.response), replayed: true },
+          { status: 200 }
+        );
+      }
+      if (claim.status === "pending") {
+        return NextResponse.json(
+          { success: false, error: "An upload with this Idempotency-Key is in progress." },
+          { status: 409 }
+        );
+      }
+      claimedBy = auth.user.id;
+    }
+
+    // ── Store the image ──
+    const filename = `${uuidv4()}${IMAGE_EXTENSIONS[image.mimeType]}`;
+
+    await getStorage().put(filename, image.data, image.mimeType);
+
+    const url = imageUrlForKey(filename);
+    const phash = await dHash(image.data);
+    const duplicate = await findRecentDuplicate(phash, ownerScope(auth.user));
+
+    const captureId = await insertCapture({
+      key: filename,
+      mimeType: image.mimeType,
+      byteSize: image.data.length,
+      width: image.width,
+      height: image.height,
+      ...front.quality,
+      phash,
+      duplicateOf: duplicate?.id ?? null,
+      deviceInfo,
+      corners,
+      createdBy: auth.user.id,
+      eventId: event.eventId,
+    });
+    // Gallery thumbnails are made once the response is sent
+    after(() => generateCaptureVariants(captureId, filename, image.data));
+
+    // ── Store the back, linked to the front ──
+    let back: { captureId: number; url: string } | null = null;
+    if (backSide && backImage) {
+      const backFilename = `${uuidv4()}${IMAGE_EXTENSIONS[backImage.mimeType]}`;
+      await getStorage().put(backFilename, backImage.data, backImage.mimeType);
+      const backCaptureId = await insertCapture({
+        key: backFilename,
+        mimeType: backImage.mimeType,
+        byteSize: backImage.data.length,
+        width: backImage.width,
+        height: backImage.height,
+        ...backSide.quality,
+        phash: await dHash(backImage.data),
+        frontId: captureId,
+        deviceInfo,
+        corners: backCorners,
+        createdBy: auth.user.id,
+        eventId: event.eventId,
+      });
+      back = { captureId: backCaptureId, url: imageUrlForKey(backFilename) };
+      const backData = backImage.data;
+      after(() => generateCaptureVariants(backCaptureId, backFilename, backData));
+    }
+
+    // ── Queue OCR; recognition runs after the response is sent ──
+    let jobId: string | null = null;
+    try {
+      jobId = await createOcrJob(url, {
+        createdBy: auth.user.id,
+        eventId: event.eventId,
+        backImageUrl: back?.url ?? null,
+      });
+      const id = jobId;
+      const backData = backImage?.data ?? null;
+      after(() => runOcrJob(id, image.data, backData));
+    } catch (err) {
+      // The image is saved either way — OCR can be re-run later
+      console.error("[upload] Could not queue OCR:", err);
+    }
+
+    try {
+      await queueCaptureUploaded(captureId);
+    } catch (err) {
+      console.error("[upload] Could not queue webhooks:", err);
+    }
+
+    const body = {
+      success: true,
+      filename,
+      url,
+      captureId,
+      jobId,
+      size: image.data.length,
+      type: image.mimeType,
+      corners: corners ?? null,
+      eventId: event.eventId,
+      qualityScore: front.quality.qualityScore,
+      duplicateOf: duplicate,
+      back,
+    };
+    if (idempotencyKey) await completeUploadKey(auth.user.id, idempotencyKey, body);
+
+    // The stored URL is canonical; clients get a signed, expiring one
+    return NextResponse.json(signResponse(body), { status: 201 });
   } catch (error: unknown) {
     console.error("[upload] Error:", error);
+    if (claimedBy !== null && idempotencyKey) {
+      await releaseUploadKey(claimedBy, idempotencyKey).catch(() => {});
+    }
 
     const message =
       error instanceof Error ? error.message : "Unknown server error";
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { deleteUserSessions } from "@/lib/auth/session";
+import { getUser, updateUser } from "@/lib/auth/users";
+import { validateUserUpdate } from "@/lib/auth/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * PATCH /api/users/:id — change name, role, team visibility, disabled or
+ * password (admin only). Disabling a user or resetting their password
+ * signs them out everywhere.
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    if (!id || !(await getUser(id))) {
+      return NextResponse.json(
+        { success: false, error: "User not found." },
+        { status: 404 }
+      );
+    }
+
+    const validation = validateUserUpdate(await request.json().catch(() => null));
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const update = validation.user;
+    if (id === auth.user.id && (update.disabled || (update.role && update.role !== "admin"))) {
+      return NextResponse.json(
+        { success: false, error: "You can't disable or demote your own account." },
+        { status: 400 }
+      );
+    }
+
+    await updateUser(id, update);
+    if (update.disabled || update.password !== undefined) await deleteUserSessions(id);
+
+    return NextResponse.json({ success: true, user: await getUser(id) });
+  } catch (error: unknown) {
+    console.error("[user PATCH]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
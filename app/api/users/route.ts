@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { createUser, getUser, listUsers } from "@/lib/auth/users";
+import { validateNewUser } from "@/lib/auth/validation";
+
+/** GET /api/users — every account (admin only) */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    return NextResponse.json({ success: true, users: await listUsers() });
+  } catch (error: unknown) {
+    console.error("[users GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users — create an account (admin only).
+ * Body: { email, name, password, role, teamVisibility? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const validation = validateNewUser(await request.json().catch(() => null));
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    let id: number;
+    try {
+      id = await createUser(validation.user);
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ER_DUP_ENTRY") throw error;
+      return NextResponse.json(
+        { success: false, error: "A user with this email already exists." },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, user: await getUser(id) }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("[users POST]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
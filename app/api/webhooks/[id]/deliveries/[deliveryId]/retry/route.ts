@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { redeliver } from "@/lib/webhooks/outbox";
+
+type Params = { params: Promise<{ id: string; deliveryId: string }> };
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/retry — send a delivery
+ * again now, e.g. a dead-lettered one once the receiver is fixed. It gets
+ * a fresh run of retries; the attempt log is kept (admin only).
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const { id, deliveryId } = await params;
+    const webhookId = Number(id);
+    if (!Number.isInteger(webhookId) || !(await redeliver(webhookId, deliveryId))) {
+      return NextResponse.json(
+        { success: false, error: "Delivery not found." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error: unknown) {
+    console.error("[webhook delivery retry]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { getDelivery } from "@/lib/webhooks/outbox";
+
+type Params = { params: Promise<{ id: string; deliveryId: string }> };
+
+/**
+ * GET /api/webhooks/:id/deliveries/:deliveryId — one delivery with its
+ * payload and every attempt: status code, error, response excerpt and
+ * timing (admin only).
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const { id, deliveryId } = await params;
+    const webhookId = Number(id);
+    const delivery = Number.isInteger(webhookId) ? await getDelivery(webhookId, deliveryId) : null;
+    if (!delivery) {
+      return NextResponse.json(
+        { success: false, error: "Delivery not found." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, delivery });
+  } catch (error: unknown) {
+    console.error("[webhook delivery GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
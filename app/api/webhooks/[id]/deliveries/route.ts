@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { getWebhook } from "@/lib/webhooks";
+import { deliveryQueryFromParams, listDeliveries } from "@/lib/webhooks/outbox";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/webhooks/:id/deliveries — the delivery log, newest first
+ * (admin only).
+ *
+ * Query: status (pending | delivered | dead), limit (default 50, max 200),
+ * cursor (`nextCursor` from the previous page).
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    if (!id || !(await getWebhook(id))) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found." },
+        { status: 404 }
+      );
+    }
+
+    const parsed = deliveryQueryFromParams(request.nextUrl.searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const page = await listDeliveries(id, parsed.query);
+    return NextResponse.json({ success: true, ...page });
+  } catch (error: unknown) {
+    console.error("[webhook deliveries GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { getWebhook, PING_EVENT } from "@/lib/webhooks";
+import { queueWebhookEvent } from "@/lib/webhooks/outbox";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * POST /api/webhooks/:id/ping — queue a `webhook.ping` event for this
+ * subscription alone, to check a receiver end to end (admin only). It is
+ * signed, retried and logged like any other delivery; an inactive
+ * subscription holds it until re-enabled.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    const webhook = id ? await getWebhook(id) : null;
+    if (!webhook) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found." },
+        { status: 404 }
+      );
+    }
+
+    await queueWebhookEvent(
+      PING_EVENT,
+      { webhookId: webhook.id, sentBy: auth.user.id },
+      { webhookId: webhook.id }
+    );
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error: unknown) {
+    console.error("[webhook ping]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
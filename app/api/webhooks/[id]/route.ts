@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import {
+  deleteWebhook,
+  getWebhook,
+  rotateWebhookSecret,
+  updateWebhook,
+  validateWebhookInput,
+} from "@/lib/webhooks";
+
+type Params = { params: Promise<{ id: string }> };
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { success: false, error: "Webhook not found." },
+    { status: 404 }
+  );
+}
+
+/** GET /api/webhooks/:id — one subscription (admin only) */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    const webhook = id ? await getWebhook(id) : null;
+    if (!webhook) return notFound();
+
+    return NextResponse.json({ success: true, webhook });
+  } catch (error: unknown) {
+    console.error("[webhook GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/webhooks/:id — change url, events, description or active
+ * (admin only). With `rotateSecret: true` a new signing secret is issued
+ * and returned; the old one stops working at once.
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    if (!id || !(await getWebhook(id))) return notFound();
+
+    const body = await request.json().catch(() => null);
+    const validation = validateWebhookInput(body, true);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+    const rotateSecret = (body as { rotateSecret?: unknown }).rotateSecret;
+    if (rotateSecret !== undefined && typeof rotateSecret !== "boolean") {
+      return NextResponse.json(
+        { success: false, error: "rotateSecret must be true or false." },
+        { status: 400 }
+      );
+    }
+
+    await updateWebhook(id, validation.webhook);
+    const secret = rotateSecret ? await rotateWebhookSecret(id) : undefined;
+
+    return NextResponse.json({ success: true, webhook: await getWebhook(id), secret });
+  } catch (error: unknown) {
+    console.error("[webhook PATCH]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE /api/webhooks/:id — unsubscribe, dropping undelivered events (admin only) */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const id = parseId((await params).id);
+    if (!id || !(await deleteWebhook(id))) return notFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("[webhook DELETE]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
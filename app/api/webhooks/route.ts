@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { createWebhook, getWebhook, listWebhooks, validateWebhookInput } from "@/lib/webhooks";
+
+/** GET /api/webhooks — every subscription, without secrets (admin only) */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    return NextResponse.json({ success: true, webhooks: await listWebhooks() });
+  } catch (error: unknown) {
+    console.error("[webhooks GET]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks — subscribe a URL to events (admin only).
+ * Body: { url, events: string[], description?, active? }
+ * The response carries the signing secret; it is not shown again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, "admin");
+    if (!auth.ok) return auth.response;
+
+    const validation = validateWebhookInput(await request.json().catch(() => null));
+    if (!validation.ok) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { id, secret } = await createWebhook(validation.webhook, auth.user.id);
+    return NextResponse.json(
+      { success: true, webhook: await getWebhook(id), secret },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("[webhooks POST]", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown server error";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,39 @@
 
 import { useRef, useState, useCallback, useEffect } from "react";
 import Webcam from "react-webcam";
+import {
+  AUTO_POLL_MS,
+  COOLDOWN_MS,
+  COUNTDOWN_MS,
+  cutoutCoverage,
+  judgeFrame,
+  liveProblem,
+  STEADY_FRAMES,
+  type FrameVerdict,
+  type LiveFrame,
+} from "@/lib/auto-capture";
+import {
+  countPending,
+  enqueueCapture,
+  onQueueMessage,
+  registerCaptureWorker,
+  requestUpload,
+  type DuplicateOf,
+  type UploadResult,
+} from "@/lib/capture-queue";
+import type { Quad } from "@/lib/card-detect";
+import {
+  createFrameAnalyzer,
+  type CardGeometry,
+  type FrameAnalyzer,
+  type StageTimings,
+} from "@/lib/frame-analysis";
+import {
+  assessQuality,
+  MIN_BRIGHTNESS,
+  qualityIssue,
+  type QualityProblem,
+} from "@/lib/image/quality";
 import "./capture.css";
 
 const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
@@ -19,239 +52,623 @@ const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
  *                 all valuable for robust model training.
  */
 
-/** Only reject extremely dark frames (near-black). Dim lighting is OK. */
-const BRIGHTNESS_THRESHOLD = 25;
 /** How often (ms) to sample brightness from the live feed */
 const BRIGHTNESS_POLL_MS = 500;
-/** Only reject severely blurry shots. Mild softness is fine for training. */
-const BLUR_THRESHOLD = 5;
 
-/** Fixed output dimensions (1.75:1 business-card ratio) — the "controlled" part */
-const OUTPUT_W = 1024;
-const OUTPUT_H = 585;
-
-/**
- * Sample the video element and return average brightness (0-255).
- * Uses a small off-screen canvas for performance.
- */
-function getAverageBrightness(video: HTMLVideoElement): number {
-  const sampleW = 64;
-  const sampleH = 48;
-  const canvas = document.createElement("canvas");
-  canvas.width = sampleW;
-  canvas.height = sampleH;
-  const ctx = canvas.getContext("2d", { willReadFrequently: true });
-  if (!ctx) return 255;
-
-  ctx.drawImage(video, 0, 0, sampleW, sampleH);
-  const { data } = ctx.getImageData(0, 0, sampleW, sampleH);
-
-  let total = 0;
-  // Luminance from RGB: 0.299R + 0.587G + 0.114B
-  for (let i = 0; i < data.length; i += 4) {
-    total += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
-  }
-  return total / (sampleW * sampleH);
-}
+/** How often (ms) to poll the OCR job after an upload */
+const OCR_POLL_MS = 1500;
+/** How often (ms) to nudge the upload worker while captures are pending */
+const QUEUE_NUDGE_MS = 15000;
+/** localStorage key remembering the event this device is capturing at */
+const ACTIVE_EVENT_KEY = "capturecam.activeEvent";
+/** localStorage key remembering whether hands-free capture is on */
+const AUTO_CAPTURE_KEY = "capturecam.autoCapture";
+
+/** What auto mode tells the user for each frame verdict */
+const AUTO_HINTS: Record<FrameVerdict, string> = {
+  dark: "Too dark — add light",
+  "no-card": "Hold a card up to the camera",
+  outside: "Move the card inside the frame",
+  moving: "Hold steady\u2026",
+  blurry: "Too blurry — hold still or move a little further away",
+  overexposed: "Too bright — move out of direct light",
+  glare: "Glare on the card — tilt it away from the light",
+  "low-contrast": "Print is washed out — try better light",
+  "too-far": "Move closer so the card fills the frame",
+  steady: "Hold it there\u2026",
+};
 
-/**
- * Compute Laplacian variance on a grayscale image to measure sharpness.
- * A 3×3 Laplacian kernel is convolved over a down-scaled copy of the image.
- * Returns the variance of the result — low variance = blurry.
- */
-function getLaplacianVariance(imageSrc: string): Promise<number> {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      // Down-scale for speed
-      const w = 160;
-      const h = Math.round((img.height / img.width) * w);
-      const canvas = document.createElement("canvas");
-      canvas.width = w;
-      canvas.height = h;
-      const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
-      ctx.drawImage(img, 0, 0, w, h);
-      const { data } = ctx.getImageData(0, 0, w, h);
-
-      // Convert to grayscale buffer
-      const gray = new Float32Array(w * h);
-      for (let i = 0; i < gray.length; i++) {
-        const p = i * 4;
-        gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
-      }
+/** Live checks the status pill reports on, worst first */
+type StatusLabel =
+  | "low-light"
+  | Exclude<QualityProblem, "dark" | "blurry">
+  | "dim"
+  | "ready";
+
+const STATUS_MESSAGES: Record<StatusLabel, string> = {
+  "low-light": "Too dark — add light",
+  overexposed: "Overexposed — avoid direct light",
+  glare: "Glare — tilt the card",
+  "low-contrast": "Low contrast — print is washed out",
+  "too-far": "Card too small — move closer",
+  dim: "Dim lighting — still OK",
+  ready: "Ready to capture",
+};
 
-      // Apply 3×3 Laplacian kernel: [0,1,0 / 1,-4,1 / 0,1,0]
-      let sum = 0;
-      let sumSq = 0;
-      let count = 0;
-      for (let y = 1; y < h - 1; y++) {
-        for (let x = 1; x < w - 1; x++) {
-          const lap =
-            gray[(y - 1) * w + x] +
-            gray[y * w + (x - 1)] +
-            -4 * gray[y * w + x] +
-            gray[y * w + (x + 1)] +
-            gray[(y + 1) * w + x];
-          sum += lap;
-          sumSq += lap * lap;
-          count++;
-        }
-      }
+/** Weight of the newest sample in the rolling frame-timing averages */
+const TIMING_SMOOTHING = 0.1;
+
+/** Rolling averages (ms) of frame-processing stages on this device */
+interface FrameTimings {
+  mode: FrameAnalyzer["mode"];
+  /** Live-frame analysis, grab to result */
+  analysis: number | null;
+  /** Capture-time flatten and encode, grab to result */
+  normalize: number | null;
+  /** Latest per-stage breakdown, for the on-screen readout */
+  stages: StageTimings;
+}
 
-      const mean = sum / count;
-      const variance = sumSq / count - mean * mean;
-      resolve(variance);
-    };
-    img.src = imageSrc;
-  });
+/** Fold one measurement into a rolling average */
+function smooth(average: number | null, sample: number): number {
+  return average === null ? sample : average + (sample - average) * TIMING_SMOOTHING;
 }
 
 /**
- * Resize an image data-URL to OUTPUT_W × OUTPUT_H using canvas.
- * Crops to the target aspect ratio (center-crop) then scales down,
- * so the result is never stretched or letterboxed.
+ * Browser and camera details stored with each capture, to tell which
+ * devices produce poor images.
  */
-function resizeImage(imageSrc: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const targetRatio = OUTPUT_W / OUTPUT_H;
-      const srcRatio = img.width / img.height;
-
-      // Center-crop source to match target aspect ratio
-      let sx = 0;
-      let sy = 0;
-      let sw = img.width;
-      let sh = img.height;
-
-      if (srcRatio > targetRatio) {
-        // Source is wider — crop sides
-        sw = img.height * targetRatio;
-        sx = (img.width - sw) / 2;
-      } else {
-        // Source is taller — crop top/bottom
-        sh = img.width / targetRatio;
-        sy = (img.height - sh) / 2;
-      }
-
-      const canvas = document.createElement("canvas");
-      canvas.width = OUTPUT_W;
-      canvas.height = OUTPUT_H;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return reject(new Error("Canvas context unavailable"));
-
-      ctx.drawImage(img, sx, sy, sw, sh, 0, 0, OUTPUT_W, OUTPUT_H);
-      resolve(canvas.toDataURL("image/png"));
-    };
-    img.onerror = () => reject(new Error("Failed to load image for resize"));
-    img.src = imageSrc;
-  });
+function getDeviceInfo(video: HTMLVideoElement | null | undefined) {
+  const stream = video?.srcObject instanceof MediaStream ? video.srcObject : null;
+  const track = stream?.getVideoTracks()[0];
+  const settings = track?.getSettings() ?? {};
+  return {
+    userAgent: navigator.userAgent,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    pixelRatio: window.devicePixelRatio,
+    camera: track?.label || null,
+    videoWidth: settings.width ?? null,
+    videoHeight: settings.height ?? null,
+    facingMode: settings.facingMode ?? null,
+  };
 }
 
 /**
- * Convert a data-URL to a File object for FormData upload.
+ * Form fields sent alongside the image: detected card corners (if any) so
+ * the original geometry is kept, device details and the active event.
+ * Quality metrics are measured again by the server, so aren't sent.
  */
-function dataURLtoFile(dataUrl: string, filename: string): File {
-  const [header, base64] = dataUrl.split(",");
-  const mime = header.match(/:(.*?);/)?.[1] ?? "image/png";
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-  return new File([bytes], filename, { type: mime });
+function captureFields(
+  geometry: CardGeometry | null,
+  video: HTMLVideoElement | null | undefined,
+  eventId: number | null,
+  timings: FrameTimings | null
+): Record<string, string> {
+  const device = {
+    ...getDeviceInfo(video),
+    ...(timings && {
+      analysisMode: timings.mode,
+      frameAnalysisMs: timings.analysis && Math.round(timings.analysis),
+      normalizeMs: timings.normalize && Math.round(timings.normalize),
+    }),
+  };
+  const fields: Record<string, string> = {
+    device: JSON.stringify(device),
+  };
+  if (geometry) fields.corners = JSON.stringify(geometry);
+  if (eventId !== null) fields.eventId = String(eventId);
+  return fields;
 }
 
 /**
- * Upload captured image to /api/upload.
+ * Upload captured image — and the card's back, if taken — to /api/upload.
+ * Only used when the browser can't run the offline queue's service worker.
  */
-async function uploadImage(dataUrl: string): Promise<{ success: boolean; url?: string; error?: string }> {
-  const file = dataURLtoFile(dataUrl, "capture.png");
+async function uploadImage(
+  image: Blob,
+  fields: Record<string, string>,
+  back: Blob | null
+): Promise<UploadResult & { success: boolean; error?: string }> {
   const form = new FormData();
-  form.append("image", file);
-
-  const res = await fetch("/api/upload", { method: "POST", body: form });
+  form.append("image", image, "capture.png");
+  if (back) form.append("back", back, "back.png");
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+
+  const res = await fetch("/api/upload", {
+    method: "POST",
+    body: form,
+    headers: { "Idempotency-Key": crypto.randomUUID() },
+  });
   return res.json();
 }
 
+/** A front held on screen while the user decides whether to capture the back */
+interface CapturedFront {
+  blob: Blob;
+  /** Object URL of `blob`, for the preview */
+  previewUrl: string;
+  /** Upload fields, taken while the camera was still running */
+  fields: Record<string, string>;
+}
+
+/** A flattened back, ready to go out with its front */
+interface CapturedBack {
+  blob: Blob;
+  previewUrl: string;
+  geometry: CardGeometry | null;
+}
+
+/** Event as returned by GET /api/events */
+interface EventOption {
+  id: number;
+  name: string;
+  startsOn: string;
+  endsOn: string;
+}
+
+/** OCR job as returned by GET /api/ocr/:id */
+interface OcrJobResult {
+  status: "pending" | "running" | "done" | "failed";
+  text: string | null;
+  leadId: number | null;
+  error: string | null;
+}
+
 export default function CapturePage() {
   const webcamRef = useRef<Webcam>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  /** Front of a card waiting on its back (or a skip) before upload */
+  const [front, setFront] = useState<CapturedFront | null>(null);
+  const [capturingBack, setCapturingBack] = useState(false);
+  const [backImage, setBackImage] = useState<string | null>(null);
   const [brightness, setBrightness] = useState<number>(255);
-  const [blurWarning, setBlurWarning] = useState<string | null>(null);
+  /** Glare, exposure or framing problem seen on the live card */
+  const [cardProblem, setCardProblem] = useState<QualityProblem | null>(null);
+  const [qualityWarning, setQualityWarning] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [captureCount, setCaptureCount] = useState(0);
   const [showFlash, setShowFlash] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<"idle" | "uploading" | "done" | "error">("idle");
-
-  const tooDark = brightness < BRIGHTNESS_THRESHOLD;
+  const [uploadStatus, setUploadStatus] = useState<
+    "idle" | "queued" | "uploading" | "done" | "error"
+  >("idle");
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [queueReady, setQueueReady] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  /** Queue id of the capture on screen, to match worker messages */
+  const captureIdRef = useRef<string | null>(null);
+  const [liveCorners, setLiveCorners] = useState<CardGeometry | null>(null);
+  const [ocrJobId, setOcrJobId] = useState<string | null>(null);
+  const [ocrJob, setOcrJob] = useState<OcrJobResult | null>(null);
+  /** Quality score (0–100) the server gave the last upload */
+  const [qualityScore, setQualityScore] = useState<number | null>(null);
+  /** Set when the server thinks the last capture repeats an earlier one */
+  const [duplicate, setDuplicate] = useState<{ captureId: number; of: DuplicateOf } | null>(null);
+  const [discarding, setDiscarding] = useState(false);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [activeEventId, setActiveEventId] = useState<number | null>(null);
+  const [autoCapture, setAutoCapture] = useState(false);
+  const [autoVerdict, setAutoVerdict] = useState<FrameVerdict>("no-card");
+  const [autoPhase, setAutoPhase] = useState<"searching" | "countdown" | "cooldown">("searching");
+  /** Auto mode holds fire until this time (epoch ms) */
+  const cooldownUntilRef = useRef(0);
+  /** Latest handleCapture, for the frame loop to call without restarting */
+  const handleCaptureRef = useRef<() => void>(() => {});
+  /** Frame pipeline — in a worker where the browser allows */
+  const analyzerRef = useRef<FrameAnalyzer | null>(null);
+  const timingsRef = useRef<FrameTimings | null>(null);
+  /** Timing readout, shown when the page is opened with ?timings */
+  const [showTimings, setShowTimings] = useState(false);
+  const [timingReadout, setTimingReadout] = useState<FrameTimings | null>(null);
+  /** Object URLs behind the previews, revoked once they're off screen */
+  const previewUrlsRef = useRef<string[]>([]);
+
+  const tooDark = brightness < MIN_BRIGHTNESS;
 
   // Derive a friendly status label
-  const statusLabel = tooDark
+  const statusLabel: StatusLabel = tooDark
     ? "low-light"
-    : brightness < 80
-      ? "dim"
-      : "ready";
+    : cardProblem && cardProblem !== "dark" && cardProblem !== "blurry"
+      ? cardProblem
+      : brightness < 80
+        ? "dim"
+        : "ready";
 
-  // Poll brightness from the live video feed
+  // Start the frame pipeline; tear it down with the page
+  useEffect(() => {
+    const analyzer = createFrameAnalyzer();
+    analyzerRef.current = analyzer;
+    timingsRef.current = { mode: analyzer.mode, analysis: null, normalize: null, stages: {} };
+    setShowTimings(new URLSearchParams(window.location.search).has("timings"));
+    const previewUrls = previewUrlsRef.current;
+    return () => {
+      analyzer.dispose();
+      analyzerRef.current = null;
+      for (const url of previewUrls.splice(0)) URL.revokeObjectURL(url);
+    };
+  }, []);
+
+  /** Fold a stage's timings into the rolling averages */
+  const recordTimings = useCallback(
+    (kind: "analysis" | "normalize", stages: StageTimings) => {
+      const current = timingsRef.current;
+      const analyzer = analyzerRef.current;
+      if (!current || !analyzer) return;
+      const next: FrameTimings = {
+        ...current,
+        mode: analyzer.mode,
+        [kind]: smooth(current[kind], stages.roundTrip),
+        stages,
+      };
+      timingsRef.current = next;
+      if (showTimings) setTimingReadout(next);
+    },
+    [showTimings]
+  );
+
+  /** Object URL for a preview, remembered so it can be revoked */
+  const previewUrl = useCallback((blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    previewUrlsRef.current.push(url);
+    return url;
+  }, []);
+
+  // Poll brightness and the card outline from the live video feed. In
+  // auto mode, poll faster and fire the shutter once the card has held
+  // still in the cutout through a countdown.
   useEffect(() => {
     if (capturedImage) return;
 
-    const id = setInterval(() => {
+    let previous: Quad | null = null;
+    let steadyFrames = 0;
+    let countdownFrom: number | null = null;
+    // Coming back from a preview: give the user time to swap or flip the card
+    if (cooldownUntilRef.current > 0) {
+      cooldownUntilRef.current = Math.max(cooldownUntilRef.current, Date.now() + COOLDOWN_MS);
+    }
+
+    let stopped = false;
+
+    // Frames are analysed off the main thread; a slow one is skipped, not queued
+    async function poll() {
       const video = webcamRef.current?.video;
-      if (video && video.readyState >= 2) {
-        setBrightness(getAverageBrightness(video));
+      const analyzer = analyzerRef.current;
+      if (!video || !analyzer || video.readyState < 2) return;
+
+      const frame = await analyzer.analyze(video, { sharpness: autoCapture });
+      if (!frame || stopped) return;
+      recordTimings("analysis", frame.timings);
+
+      setBrightness(frame.brightness);
+      const { quad, width: videoWidth, height: videoHeight } = frame;
+      setLiveCorners(
+        quad && { points: quad, sourceWidth: videoWidth, sourceHeight: videoHeight }
+      );
+      const live: LiveFrame = {
+        brightness: frame.brightness,
+        quad,
+        sharpness: frame.sharpness,
+        exposure: frame.exposure,
+        videoWidth,
+        videoHeight,
+      };
+      setCardProblem(liveProblem(live));
+      if (!autoCapture) return;
+
+      const verdict = judgeFrame(live, previous);
+      previous = quad;
+      setAutoVerdict(verdict);
+
+      const now = Date.now();
+      steadyFrames = verdict === "steady" ? steadyFrames + 1 : 0;
+      if (now < cooldownUntilRef.current) {
+        countdownFrom = null;
+        setAutoPhase("cooldown");
+        return;
+      }
+      if (steadyFrames < STEADY_FRAMES) {
+        countdownFrom = null;
+        setAutoPhase("searching");
+        return;
+      }
+      countdownFrom ??= now;
+      if (now - countdownFrom < COUNTDOWN_MS) {
+        setAutoPhase("countdown");
+        return;
+      }
+
+      countdownFrom = null;
+      steadyFrames = 0;
+      setAutoPhase("searching");
+      handleCaptureRef.current();
+    }
+
+    const id = setInterval(() => {
+      poll().catch((err) => console.error("[capture] Frame analysis failed:", err));
+    }, autoCapture ? AUTO_POLL_MS : BRIGHTNESS_POLL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(id);
+    };
+  }, [capturedImage, autoCapture, recordTimings]);
+
+  // Restore the auto-capture preference
+  useEffect(() => {
+    setAutoCapture(localStorage.getItem(AUTO_CAPTURE_KEY) === "1");
+  }, []);
+
+  const toggleAutoCapture = useCallback(() => {
+    setAutoCapture((on) => {
+      if (on) localStorage.removeItem(AUTO_CAPTURE_KEY);
+      else localStorage.setItem(AUTO_CAPTURE_KEY, "1");
+      return !on;
+    });
+    setAutoPhase("searching");
+  }, []);
+
+  // Load events and restore the active one, dropping it if it's gone
+  useEffect(() => {
+    const saved = Number(localStorage.getItem(ACTIVE_EVENT_KEY));
+    fetch("/api/events")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) return;
+        setEvents(data.events);
+        if (data.events.some((e: EventOption) => e.id === saved)) setActiveEventId(saved);
+        else localStorage.removeItem(ACTIVE_EVENT_KEY);
+      })
+      .catch(() => {
+        // Offline — keep capturing untagged rather than guess at a stale event
+      });
+  }, []);
+
+  const chooseEvent = useCallback((value: string) => {
+    const id = value ? Number(value) : null;
+    setActiveEventId(id);
+    if (id === null) localStorage.removeItem(ACTIVE_EVENT_KEY);
+    else localStorage.setItem(ACTIVE_EVENT_KEY, String(id));
+  }, []);
+
+  // Start the upload worker and follow its progress
+  useEffect(() => {
+    let cancelled = false;
+    registerCaptureWorker().then(async (registration) => {
+      if (cancelled || !registration) return;
+      setQueueReady(true);
+      setPendingCount(await countPending());
+      requestUpload();
+    });
+
+    const unsubscribe = onQueueMessage((message) => {
+      if (message.type === "queue-changed") {
+        setPendingCount(message.pending);
+        return;
+      }
+      if (message.id !== captureIdRef.current) return;
+      if (message.type === "capture-uploaded") {
+        const { jobId, captureId, duplicateOf, qualityScore } = message.result;
+        setUploadStatus("done");
+        setQualityScore(qualityScore ?? null);
+        if (jobId) setOcrJobId(jobId);
+        if (captureId && duplicateOf) setDuplicate({ captureId, of: duplicateOf });
+      } else {
+        setUploadStatus("error");
+        setUploadError(message.error);
       }
-    }, BRIGHTNESS_POLL_MS);
+    });
+
+    const handleOnline = () => requestUpload();
+    window.addEventListener("online", handleOnline);
 
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, []);
+
+  // Background Sync isn't everywhere — keep nudging while work is queued
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const id = setInterval(() => requestUpload(), QUEUE_NUDGE_MS);
     return () => clearInterval(id);
-  }, [capturedImage]);
+  }, [pendingCount]);
+
+  // Poll the OCR job until it finishes
+  useEffect(() => {
+    if (!ocrJobId) return;
+
+    let cancelled = false;
+    const id = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/ocr/${ocrJobId}`);
+        const data = await res.json();
+        if (cancelled || !data.success) return;
+        setOcrJob(data.job);
+        if (data.job.status === "done" || data.job.status === "failed") {
+          clearInterval(id);
+        }
+      } catch {
+        // Keep polling — the job outlives a flaky connection
+      }
+    }, OCR_POLL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [ocrJobId]);
+
+  /**
+   * Save a finished card — front and optional back in one queue record —
+   * and start following its upload.
+   */
+  const submitCapture = useCallback(
+    async (captured: CapturedFront, back: CapturedBack | null) => {
+      setProcessing(true);
+      setFront(null);
+      setCapturingBack(false);
+      setCapturedImage(captured.previewUrl);
+      setBackImage(back?.previewUrl ?? null);
+      setCaptureCount((c) => c + 1);
+
+      const fields = { ...captured.fields };
+      if (back?.geometry) fields.backCorners = JSON.stringify(back.geometry);
+
+      // Store locally first; the worker uploads when the network allows
+      if (queueReady) {
+        try {
+          const id = await enqueueCapture(captured.blob, fields, back?.blob);
+          captureIdRef.current = id;
+          setUploadStatus("queued");
+          setPendingCount(await countPending());
+          requestUpload();
+          setProcessing(false);
+          return;
+        } catch (err) {
+          // Storage full or blocked — upload directly instead
+          console.error("[capture] Could not queue capture:", err);
+        }
+      }
+
+      setUploadStatus("uploading");
+      try {
+        const result = await uploadImage(captured.blob, fields, back?.blob ?? null);
+        setUploadStatus(result.success ? "done" : "error");
+        if (!result.success) setUploadError(result.error ?? null);
+        if (result.success && result.jobId) setOcrJobId(result.jobId);
+        if (result.success) setQualityScore(result.qualityScore ?? null);
+        if (result.success && result.captureId && result.duplicateOf) {
+          setDuplicate({ captureId: result.captureId, of: result.duplicateOf });
+        }
+      } catch {
+        setUploadStatus("error");
+      }
+
+      setProcessing(false);
+    },
+    [queueReady]
+  );
 
   const handleCapture = useCallback(async () => {
     if (tooDark || processing) return;
-    setBlurWarning(null);
+    setQualityWarning(null);
     setProcessing(true);
 
-    const imageSrc = webcamRef.current?.getScreenshot();
-    if (!imageSrc) {
+    const video = webcamRef.current?.video;
+    const analyzer = analyzerRef.current;
+    if (!video || !analyzer || video.readyState < 2) {
       setProcessing(false);
       return;
     }
+    // Manual or automatic, don't let auto mode fire again straight away
+    cooldownUntilRef.current = Date.now() + COOLDOWN_MS;
 
-    const variance = await getLaplacianVariance(imageSrc);
-
-    if (variance < BLUR_THRESHOLD) {
-      setBlurWarning("Too blurry — hold your phone steady and try again");
+    // Flatten the card to fixed 1024×585 before storing
+    let card;
+    try {
+      card = await analyzer.normalize(video);
+    } catch (err) {
+      console.error("[capture] Could not process the frame:", err);
+      setQualityWarning("Couldn't process that shot — try again");
+      setProcessing(false);
+      return;
+    }
+    recordTimings("normalize", card.timings);
+    const { blob, geometry } = card;
+
+    // Judge the flattened card as the server will
+    const issue = qualityIssue(
+      assessQuality(
+        card.quality,
+        geometry && cutoutCoverage(geometry.points, geometry.sourceWidth, geometry.sourceHeight)
+      )
+    );
+    if (issue) {
+      setQualityWarning(issue);
       setProcessing(false);
       return;
     }
-
-    // Resize to fixed 1024×585 before storing
-    const resized = await resizeImage(imageSrc);
 
     // Camera-flash effect
     setShowFlash(true);
     setTimeout(() => setShowFlash(false), 200);
 
-    setCapturedImage(resized);
-    setCaptureCount((c) => c + 1);
-
-    // Auto-upload to backend
-    setUploadStatus("uploading");
-    try {
-      const result = await uploadImage(resized);
-      setUploadStatus(result.success ? "done" : "error");
-    } catch {
-      setUploadStatus("error");
+    if (capturingBack && front) {
+      await submitCapture(front, { blob, previewUrl: previewUrl(blob), geometry });
+      return;
     }
 
+    // Hold the front and ask about the back before uploading anything
+    const url = previewUrl(blob);
+    setFront({
+      blob,
+      previewUrl: url,
+      fields: captureFields(geometry, video, activeEventId, timingsRef.current),
+    });
+    setCapturedImage(url);
     setProcessing(false);
-  }, [tooDark, processing]);
+  }, [
+    tooDark,
+    processing,
+    capturingBack,
+    front,
+    submitCapture,
+    activeEventId,
+    recordTimings,
+    previewUrl,
+  ]);
+
+  useEffect(() => {
+    handleCaptureRef.current = handleCapture;
+  }, [handleCapture]);
+
+  /** Back to the camera for the other side of the held front */
+  const handleFlip = useCallback(() => {
+    setCapturingBack(true);
+    setCapturedImage(null);
+    setQualityWarning(null);
+  }, []);
+
+  /** Upload the held front on its own */
+  const handleSkipBack = useCallback(() => {
+    if (front) submitCapture(front, null);
+  }, [front, submitCapture]);
 
   const handleRetake = useCallback(() => {
     setCapturedImage(null);
-    setBlurWarning(null);
+    setFront(null);
+    setCapturingBack(false);
+    setBackImage(null);
+    setQualityWarning(null);
     setUploadStatus("idle");
+    setUploadError(null);
+    captureIdRef.current = null;
+    setLiveCorners(null);
+    setOcrJobId(null);
+    setOcrJob(null);
+    setDuplicate(null);
+    setQualityScore(null);
+    for (const url of previewUrlsRef.current.splice(0)) URL.revokeObjectURL(url);
   }, []);
 
+  /** Move a near-duplicate capture to the gallery trash */
+  const handleDiscard = useCallback(async () => {
+    if (!duplicate) return;
+    setDiscarding(true);
+    try {
+      const res = await fetch(`/api/captures/${duplicate.captureId}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setCaptureCount((c) => Math.max(0, c - 1));
+      handleRetake();
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : "Could not discard the capture");
+    }
+    setDiscarding(false);
+  }, [duplicate, handleRetake]);
+
   return (
     <div className="capture-page">
       {/* ── Header ── */}
@@ -263,6 +680,27 @@ export default function CapturePage() {
         {captureCount > 0 && (
           <span className="capture-counter">{captureCount} captured</span>
         )}
+        {pendingCount > 0 && (
+          <span className="capture-pending" title="Saved on this device, waiting to upload">
+            {pendingCount} pending
+          </span>
+        )}
+        {events.length > 0 && (
+          <label className="capture-event">
+            <span>Event</span>
+            <select
+              value={activeEventId ?? ""}
+              onChange={(e) => chooseEvent(e.target.value)}
+            >
+              <option value="">No event</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </header>
 
       <main className="capture-main">
@@ -270,20 +708,93 @@ export default function CapturePage() {
           /* ── Preview state ── */
           <div className="preview-container">
             <div className="preview-badge">
-              {uploadStatus === "uploading"
-                ? "\u2B6E Uploading\u2026"
-                : uploadStatus === "done"
-                  ? "\u2713 Saved"
-                  : uploadStatus === "error"
-                    ? "\u2717 Upload failed"
-                    : "\u2713 Captured"}
+              {uploadStatus === "queued"
+                ? "\u2713 Saved on device \u00B7 uploading when online"
+                : uploadStatus === "uploading"
+                  ? "\u2B6E Uploading\u2026"
+                  : uploadStatus === "done"
+                    ? "\u2713 Saved"
+                    : uploadStatus === "error"
+                      ? "\u2717 Upload failed"
+                      : "\u2713 Captured"}
             </div>
             <img
               src={capturedImage}
               alt="Captured business card"
               className="preview-image"
             />
-            <p className="preview-size">1024 &times; 585 px &middot; PNG</p>
+            <p className="preview-size">
+              1024 &times; 585 px &middot; PNG
+              {qualityScore !== null && <> &middot; quality {Math.round(qualityScore)}/100</>}
+            </p>
+            {backImage && (
+              <div className="preview-back">
+                <img src={backImage} alt="Back of the card" className="preview-back-thumb" />
+                <span>Back side</span>
+              </div>
+            )}
+            {front && (
+              <div className="flip-prompt">
+                <p>Flip the card — anything on the back?</p>
+                <div className="flip-prompt-actions">
+                  <button className="btn btn-secondary" onClick={handleSkipBack}>
+                    Skip
+                  </button>
+                  <button className="btn btn-primary" onClick={handleFlip}>
+                    Capture back
+                  </button>
+                </div>
+              </div>
+            )}
+            {uploadError && (
+              <p className="ocr-result-status ocr-result-status--error">{uploadError}</p>
+            )}
+            {duplicate && (
+              <div className="duplicate-prompt">
+                <img src={duplicate.of.url} alt="Earlier capture" className="duplicate-prompt-thumb" />
+                <p>
+                  Looks like the card you captured at{" "}
+                  {new Date(duplicate.of.createdAt).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                  . Keep both?
+                </p>
+                <div className="duplicate-prompt-actions">
+                  <button className="btn btn-secondary" onClick={() => setDuplicate(null)}>
+                    Keep both
+                  </button>
+                  <button
+                    className={`btn btn-primary${discarding ? " btn-disabled" : ""}`}
+                    disabled={discarding}
+                    onClick={handleDiscard}
+                  >
+                    Discard new
+                  </button>
+                </div>
+              </div>
+            )}
+            {ocrJobId && (
+              <div className="ocr-result">
+                {!ocrJob || ocrJob.status === "pending" || ocrJob.status === "running" ? (
+                  <p className="ocr-result-status">
+                    <span className="spinner spinner--small" /> Reading card&hellip;
+                  </p>
+                ) : ocrJob.status === "failed" ? (
+                  <p className="ocr-result-status ocr-result-status--error">
+                    &#10007; Text recognition failed
+                  </p>
+                ) : (
+                  <>
+                    <p className="ocr-result-status">
+                      &#10003; Draft lead{" "}
+                      <a href={`/leads/${ocrJob.leadId}`}>#{ocrJob.leadId}</a> created
+                    </p>
+                    {ocrJob.text && <pre className="ocr-result-text">{ocrJob.text}</pre>}
+                  </>
+                )}
+              </div>
+            )}
             <div className="capture-actions">
               <button className="btn btn-secondary" onClick={handleRetake}>
                 &#8634; Retake
@@ -291,6 +802,9 @@ export default function CapturePage() {
               <a className="btn btn-primary" href="/gallery">
                 &#9871; Gallery
               </a>
+              <a className="btn btn-secondary" href="/leads">
+                Leads
+              </a>
             </div>
           </div>
         ) : (
@@ -299,11 +813,7 @@ export default function CapturePage() {
             {/* Status pill */}
             <div className={`status-pill status-pill--${statusLabel}`}>
               <span className="status-dot" />
-              {statusLabel === "ready"
-                ? "Ready to capture"
-                : statusLabel === "dim"
-                  ? "Dim lighting — still OK"
-                  : "Too dark — add light"}
+              {STATUS_MESSAGES[statusLabel]}
             </div>
 
             <div className="camera-viewport">
@@ -318,7 +828,9 @@ export default function CapturePage() {
                 <div className="overlay-mask overlay-mask-top" />
                 <div className="overlay-middle">
                   <div className="overlay-mask overlay-mask-side" />
-                  <div className="overlay-cutout">
+                  <div
+                    className={`overlay-cutout${liveCorners ? " overlay-cutout--detected" : ""}`}
+                  >
                     <span className="overlay-corner overlay-corner-tl" />
                     <span className="overlay-corner overlay-corner-tr" />
                     <span className="overlay-corner overlay-corner-bl" />
@@ -330,15 +842,45 @@ export default function CapturePage() {
                 <div className="overlay-mask overlay-mask-bottom" />
               </div>
 
+              {/* Detected card outline — viewBox in video pixels, sliced like object-fit: cover */}
+              {liveCorners && (
+                <svg
+                  className="overlay-quad"
+                  viewBox={`0 0 ${liveCorners.sourceWidth} ${liveCorners.sourceHeight}`}
+                  preserveAspectRatio="xMidYMid slice"
+                >
+                  <polygon
+                    points={liveCorners.points.map((p) => `${p.x},${p.y}`).join(" ")}
+                  />
+                  {liveCorners.points.map((p, i) => (
+                    <circle key={i} cx={p.x} cy={p.y} r={liveCorners.sourceWidth / 120} />
+                  ))}
+                </svg>
+              )}
+
+              {/* Auto-capture countdown — remounts, and so restarts, each time */}
+              {autoCapture && autoPhase === "countdown" && (
+                <svg className="auto-ring" viewBox="0 0 48 48">
+                  <circle className="auto-ring-track" cx="24" cy="24" r="20" />
+                  <circle
+                    className="auto-ring-progress"
+                    cx="24"
+                    cy="24"
+                    r="20"
+                    style={{ animationDuration: `${COUNTDOWN_MS}ms` }}
+                  />
+                </svg>
+              )}
+
               {/* Flash effect */}
               {showFlash && <div className="capture-flash" />}
             </div>
 
             {/* Warnings */}
-            {blurWarning && !tooDark && (
+            {qualityWarning && !tooDark && (
               <div className="blur-warning">
                 <span className="blur-warning-icon">&#9711;</span>
-                {blurWarning}
+                {qualityWarning}
               </div>
             )}
 
@@ -365,11 +907,45 @@ export default function CapturePage() {
                   <span className="btn-capture-ring" />
                 )}
               </button>
+              {capturingBack && (
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleSkipBack}
+                  disabled={processing}
+                >
+                  Skip back
+                </button>
+              )}
+              <button
+                className={`btn btn-secondary btn-auto${autoCapture ? " is-on" : ""}`}
+                onClick={toggleAutoCapture}
+                aria-pressed={autoCapture}
+              >
+                Auto
+              </button>
             </div>
 
             <p className="capture-hint">
-              Align the card within the blue frame, then tap the button
+              {autoCapture
+                ? autoPhase === "cooldown"
+                  ? "Got it — next card in a moment"
+                  : `${capturingBack ? "Back side · " : ""}${AUTO_HINTS[autoVerdict]}`
+                : capturingBack
+                  ? "Now the back — align it within the blue frame"
+                  : "Align the card within the blue frame, then tap the button"}
             </p>
+
+            {showTimings && timingReadout && (
+              <p className="timing-readout">
+                {timingReadout.mode} &middot; frame{" "}
+                {timingReadout.analysis?.toFixed(1) ?? "–"} ms &middot; capture{" "}
+                {timingReadout.normalize?.toFixed(0) ?? "–"} ms
+                <br />
+                {Object.entries(timingReadout.stages)
+                  .map(([stage, ms]) => `${stage} ${ms.toFixed(1)}`)
+                  .join(" · ")}
+              </p>
+            )}
           </div>
         )}
       </main>
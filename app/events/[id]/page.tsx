@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import type { EventSummary, TradeEvent } from "@/lib/events";
+import "../events.css";
+
+export default function EventPage() {
+  const { id } = useParams<{ id: string }>();
+  const [event, setEvent] = useState<TradeEvent | null>(null);
+  const [summary, setSummary] = useState<EventSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/events/${id}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error);
+        setEvent(data.event);
+        setSummary(data.summary);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load event"));
+  }, [id]);
+
+  // Scale the per-day bars against the busiest day
+  const busiest = Math.max(1, ...(summary?.days ?? []).map((d) => Math.max(d.captures, d.leads)));
+
+  return (
+    <div className="events-page">
+      <header className="events-header">
+        <a href="/events" className="events-back">&#8592;</a>
+        <h1 className="events-title">{event?.name ?? "Event"}</h1>
+      </header>
+
+      {error && <p className="events-error">{error}</p>}
+
+      {!event || !summary ? (
+        !error && (
+          <div className="events-empty">
+            <span className="spinner" />
+          </div>
+        )
+      ) : (
+        <>
+          <p className="event-dates">
+            {event.startsOn === event.endsOn ? event.startsOn : `${event.startsOn} – ${event.endsOn}`}
+            {event.location && ` · ${event.location}`}
+          </p>
+
+          <div className="event-stats">
+            <a href={`/gallery?event=${event.id}`} className="event-stat">
+              <span className="event-stat-value">{summary.captures}</span>
+              <span className="event-stat-label">Captures</span>
+              <span className="event-stat-detail">{summary.annotatedCaptures} annotated</span>
+            </a>
+            <a href={`/leads?event=${event.id}`} className="event-stat">
+              <span className="event-stat-value">{summary.leads}</span>
+              <span className="event-stat-label">Leads</span>
+              <span className="event-stat-detail">
+                {summary.leadsByStatus.active} active &middot; {summary.leadsByStatus.draft} draft
+              </span>
+            </a>
+          </div>
+
+          {summary.days.length > 0 && (
+            <section className="event-days">
+              <h2>By day</h2>
+              <ul>
+                {summary.days.map((day) => (
+                  <li key={day.date} className="event-day">
+                    <span className="event-day-date">{day.date}</span>
+                    <span className="event-day-bars">
+                      <span
+                        className="event-day-bar event-day-bar--captures"
+                        style={{ width: `${(day.captures / busiest) * 100}%` }}
+                      />
+                      <span
+                        className="event-day-bar event-day-bar--leads"
+                        style={{ width: `${(day.leads / busiest) * 100}%` }}
+                      />
+                    </span>
+                    <span className="event-day-counts">
+                      {day.captures} / {day.leads}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="event-days-legend">
+                <span className="event-day-bar--captures" /> captures &middot;{" "}
+                <span className="event-day-bar--leads" /> leads
+              </p>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { EventInput, TradeEvent } from "@/lib/events";
+import "./events.css";
+
+const EMPTY_FORM: EventInput = { name: "", startsOn: "", endsOn: "", location: "" };
+
+export default function EventsPage() {
+  const [events, setEvents] = useState<TradeEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<EventInput>(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/events")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error);
+        setEvents(data.events);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load events"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setEvents((prev) =>
+        [data.event, ...prev].sort((a, b) => b.startsOn.localeCompare(a.startsOn))
+      );
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create event");
+    }
+    setCreating(false);
+  };
+
+  return (
+    <div className="events-page">
+      <header className="events-header">
+        <a href="/leads" className="events-back">&#8592;</a>
+        <h1 className="events-title">Events</h1>
+        <span className="events-count">{events.length}</span>
+      </header>
+
+      {error && <p className="events-error">{error}</p>}
+
+      {loading ? (
+        <div className="events-empty">
+          <span className="spinner" />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="events-empty">No events yet</p>
+      ) : (
+        <ul className="events-list">
+          {events.map((event) => (
+            <li key={event.id}>
+              <a href={`/events/${event.id}`} className="event-row">
+                <span className="event-row-name">{event.name}</span>
+                <span className="event-row-meta">
+                  {event.startsOn === event.endsOn
+                    ? event.startsOn
+                    : `${event.startsOn} – ${event.endsOn}`}
+                  {event.location && ` · ${event.location}`}
+                </span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* ── New event ── */}
+      <form className="events-form" onSubmit={create}>
+        <h2>Add event</h2>
+        <input
+          placeholder="Name"
+          required
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <div className="events-form-dates">
+          <label>
+            Starts
+            <input
+              type="date"
+              required
+              value={form.startsOn}
+              onChange={(e) => setForm({ ...form, startsOn: e.target.value })}
+            />
+          </label>
+          <label>
+            Ends
+            <input
+              type="date"
+              required
+              value={form.endsOn}
+              min={form.startsOn || undefined}
+              onChange={(e) => setForm({ ...form, endsOn: e.target.value })}
+            />
+          </label>
+        </div>
+        <input
+          placeholder="Location (optional)"
+          value={form.location ?? ""}
+          onChange={(e) => setForm({ ...form, location: e.target.value })}
+        />
+        <button
+          type="submit"
+          className={`btn btn-primary${creating ? " btn-disabled" : ""}`}
+          disabled={creating}
+        >
+          {creating ? "Creating…" : "Create event"}
+        </button>
+      </form>
+    </div>
+  );
+}
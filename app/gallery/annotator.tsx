@@ -0,0 +1,311 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ANNOTATION_LABELS,
+  CARD_HEIGHT,
+  CARD_WIDTH,
+  MIN_BOX_SIZE,
+  type AnnotationBox,
+  type AnnotationLabel,
+} from "@/lib/annotations";
+
+export interface AnnotatableImage {
+  id: number;
+  filename: string;
+  url: string;
+  width: number | null;
+  height: number | null;
+  annotatedAt: string | null;
+}
+
+interface AnnotatorProps {
+  image: AnnotatableImage;
+  /** Called with the capture's new annotatedAt after a save */
+  onSaved: (id: number, annotatedAt: string) => void;
+  /** Move to the next/previous unannotated image; resolves false when there is none */
+  onStep: (direction: 1 | -1) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type Status =
+  | { kind: "idle" }
+  | { kind: "loading" }
+  | { kind: "saving" }
+  | { kind: "message"; text: string }
+  | { kind: "error"; text: string };
+
+/** Normalise a drag into a box with positive width/height */
+function boxFrom(a: Point, b: Point, label: AnnotationLabel): AnnotationBox {
+  return {
+    label,
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+/**
+ * Draw labelled boxes over a capture. Coordinates are kept in image
+ * pixels; the SVG overlay's viewBox maps them onto the displayed size.
+ *
+ * Keys: 1-7 label · Delete remove box · Enter/S save ·
+ * N/→ next unannotated · P/← previous · Esc close.
+ */
+export default function Annotator({ image, onSaved, onStep, onClose }: AnnotatorProps) {
+  const width = image.width ?? CARD_WIDTH;
+  const height = image.height ?? CARD_HEIGHT;
+
+  const [boxes, setBoxes] = useState<AnnotationBox[]>([]);
+  const [label, setLabel] = useState<AnnotationLabel>("name");
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [status, setStatus] = useState<Status>({ kind: "loading" });
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Load the saved boxes whenever the image changes
+  useEffect(() => {
+    let cancelled = false;
+    setBoxes([]);
+    setSelected(null);
+    setDraft(null);
+    setDirty(false);
+    setStatus({ kind: "loading" });
+    fetch(`/api/captures/${image.id}/annotations`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (!data.success) throw new Error(data.error);
+        setBoxes(
+          data.annotations.map(({ label, x, y, width, height }: AnnotationBox) => ({
+            label,
+            x,
+            y,
+            width,
+            height,
+          }))
+        );
+        setStatus({ kind: "idle" });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setStatus({ kind: "error", text: err instanceof Error ? err.message : "Failed to load" });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image.id]);
+
+  const save = useCallback(async (): Promise<boolean> => {
+    setStatus({ kind: "saving" });
+    try {
+      const res = await fetch(`/api/captures/${image.id}/annotations`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ annotations: boxes }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setDirty(false);
+      setStatus({ kind: "message", text: `Saved ${data.annotations.length} boxes` });
+      onSaved(image.id, data.annotatedAt);
+      return true;
+    } catch (err) {
+      setStatus({ kind: "error", text: err instanceof Error ? err.message : "Save failed" });
+      return false;
+    }
+  }, [boxes, image.id, onSaved]);
+
+  /** Save unsaved work first so stepping never loses boxes */
+  const step = useCallback(
+    async (direction: 1 | -1) => {
+      if (dirty && !(await save())) return;
+      if (!(await onStep(direction))) {
+        setStatus({
+          kind: "message",
+          text: direction === 1 ? "No more unannotated images" : "No earlier unannotated images",
+        });
+      }
+    },
+    [dirty, save, onStep]
+  );
+
+  /** Apply a change to the boxes and mark the image unsaved */
+  const edit = useCallback((change: (prev: AnnotationBox[]) => AnnotationBox[]) => {
+    setBoxes(change);
+    setDirty(true);
+    setStatus({ kind: "idle" });
+  }, []);
+
+  const chooseLabel = useCallback(
+    (next: AnnotationLabel) => {
+      setLabel(next);
+      if (selected === null) return;
+      edit((prev) => prev.map((box, i) => (i === selected ? { ...box, label: next } : box)));
+    },
+    [selected, edit]
+  );
+
+  const removeSelected = useCallback(() => {
+    if (selected === null) return;
+    edit((prev) => prev.filter((_, i) => i !== selected));
+    setSelected(null);
+  }, [selected, edit]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.metaKey || e.ctrlKey || e.altKey) return;
+      const busy = status.kind === "loading" || status.kind === "saving";
+
+      const index = Number(e.key) - 1;
+      if (Number.isInteger(index) && index >= 0 && index < ANNOTATION_LABELS.length) {
+        chooseLabel(ANNOTATION_LABELS[index]);
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        removeSelected();
+      } else if ((e.key === "Enter" || e.key === "s") && !busy) {
+        save();
+      } else if ((e.key === "n" || e.key === "ArrowRight") && !busy) {
+        step(1);
+      } else if ((e.key === "p" || e.key === "ArrowLeft") && !busy) {
+        step(-1);
+      } else if (e.key === "Escape") {
+        if (draft) setDraft(null);
+        else if (selected !== null) setSelected(null);
+        else onClose();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [status.kind, draft, selected, chooseLabel, removeSelected, save, step, onClose]);
+
+  /** Pointer position in image pixels, clamped to the image */
+  const toImage = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (n: number, max: number) => Math.min(max, Math.max(0, n));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * width, width),
+      y: clamp(((e.clientY - rect.top) / rect.height) * height, height),
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0 || status.kind === "loading") return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImage(e);
+    setDraft({ start: point, end: point });
+    setSelected(null);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (draft) setDraft({ ...draft, end: toImage(e) });
+  };
+
+  const onPointerUp = () => {
+    if (!draft) return;
+    const box = boxFrom(draft.start, draft.end, label);
+    setDraft(null);
+    if (box.width < MIN_BOX_SIZE || box.height < MIN_BOX_SIZE) return;
+    edit((prev) => [...prev, box]);
+    setSelected(boxes.length);
+  };
+
+  const draftBox = draft && boxFrom(draft.start, draft.end, label);
+  // Keep label text readable whatever the displayed scale
+  const fontSize = Math.round(width / 50);
+
+  return (
+    <div className="annotator">
+      <div className="annotator-toolbar">
+        {ANNOTATION_LABELS.map((name, i) => (
+          <button
+            key={name}
+            className={`annotator-label annotator-label--${name}${label === name ? " is-active" : ""}`}
+            onClick={() => chooseLabel(name)}
+          >
+            <kbd>{i + 1}</kbd> {name}
+          </button>
+        ))}
+      </div>
+
+      <div className="annotator-stage">
+        <img src={image.url} alt={image.filename} className="annotator-image" draggable={false} />
+        <svg
+          ref={svgRef}
+          className="annotator-overlay"
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio="none"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={() => setDraft(null)}
+        >
+          {boxes.map((box, i) => (
+            <g
+              key={i}
+              className={`annotator-box annotator-box--${box.label}${selected === i ? " is-selected" : ""}`}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                setSelected(i);
+                setLabel(box.label);
+              }}
+            >
+              <rect x={box.x} y={box.y} width={box.width} height={box.height} />
+              <text x={box.x + 4} y={box.y + fontSize + 2} fontSize={fontSize}>
+                {box.label}
+              </text>
+            </g>
+          ))}
+          {draftBox && (
+            <rect
+              className={`annotator-draft annotator-box--${label}`}
+              x={draftBox.x}
+              y={draftBox.y}
+              width={draftBox.width}
+              height={draftBox.height}
+            />
+          )}
+        </svg>
+      </div>
+
+      <div className="annotator-footer">
+        <button className="btn btn-secondary" onClick={() => step(-1)}>
+          &#8592; Prev
+        </button>
+        <span className={`annotator-status${status.kind === "error" ? " is-error" : ""}`}>
+          {status.kind === "loading"
+            ? "Loading…"
+            : status.kind === "saving"
+              ? "Saving…"
+              : status.kind === "message" || status.kind === "error"
+                ? status.text
+                : `${boxes.length} boxes${dirty ? " · unsaved" : image.annotatedAt ? " · saved" : ""}`}
+        </span>
+        <button
+          className={`btn btn-primary${status.kind === "saving" ? " btn-disabled" : ""}`}
+          disabled={status.kind === "saving"}
+          onClick={save}
+        >
+          Save
+        </button>
+        <button className="btn btn-secondary" onClick={() => step(1)}>
+          Next &#8594;
+        </button>
+      </div>
+      <p className="annotator-help">
+        Drag to draw &middot; 1-7 label &middot; Del remove &middot; Enter save &middot; N/P next/prev
+        unannotated &middot; Esc close
+      </p>
+    </div>
+  );
+}
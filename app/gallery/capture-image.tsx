@@ -0,0 +1,40 @@
+import type { ImgHTMLAttributes } from "react";
+
+/** A variant as listed by GET /api/gallery */
+export interface VariantSource {
+  url: string;
+  format: "avif" | "webp";
+  width: number;
+}
+
+interface CaptureImageProps extends ImgHTMLAttributes<HTMLImageElement> {
+  src: string;
+  variants: VariantSource[];
+  /** How wide the image is drawn, for the browser to pick a variant */
+  sizes: string;
+}
+
+/**
+ * A capture as a `<picture>`: one `<source>` per variant format, in the
+ * order the API lists them (smallest first), falling back to the original
+ * when there are no variants or the browser takes neither format.
+ */
+export default function CaptureImage({ src, variants, sizes, ...img }: CaptureImageProps) {
+  const formats = [...new Set(variants.map((v) => v.format))];
+  return (
+    <picture>
+      {formats.map((format) => (
+        <source
+          key={format}
+          type={`image/${format}`}
+          sizes={sizes}
+          srcSet={variants
+            .filter((v) => v.format === format)
+            .map((v) => `${v.url} ${v.width}w`)
+            .join(", ")}
+        />
+      ))}
+      <img src={src} {...img} />
+    </picture>
+  );
+}
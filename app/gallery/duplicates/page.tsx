@@ -0,0 +1,110 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { DuplicateCluster } from "@/lib/capture-duplicates";
+import "../gallery.css";
+
+export default function CaptureDuplicatesPage() {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [unhashed, setUnhashed] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [discarding, setDiscarding] = useState<number | null>(null);
+
+  /** Each scan also hashes a batch of older captures */
+  const scan = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    return fetch("/api/captures/duplicates")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error);
+        setClusters(data.clusters);
+        setUnhashed(data.unhashed);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Scan failed"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  const discard = useCallback(async (id: number) => {
+    setDiscarding(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/captures/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setClusters((prev) =>
+        prev
+          .map((cluster) => ({ captures: cluster.captures.filter((c) => c.id !== id) }))
+          .filter((cluster) => cluster.captures.length > 1)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not discard the capture");
+    }
+    setDiscarding(null);
+  }, []);
+
+  return (
+    <div className="gallery-page">
+      <header className="gallery-header">
+        <a href="/gallery" className="gallery-back">&#8592;</a>
+        <h1 className="gallery-title">Duplicate captures</h1>
+        <span className="gallery-count">{clusters.length}</span>
+      </header>
+
+      {error && <p className="duplicates-error">{error}</p>}
+      {unhashed > 0 && !loading && (
+        <p className="duplicates-note">
+          {unhashed} older captures not checked yet.{" "}
+          <button className="gallery-annotate" onClick={scan}>
+            Check more
+          </button>
+        </p>
+      )}
+
+      <main className="gallery-main">
+        {loading ? (
+          <div className="gallery-empty">
+            <span className="spinner" />
+            <p>Scanning captures…</p>
+          </div>
+        ) : clusters.length === 0 ? (
+          <div className="gallery-empty">
+            <span className="gallery-empty-icon">&#10003;</span>
+            <p>No duplicates found</p>
+          </div>
+        ) : (
+          clusters.map((cluster) => (
+            <section key={cluster.captures[0].id} className="duplicates-cluster">
+              <div className="gallery-grid">
+                {cluster.captures.map((capture, i) => (
+                  <div key={capture.id} className="gallery-card">
+                    <img src={capture.url} alt={`Capture ${capture.id}`} className="gallery-thumb" />
+                    <span className="gallery-card-time">
+                      {i === 0 ? "oldest · " : `${capture.distance} bits · `}
+                      {new Date(capture.createdAt).toLocaleString([], {
+                        dateStyle: "short",
+                        timeStyle: "short",
+                      })}
+                    </span>
+                    <button
+                      className="duplicates-discard"
+                      disabled={discarding === capture.id}
+                      onClick={() => discard(capture.id)}
+                    >
+                      Discard
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ImportFileResult } from "@/lib/capture-import";
+import "../gallery.css";
+
+/** localStorage key of the capture page's active event, used as the default */
+const ACTIVE_EVENT_KEY = "capturecam.activeEvent";
+const ACCEPT = "image/png,image/jpeg,image/webp,application/pdf";
+
+interface EventOption {
+  id: number;
+  name: string;
+}
+
+type ImportStatus = "waiting" | "uploading" | "processing" | "done" | "failed";
+
+interface ImportItem {
+  key: string;
+  file: File;
+  status: ImportStatus;
+  /** Upload progress, 0-1 */
+  progress: number;
+  result: ImportFileResult | null;
+  error: string | null;
+}
+
+/**
+ * Send one file to the import endpoint. XHR rather than fetch, for upload
+ * progress events.
+ */
+function sendFile(
+  file: File,
+  eventId: string,
+  onProgress: (fraction: number) => void
+): Promise<{ success: boolean; files?: ImportFileResult[]; error?: string }> {
+  return new Promise((resolve, reject) => {
+    const form = new FormData();
+    form.append("files", file);
+    if (eventId) form.append("eventId", eventId);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/captures/import");
+    xhr.responseType = "json";
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.upload.onload = () => onProgress(1);
+    xhr.onload = () =>
+      resolve(xhr.response ?? { success: false, error: `Server error (${xhr.status})` });
+    xhr.onerror = () => reject(new Error("Network error"));
+    xhr.send(form);
+  });
+}
+
+function summary(item: ImportItem): string {
+  switch (item.status) {
+    case "waiting":
+      return "Waiting";
+    case "uploading":
+      return `Uploading ${Math.round(item.progress * 100)}%`;
+    case "processing":
+      return "Finding cards…";
+    case "failed":
+      return item.error ?? "Failed";
+    case "done": {
+      const cards = item.result?.cards ?? [];
+      const stored = cards.filter((c) => c.status === "stored").length;
+      const rejected = cards.length - stored;
+      return `${stored} card${stored === 1 ? "" : "s"} imported${rejected ? `, ${rejected} rejected` : ""}`;
+    }
+  }
+}
+
+export default function ImportPage() {
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [eventId, setEventId] = useState("");
+  const [running, setRunning] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(ACTIVE_EVENT_KEY) ?? "";
+    fetch("/api/events")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) return;
+        setEvents(data.events);
+        if (data.events.some((e: EventOption) => String(e.id) === saved)) setEventId(saved);
+      })
+      .catch(() => {});
+  }, []);
+
+  const update = useCallback((key: string, patch: Partial<ImportItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  }, []);
+
+  const addFiles = useCallback((files: FileList | null) => {
+    if (!files) return;
+    const added = [...files].map((file) => ({
+      key: crypto.randomUUID(),
+      file,
+      status: "waiting" as const,
+      progress: 0,
+      result: null,
+      error: null,
+    }));
+    setItems((prev) => [...prev, ...added]);
+  }, []);
+
+  /** Upload waiting files one at a time, so progress is per file */
+  const start = useCallback(async () => {
+    setRunning(true);
+    for (const item of items.filter((i) => i.status === "waiting")) {
+      update(item.key, { status: "uploading" });
+      try {
+        const data = await sendFile(item.file, eventId, (progress) =>
+          update(item.key, progress < 1 ? { progress } : { progress, status: "processing" })
+        );
+        const result = data.files?.[0];
+        if (!data.success || !result) {
+          update(item.key, { status: "failed", error: data.error ?? "Import failed" });
+        } else if (result.error) {
+          update(item.key, { status: "failed", error: result.error, result });
+        } else {
+          update(item.key, { status: "done", result });
+        }
+      } catch (err) {
+        update(item.key, {
+          status: "failed",
+          error: err instanceof Error ? err.message : "Import failed",
+        });
+      }
+    }
+    setRunning(false);
+  }, [items, eventId, update]);
+
+  const finished = items.filter((i) => i.status === "done" || i.status === "failed").length;
+  const waiting = items.filter((i) => i.status === "waiting").length;
+  const storedCards = items.reduce(
+    (n, i) => n + (i.result?.cards.filter((c) => c.status === "stored").length ?? 0),
+    0
+  );
+
+  return (
+    <div className="gallery-page">
+      <header className="gallery-header">
+        <a href="/gallery" className="gallery-back">&#8592;</a>
+        <h1 className="gallery-title">Import cards</h1>
+        {storedCards > 0 && <span className="gallery-count">{storedCards}</span>}
+      </header>
+
+      <div className="gallery-filter">
+        <label>
+          Event
+          <select value={eventId} onChange={(e) => setEventId(e.target.value)} disabled={running}>
+            <option value="">No event</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        className={`import-drop${dragging ? " is-dragging" : ""}`}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+      >
+        <span className="gallery-empty-icon">&#8679;</span>
+        <span>Choose or drop card photos, scanned sheets or PDFs</span>
+        <span className="import-drop-note">
+          Sheets are split into one image per card
+        </span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPT}
+        multiple
+        hidden
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+
+      {items.length > 0 && (
+        <>
+          <div className="import-progress">
+            <div
+              className="import-progress-fill"
+              style={{ width: `${(finished / items.length) * 100}%` }}
+            />
+          </div>
+          <p className="duplicates-note">
+            {finished} of {items.length} files done &middot; {storedCards} cards imported
+          </p>
+        </>
+      )}
+
+      <main className="gallery-main">
+        <ul className="import-list">
+          {items.map((item) => (
+            <li key={item.key} className={`import-item import-item--${item.status}`}>
+              <div className="import-item-head">
+                <span className="import-item-name">{item.file.name}</span>
+                <span className="import-item-status">{summary(item)}</span>
+              </div>
+              {item.status === "uploading" && (
+                <div className="import-progress">
+                  <div
+                    className="import-progress-fill"
+                    style={{ width: `${item.progress * 100}%` }}
+                  />
+                </div>
+              )}
+              {item.result && item.result.cards.length > 0 && (
+                <div className="import-cards">
+                  {item.result.cards.map((card, i) =>
+                    card.status === "stored" && card.url ? (
+                      <div key={i} className="import-card">
+                        <img src={card.url} alt={`Card ${i + 1}`} className="gallery-thumb" />
+                        {card.duplicateOf && <span className="import-card-flag">Duplicate?</span>}
+                        {!card.detected && <span className="import-card-flag">Cropped</span>}
+                      </div>
+                    ) : (
+                      <p key={i} className="import-card-error">
+                        {card.page !== null && `Page ${card.page}: `}
+                        {card.error}
+                      </p>
+                    )
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {waiting > 0 && (
+          <button
+            className={`btn btn-primary gallery-more${running ? " btn-disabled" : ""}`}
+            disabled={running}
+            onClick={start}
+          >
+            {running ? (
+              <span className="spinner spinner--small" />
+            ) : (
+              `Import ${waiting} file${waiting === 1 ? "" : "s"}`
+            )}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
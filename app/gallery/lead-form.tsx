@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+
+/** The fields asked for up front; the rest are filled in on the lead's page */
+const FIELDS = [
+  { name: "name", label: "Name", type: "text" },
+  { name: "company", label: "Company", type: "text" },
+  { name: "email", label: "Email", type: "email" },
+  { name: "phone", label: "Phone", type: "tel" },
+] as const;
+
+type FieldName = (typeof FIELDS)[number]["name"];
+
+interface LeadFormProps {
+  /** The capture's image URL, sent as the lead's `image_url` */
+  imageUrl: string;
+  eventId: number | null;
+  onCancel: () => void;
+}
+
+/**
+ * Create a lead from a gallery image: POST /api/leads with the image
+ * prefilled, then open the new lead. A likely duplicate is shown first
+ * and can be created anyway.
+ */
+export default function LeadForm({ imageUrl, eventId, onCancel }: LeadFormProps) {
+  const [values, setValues] = useState<Record<FieldName, string>>({
+    name: "",
+    company: "",
+    email: "",
+    phone: "",
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [duplicateOf, setDuplicateOf] = useState<number | null>(null);
+
+  async function save(allowDuplicate: boolean) {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/leads", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...values, image_url: imageUrl, eventId, allowDuplicate }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        window.location.assign(`/leads/${data.lead.id}`);
+        return;
+      }
+      setError(data.error);
+      setDuplicateOf(res.status === 409 ? data.duplicates?.[0]?.id ?? null : null);
+    } catch {
+      setError("Could not create the lead");
+    }
+    setSaving(false);
+  }
+
+  return (
+    <form
+      className="lightbox-lead"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save(false);
+      }}
+    >
+      {FIELDS.map((field) => (
+        <label key={field.name}>
+          {field.label}
+          <input
+            type={field.type}
+            value={values[field.name]}
+            onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+          />
+        </label>
+      ))}
+      {error && (
+        <p className="lightbox-lead-error">
+          {error}
+          {duplicateOf && (
+            <>
+              {" "}
+              <a href={`/leads/${duplicateOf}`}>Open it</a>
+            </>
+          )}
+        </p>
+      )}
+      <div className="lightbox-lead-actions">
+        <button type="button" className="btn btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        {duplicateOf ? (
+          <button
+            type="button"
+            className={`btn btn-primary${saving ? " btn-disabled" : ""}`}
+            disabled={saving}
+            onClick={() => save(true)}
+          >
+            Create anyway
+          </button>
+        ) : (
+          <button
+            type="submit"
+            className={`btn btn-primary${saving ? " btn-disabled" : ""}`}
+            disabled={saving}
+          >
+            {saving ? <span className="spinner spinner--small" /> : "Create lead"}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -1,39 +1,384 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { hasRole, type User } from "@/lib/auth/roles";
+import Annotator from "./annotator";
+import CaptureImage, { type VariantSource } from "./capture-image";
+import LeadForm from "./lead-form";
 import "./gallery.css";
 
+/** Most captures one bulk action takes — matches MAX_BULK_CAPTURES in lib/captures */
+const MAX_PICKED = 100;
+
 interface GalleryImage {
+  id: number;
   filename: string;
   url: string;
+  /** AVIF/WebP copies for srcset; empty until they are made */
+  variants: VariantSource[];
   size: number;
+  width: number | null;
+  height: number | null;
+  leadId: number | null;
+  eventId: number | null;
+  /** The card's back, for double-sided captures */
+  back: { id: number; url: string; variants: VariantSource[] } | null;
+  annotatedAt: string | null;
+  /** When it was moved to the trash */
+  deletedAt: string | null;
   createdAt: string;
 }
 
+interface GalleryFilter {
+  from: string;
+  to: string;
+  /** "" for all, or "true"/"false" */
+  annotated: string;
+  /** Event id, or "" for all */
+  event: string;
+}
+
+/** Event as returned by GET /api/events */
+interface EventOption {
+  id: number;
+  name: string;
+}
+
+const NO_FILTER: GalleryFilter = { from: "", to: "", annotated: "", event: "" };
+
+function isFiltered(filter: GalleryFilter): boolean {
+  return Boolean(filter.from || filter.to || filter.annotated || filter.event);
+}
+
+function galleryUrl(filter: GalleryFilter, trash: boolean, cursor: string | null): string {
+  const params = new URLSearchParams();
+  if (trash) params.set("trash", "true");
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  if (filter.annotated) params.set("annotated", filter.annotated);
+  if (filter.event) params.set("event", filter.event);
+  if (cursor) params.set("cursor", cursor);
+  return `/api/gallery?${params}`;
+}
+
+function downloadUrl(filenames: Iterable<string>): string {
+  const params = new URLSearchParams();
+  for (const filename of filenames) params.append("file", filename);
+  return `/api/gallery/download?${params}`;
+}
+
+/** What the last trash/restore did, with the filenames an undo would put back */
+interface Notice {
+  text: string;
+  undo: { filenames: string[]; restore: boolean } | null;
+}
+
 export default function GalleryPage() {
   const [images, setImages] = useState<GalleryImage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filter, setFilter] = useState<GalleryFilter>(NO_FILTER);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [selected, setSelected] = useState<GalleryImage | null>(null);
+  const [flipped, setFlipped] = useState(false);
+  const [annotating, setAnnotating] = useState<GalleryImage | null>(null);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [user, setUser] = useState<User | null>(null);
+  const [trash, setTrash] = useState(false);
+  /** Filenames ticked in select mode; `null` when not selecting */
+  const [picked, setPicked] = useState<Set<string> | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [creatingLead, setCreatingLead] = useState(false);
+  /** Bumped to load the first page again */
+  const [reloads, setReloads] = useState(0);
+  const isAdmin = user !== null && hasRole(user, "admin");
+  const canEdit = user !== null && hasRole(user, "rep");
+
+  // Start from `?event=` (linked from an event's page) and load the event list
+  useEffect(() => {
+    const event = new URLSearchParams(window.location.search).get("event");
+    if (event) setFilter((prev) => ({ ...prev, event }));
+    fetch("/api/events")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setEvents(data.events);
+      })
+      .catch(() => {});
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((data) => setUser(data.success ? data.user : null))
+      .catch(() => {});
+  }, []);
 
+  // First page whenever the filter or view changes
   useEffect(() => {
-    fetch("/api/gallery")
+    let cancelled = false;
+    setLoading(true);
+    setPicked(null);
+    fetch(galleryUrl(filter, trash, null))
       .then((res) => res.json())
       .then((data) => {
-        if (data.success) setImages(data.images);
+        if (cancelled || !data.success) return;
+        setImages(data.images);
+        setTotal(data.total);
+        setNextCursor(data.nextCursor);
       })
       .catch(() => {})
-      .finally(() => setLoading(false));
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filter, trash, reloads]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const data = await fetch(galleryUrl(filter, trash, nextCursor)).then((res) => res.json());
+      if (data.success) {
+        setImages((prev) => [...prev, ...data.images]);
+        setNextCursor(data.nextCursor);
+      }
+    } catch {
+      // Leave the button up so the user can try again
+    }
+    setLoadingMore(false);
+  }, [filter, trash, nextCursor]);
+
+  const togglePicked = useCallback((filename: string) => {
+    setPicked((prev) => {
+      if (!prev) return prev;
+      const next = new Set(prev);
+      if (next.has(filename)) next.delete(filename);
+      else if (next.size < MAX_PICKED) next.add(filename);
+      return next;
+    });
+  }, []);
+
+  /** Take images out of this view once they've moved to or from the trash */
+  const dropImages = useCallback((filenames: string[]) => {
+    const gone = new Set(filenames);
+    setImages((prev) => prev.filter((img) => !gone.has(img.filename)));
+    setTotal((prev) => Math.max(0, prev - gone.size));
+    setPicked((prev) => prev && new Set([...prev].filter((f) => !gone.has(f))));
+    setSelected((prev) => (prev && gone.has(prev.filename) ? null : prev));
+  }, []);
+
+  /**
+   * Move images to the trash, restore them, or (`permanent`) delete them
+   * for good from the trash.
+   */
+  const applyToImages = useCallback(
+    async (filenames: string[], action: "trash" | "restore" | "permanent") => {
+      if (filenames.length === 0) return;
+      if (
+        action === "permanent" &&
+        !window.confirm(
+          `Delete ${filenames.length === 1 ? "this capture" : `${filenames.length} captures`} for good? This cannot be undone.`
+        )
+      ) {
+        return;
+      }
+      setBusy(true);
+      setNotice(null);
+      try {
+        const res =
+          action === "restore"
+            ? await fetch("/api/gallery/restore", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ filenames }),
+              })
+            : await fetch("/api/gallery", {
+                method: "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ filenames, permanent: action === "permanent" }),
+              });
+        const data = await res.json();
+        if (!data.success) {
+          setNotice({ text: data.error, undo: null });
+        } else {
+          const done: string[] = action === "restore" ? data.restored : data.deleted;
+          dropImages(done);
+          const count = done.length === 1 ? "1 capture" : `${done.length} captures`;
+          setNotice(
+            action === "trash"
+              ? { text: `Moved ${count} to the trash`, undo: { filenames: done, restore: true } }
+              : action === "restore"
+                ? { text: `Restored ${count}`, undo: { filenames: done, restore: false } }
+                : { text: `Deleted ${count} for good`, undo: null }
+          );
+        }
+      } catch {
+        setNotice({ text: "Something went wrong — try again", undo: null });
+      }
+      setBusy(false);
+    },
+    [dropImages]
+  );
+
+  /** Undo the last trash or restore; the images reappear on the next load */
+  const undo = useCallback(async () => {
+    if (!notice?.undo) return;
+    const { filenames, restore } = notice.undo;
+    setNotice(null);
+    try {
+      await fetch(restore ? "/api/gallery/restore" : "/api/gallery", {
+        method: restore ? "POST" : "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filenames }),
+      });
+    } catch {
+      // Nothing to roll back on screen; the images stay where they were
+    }
+    setReloads((n) => n + 1);
+  }, [notice]);
+
+  const markAnnotated = useCallback((id: number, annotatedAt: string) => {
+    const update = (img: GalleryImage) => (img.id === id ? { ...img, annotatedAt } : img);
+    setImages((prev) => prev.map(update));
+    setSelected((prev) => prev && update(prev));
+    setAnnotating((prev) => prev && update(prev));
   }, []);
 
+  /**
+   * Open the next (or previous) image without annotations, paging in
+   * more captures as needed. Resolves false when there is none.
+   */
+  const stepAnnotation = useCallback(
+    async (direction: 1 | -1): Promise<boolean> => {
+      let list = images;
+      let cursor = nextCursor;
+      let index = annotating ? list.findIndex((img) => img.id === annotating.id) : -1;
+
+      for (;;) {
+        for (let i = index + direction; i >= 0 && i < list.length; i += direction) {
+          if (list[i].id !== annotating?.id && !list[i].annotatedAt) {
+            setAnnotating(list[i]);
+            return true;
+          }
+        }
+        if (direction === -1 || !cursor) return false;
+
+        const data = await fetch(galleryUrl(filter, trash, cursor)).then((res) => res.json());
+        if (!data.success) return false;
+        index = list.length - 1;
+        list = [...list, ...data.images];
+        cursor = data.nextCursor;
+        setImages(list);
+        setNextCursor(cursor);
+      }
+    },
+    [images, nextCursor, annotating, filter, trash]
+  );
+
   return (
     <div className="gallery-page">
       {/* ── Header ── */}
       <header className="gallery-header">
         <a href="/capture" className="gallery-back">&#8592;</a>
-        <h1 className="gallery-title">Gallery</h1>
-        <span className="gallery-count">{images.length}</span>
+        <h1 className="gallery-title">{trash ? "Trash" : "Gallery"}</h1>
+        <span className="gallery-count">{total}</span>
+        {images.length > 0 && (
+          <button
+            className={`gallery-annotate${picked ? " is-active" : ""}`}
+            onClick={() => setPicked((prev) => (prev ? null : new Set()))}
+          >
+            {picked ? "Done" : "Select"}
+          </button>
+        )}
+        {!trash && images.length > 0 && (
+          <button
+            className="gallery-annotate"
+            onClick={() => {
+              setSelected(null);
+              setAnnotating(images.find((img) => !img.annotatedAt) ?? images[0]);
+            }}
+          >
+            Annotate
+          </button>
+        )}
+        {user && hasRole(user, "rep") && (
+          <a href="/gallery/import" className="gallery-annotate">
+            Import
+          </a>
+        )}
+        {isAdmin && !trash && (
+          <a href="/gallery/duplicates" className="gallery-annotate">
+            Duplicates
+          </a>
+        )}
+        {canEdit && (
+          <button
+            className={`gallery-annotate${trash ? " is-active" : ""}`}
+            onClick={() => {
+              setTrash((prev) => !prev);
+              setNotice(null);
+            }}
+          >
+            {trash ? "Back to gallery" : "Trash"}
+          </button>
+        )}
       </header>
 
+      {/* ── Filter ── */}
+      <div className="gallery-filter">
+        <label>
+          From
+          <input
+            type="date"
+            value={filter.from}
+            max={filter.to || undefined}
+            onChange={(e) => setFilter({ ...filter, from: e.target.value })}
+          />
+        </label>
+        <label>
+          To
+          <input
+            type="date"
+            value={filter.to}
+            min={filter.from || undefined}
+            onChange={(e) => setFilter({ ...filter, to: e.target.value })}
+          />
+        </label>
+        <label>
+          Boxes
+          <select
+            value={filter.annotated}
+            onChange={(e) => setFilter({ ...filter, annotated: e.target.value })}
+          >
+            <option value="">All</option>
+            <option value="false">To do</option>
+            <option value="true">Done</option>
+          </select>
+        </label>
+        {events.length > 0 && (
+          <label>
+            Event
+            <select
+              value={filter.event}
+              onChange={(e) => setFilter({ ...filter, event: e.target.value })}
+            >
+              <option value="">All</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {isFiltered(filter) && (
+          <button className="gallery-filter-clear" onClick={() => setFilter(NO_FILTER)}>
+            &times;
+          </button>
+        )}
+      </div>
+
       {/* ── Content ── */}
       <main className="gallery-main">
         {loading ? (
@@ -44,25 +389,52 @@ export default function GalleryPage() {
         ) : images.length === 0 ? (
           <div className="gallery-empty">
             <span className="gallery-empty-icon">&#128247;</span>
-            <p>No captures yet</p>
-            <a href="/capture" className="btn btn-primary">
-              Start Capturing
-            </a>
+            <p>
+              {trash
+                ? "The trash is empty"
+                : isFiltered(filter)
+                  ? "No captures match this filter"
+                  : "No captures yet"}
+            </p>
+            {!trash && (
+              <a href="/capture" className="btn btn-primary">
+                Start Capturing
+              </a>
+            )}
           </div>
         ) : (
           <div className="gallery-grid">
             {images.map((img) => (
               <button
                 key={img.filename}
-                className="gallery-card"
-                onClick={() => setSelected(img)}
+                className={`gallery-card${picked?.has(img.filename) ? " is-picked" : ""}`}
+                onClick={() => {
+                  if (picked) {
+                    togglePicked(img.filename);
+                    return;
+                  }
+                  setSelected(img);
+                  setFlipped(false);
+                  setCreatingLead(false);
+                }}
               >
-                <img
+                {picked && (
+                  <span className="gallery-card-check">
+                    {picked.has(img.filename) && <>&#10003;</>}
+                  </span>
+                )}
+                <CaptureImage
                   src={img.url}
+                  variants={img.variants}
+                  sizes="(max-width: 480px) 50vw, 240px"
                   alt={img.filename}
                   className="gallery-thumb"
                   loading="lazy"
                 />
+                {img.annotatedAt && !picked && (
+                  <span className="gallery-card-annotated">&#9635;</span>
+                )}
+                {img.back && <span className="gallery-card-sides">2-sided</span>}
                 <span className="gallery-card-time">
                   {new Date(img.createdAt).toLocaleTimeString([], {
                     hour: "2-digit",
@@ -73,8 +445,95 @@ export default function GalleryPage() {
             ))}
           </div>
         )}
+
+        {!loading && nextCursor && (
+          <button
+            className={`btn btn-secondary gallery-more${loadingMore ? " btn-disabled" : ""}`}
+            disabled={loadingMore}
+            onClick={loadMore}
+          >
+            {loadingMore ? (
+              <span className="spinner spinner--small" />
+            ) : (
+              `Load more (${total - images.length})`
+            )}
+          </button>
+        )}
       </main>
 
+      {/* ── Selection bar ── */}
+      {picked && (
+        <div className="gallery-selection">
+          <span className="gallery-selection-count">
+            {picked.size} selected
+            {picked.size >= MAX_PICKED && ` (max ${MAX_PICKED})`}
+          </span>
+          <button
+            className="gallery-annotate"
+            onClick={() =>
+              setPicked(
+                picked.size > 0
+                  ? new Set()
+                  : new Set(images.slice(0, MAX_PICKED).map((img) => img.filename))
+              )
+            }
+          >
+            {picked.size > 0 ? "None" : "All"}
+          </button>
+          {picked.size > 0 && (
+            <>
+              {!trash && (
+                <a className="gallery-annotate" href={downloadUrl(picked)} download>
+                  Download zip
+                </a>
+              )}
+              {canEdit && trash && (
+                <>
+                  <button
+                    className="gallery-annotate"
+                    disabled={busy}
+                    onClick={() => applyToImages([...picked], "restore")}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="gallery-annotate gallery-annotate--danger"
+                    disabled={busy}
+                    onClick={() => applyToImages([...picked], "permanent")}
+                  >
+                    Delete forever
+                  </button>
+                </>
+              )}
+              {canEdit && !trash && (
+                <button
+                  className="gallery-annotate gallery-annotate--danger"
+                  disabled={busy}
+                  onClick={() => applyToImages([...picked], "trash")}
+                >
+                  Delete
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* ── Notice ── */}
+      {notice && !picked && (
+        <div className="gallery-selection" role="status">
+          <span className="gallery-selection-count">{notice.text}</span>
+          {notice.undo && (
+            <button className="gallery-annotate" onClick={undo}>
+              Undo
+            </button>
+          )}
+          <button className="gallery-annotate" onClick={() => setNotice(null)}>
+            &times;
+          </button>
+        </div>
+      )}
+
       {/* ── Lightbox ── */}
       {selected && (
         <div className="lightbox" onClick={() => setSelected(null)}>
@@ -85,14 +544,57 @@ export default function GalleryPage() {
             >
               &times;
             </button>
-            <img
-              src={selected.url}
-              alt={selected.filename}
-              className="lightbox-image"
-            />
+            {selected.back ? (
+              <button
+                className={`lightbox-flip${flipped ? " is-flipped" : ""}`}
+                onClick={() => setFlipped((f) => !f)}
+                aria-label={flipped ? "Show front" : "Show back"}
+              >
+                <span className="lightbox-flip-inner">
+                  <CaptureImage
+                    src={selected.url}
+                    variants={selected.variants}
+                    sizes="100vw"
+                    alt={`${selected.filename} (front)`}
+                    className="lightbox-image lightbox-face"
+                  />
+                  <CaptureImage
+                    src={selected.back.url}
+                    variants={selected.back.variants}
+                    sizes="100vw"
+                    alt={`${selected.filename} (back)`}
+                    className="lightbox-image lightbox-face lightbox-face--back"
+                  />
+                </span>
+              </button>
+            ) : (
+              <CaptureImage
+                src={selected.url}
+                variants={selected.variants}
+                sizes="100vw"
+                alt={selected.filename}
+                className="lightbox-image"
+              />
+            )}
             <div className="lightbox-info">
+              {selected.back && (
+                <>
+                  <button className="lightbox-annotate" onClick={() => setFlipped((f) => !f)}>
+                    {flipped ? "Show front" : "Show back"}
+                  </button>
+                  <span>&middot;</span>
+                </>
+              )}
               <span>{(selected.size / 1024).toFixed(0)} KB</span>
               <span>&middot;</span>
+              {selected.width && selected.height && (
+                <>
+                  <span>
+                    {selected.width} &times; {selected.height}
+                  </span>
+                  <span>&middot;</span>
+                </>
+              )}
               <span>
                 {new Date(selected.createdAt).toLocaleString([], {
                   month: "short",
@@ -101,7 +603,109 @@ export default function GalleryPage() {
                   minute: "2-digit",
                 })}
               </span>
+              {selected.leadId && (
+                <>
+                  <span>&middot;</span>
+                  <a href={`/leads/${selected.leadId}`}>Lead #{selected.leadId}</a>
+                </>
+              )}
+              {!trash && (
+                <>
+                  <span>&middot;</span>
+                  <button
+                    className="lightbox-annotate"
+                    onClick={() => {
+                      setAnnotating(selected);
+                      setSelected(null);
+                    }}
+                  >
+                    {selected.annotatedAt ? "Edit boxes" : "Annotate"}
+                  </button>
+                </>
+              )}
             </div>
+            {!creatingLead && (
+              <div className="lightbox-info">
+                {trash && selected.deletedAt && (
+                  <span>
+                    Deleted{" "}
+                    {new Date(selected.deletedAt).toLocaleDateString([], {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </span>
+                )}
+                {canEdit && !trash && !selected.leadId && (
+                  <>
+                    <button className="lightbox-annotate" onClick={() => setCreatingLead(true)}>
+                      Create lead from this image
+                    </button>
+                    <span>&middot;</span>
+                  </>
+                )}
+                {!trash && (
+                  <a href={downloadUrl([selected.filename])} download>
+                    Download
+                  </a>
+                )}
+                {canEdit && trash && (
+                  <>
+                    <span>&middot;</span>
+                    <button
+                      className="lightbox-annotate"
+                      disabled={busy}
+                      onClick={() => applyToImages([selected.filename], "restore")}
+                    >
+                      Restore
+                    </button>
+                    <span>&middot;</span>
+                    <button
+                      className="lightbox-annotate lightbox-annotate--danger"
+                      disabled={busy}
+                      onClick={() => applyToImages([selected.filename], "permanent")}
+                    >
+                      Delete forever
+                    </button>
+                  </>
+                )}
+                {canEdit && !trash && (
+                  <>
+                    <span>&middot;</span>
+                    <button
+                      className="lightbox-annotate lightbox-annotate--danger"
+                      disabled={busy}
+                      onClick={() => applyToImages([selected.filename], "trash")}
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            {creatingLead && (
+              <LeadForm
+                imageUrl={selected.url}
+                eventId={selected.eventId}
+                onCancel={() => setCreatingLead(false)}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* ── Annotation mode ── */}
+      {annotating && (
+        <div className="lightbox">
+          <div className="lightbox-content lightbox-content--wide">
+            <button className="lightbox-close" onClick={() => setAnnotating(null)}>
+              &times;
+            </button>
+            <Annotator
+              image={annotating}
+              onSaved={markAnnotated}
+              onStep={stepAnnotation}
+              onClose={() => setAnnotating(null)}
+            />
           </div>
         </div>
       )}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import type { LeadFieldName } from "@/lib/contact-extract";
+import {
+  LEAD_FIELD_LABELS,
+  LEAD_FIELDS,
+  LOW_CONFIDENCE_THRESHOLD,
+  type Lead,
+  type LeadEdit,
+  type LeadMerge,
+} from "@/lib/leads";
+import "../leads.css";
+
+type FormValues = Record<LeadFieldName, string>;
+
+function toForm(lead: Lead): FormValues {
+  return Object.fromEntries(LEAD_FIELDS.map((f) => [f, lead[f] ?? ""])) as FormValues;
+}
+
+export default function LeadDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [lead, setLead] = useState<Lead | null>(null);
+  const [edits, setEdits] = useState<LeadEdit[]>([]);
+  const [images, setImages] = useState<string[]>([]);
+  const [merges, setMerges] = useState<LeadMerge[]>([]);
+  const [form, setForm] = useState<FormValues | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyResponse = useCallback(
+    (data: { lead: Lead; edits: LeadEdit[]; images?: string[]; merges?: LeadMerge[] }) => {
+      setLead(data.lead);
+      setEdits(data.edits);
+      if (data.images) setImages(data.images);
+      if (data.merges) setMerges(data.merges);
+      setForm(toForm(data.lead));
+    },
+    []
+  );
+
+  useEffect(() => {
+    fetch(`/api/leads/${id}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) applyResponse(data);
+        else setError(data.error);
+      })
+      .catch(() => setError("Could not load lead"))
+      .finally(() => setLoading(false));
+  }, [id, applyResponse]);
+
+  const dirtyFields = lead && form
+    ? LEAD_FIELDS.filter((f) => (form[f].trim() || null) !== lead[f])
+    : [];
+
+  const save = useCallback(
+    async (extra: { status?: "active" } = {}) => {
+      if (!form) return;
+      setSaving(true);
+      setError(null);
+
+      const body: Record<string, string | null> = { ...extra };
+      for (const field of dirtyFields) body[field] = form[field].trim() || null;
+
+      try {
+        const res = await fetch(`/api/leads/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        if (data.success) applyResponse(data);
+        else setError(data.error);
+      } catch {
+        setError("Could not save changes");
+      }
+      setSaving(false);
+    },
+    [id, form, dirtyFields, applyResponse]
+  );
+
+  const handleDelete = useCallback(async () => {
+    if (!window.confirm("Delete this lead? This cannot be undone.")) return;
+    const res = await fetch(`/api/leads/${id}`, { method: "DELETE" });
+    const data = await res.json();
+    if (data.success) router.push("/leads");
+    else setError(data.error);
+  }, [id, router]);
+
+  return (
+    <div className="leads-page leads-page--detail">
+      {/* ── Header ── */}
+      <header className="leads-header">
+        <a href="/leads" className="leads-back">&#8592;</a>
+        <h1 className="leads-title">{lead?.name || `Lead #${id}`}</h1>
+        {lead?.status === "draft" && <span className="badge badge-draft">Draft</span>}
+      </header>
+
+      <main className="leads-main">
+        {loading ? (
+          <div className="leads-empty">
+            <span className="spinner" />
+            <p>Loading lead…</p>
+          </div>
+        ) : !lead || !form ? (
+          <div className="leads-empty">
+            <p>{error ?? "Lead not found"}</p>
+            <a href="/leads" className="btn btn-primary">
+              All leads
+            </a>
+          </div>
+        ) : (
+          <div className="lead-detail">
+            {/* ── Card image ── */}
+            <div className="lead-detail-image">
+              {lead.image_url ? (
+                <a href={lead.image_url} target="_blank" rel="noreferrer">
+                  <img src={lead.image_url} alt="Business card" />
+                </a>
+              ) : (
+                <div className="lead-detail-noimage">No card image</div>
+              )}
+              {images.length > 1 && (
+                <div className="lead-detail-images">
+                  {images
+                    .filter((url) => url !== lead.image_url)
+                    .map((url) => (
+                      <a key={url} href={url} target="_blank" rel="noreferrer">
+                        <img src={url} alt="Merged business card" loading="lazy" />
+                      </a>
+                    ))}
+                </div>
+              )}
+            </div>
+
+            {/* ── Editable fields ── */}
+            <form
+              className="lead-form"
+              onSubmit={(e) => {
+                e.preventDefault();
+                save();
+              }}
+            >
+              {LEAD_FIELDS.map((field) => {
+                const score = lead.field_confidence[field];
+                const low = score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+                return (
+                  <label key={field} className={`lead-field${low ? " lead-field--low" : ""}`}>
+                    <span className="lead-field-label">
+                      {LEAD_FIELD_LABELS[field]}
+                      {low && (
+                        <span className="lead-field-flag">
+                          &#9888; check &middot; {Math.round(score * 100)}%
+                        </span>
+                      )}
+                    </span>
+                    {field === "address" ? (
+                      <textarea
+                        rows={2}
+                        value={form[field]}
+                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                      />
+                    ) : (
+                      <input
+                        type={field === "email" ? "email" : field === "website" ? "url" : "text"}
+                        value={form[field]}
+                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                      />
+                    )}
+                  </label>
+                );
+              })}
+
+              {error && <p className="lead-error">{error}</p>}
+
+              <div className="lead-actions">
+                <button
+                  type="submit"
+                  className={`btn btn-primary${saving || dirtyFields.length === 0 ? " btn-disabled" : ""}`}
+                  disabled={saving || dirtyFields.length === 0}
+                >
+                  Save
+                </button>
+                {lead.status === "draft" && (
+                  <button
+                    type="button"
+                    className={`btn btn-secondary${saving ? " btn-disabled" : ""}`}
+                    disabled={saving}
+                    onClick={() => save({ status: "active" })}
+                  >
+                    &#10003; Confirm lead
+                  </button>
+                )}
+                <button type="button" className="btn btn-danger" onClick={handleDelete}>
+                  Delete
+                </button>
+              </div>
+            </form>
+
+            {/* ── Edit history ── */}
+            <section className="lead-history">
+              <h2>History</h2>
+              {edits.length === 0 ? (
+                <p className="lead-history-empty">No edits yet</p>
+              ) : (
+                <ul>
+                  {edits.map((edit) => (
+                    <li key={edit.id}>
+                      <span className="lead-history-field">
+                        {LEAD_FIELD_LABELS[edit.field as LeadFieldName] ?? edit.field}
+                      </span>
+                      <span className="lead-history-change">
+                        <del>{edit.old_value || "—"}</del> &rarr; {edit.new_value || "—"}
+                      </span>
+                      <time>
+                        {new Date(edit.edited_at).toLocaleString([], {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </time>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {merges.length > 0 && (
+                <ul className="lead-history-merges">
+                  {merges.map((merge) => (
+                    <li key={merge.id}>
+                      <span className="lead-history-field">Merged</span>
+                      <span className="lead-history-change">
+                        #{merge.source_id}{" "}
+                        {[merge.source.name, merge.source.email].filter(Boolean).join(" · ")}
+                      </span>
+                      <time>
+                        {new Date(merge.merged_at).toLocaleString([], {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </time>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LEAD_FIELD_LABELS, LEAD_FIELDS, type Lead } from "@/lib/leads";
+import type { DuplicatePair } from "@/lib/leads/duplicates";
+import type { MergeColumn } from "@/lib/leads/merge";
+import "../leads.css";
+
+const REASON_LABELS: Record<string, string> = {
+  email: "same email",
+  phone: "same phone",
+  name: "same name",
+  "name+company": "similar name & company",
+};
+
+/** A pair being reviewed: both full leads plus the per-column picks */
+interface Review {
+  pair: DuplicatePair;
+  leads: [Lead, Lead];
+  targetId: number;
+  choices: Partial<Record<MergeColumn, number>>;
+}
+
+async function loadLead(id: number): Promise<Lead> {
+  const data = await fetch(`/api/leads/${id}`).then((res) => res.json());
+  if (!data.success) throw new Error(data.error);
+  return data.lead;
+}
+
+/** Default pick per column: the target's value, else the other's */
+function defaultChoices(leads: [Lead, Lead], targetId: number) {
+  const target = leads.find((l) => l.id === targetId)!;
+  const other = leads.find((l) => l.id !== targetId)!;
+  const choices: Partial<Record<MergeColumn, number>> = {};
+  for (const column of [...LEAD_FIELDS, "image_url"] as MergeColumn[]) {
+    choices[column] = target[column] || !other[column] ? target.id : other.id;
+  }
+  return choices;
+}
+
+export default function DuplicatesPage() {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [review, setReview] = useState<Review | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const loadPairs = useCallback(() => {
+    return fetch("/api/leads/duplicates")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setPairs(data.pairs);
+        else setError(data.error);
+      })
+      .catch(() => setError("Could not scan for duplicates"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadPairs();
+  }, [loadPairs]);
+
+  const startReview = useCallback(async (pair: DuplicatePair) => {
+    setError(null);
+    try {
+      const leads: [Lead, Lead] = [await loadLead(pair.a.id), await loadLead(pair.b.id)];
+      // Keep the older lead by default
+      const targetId = leads[0].created_at <= leads[1].created_at ? leads[0].id : leads[1].id;
+      setReview({ pair, leads, targetId, choices: defaultChoices(leads, targetId) });
+    } catch {
+      setError("Could not load these leads");
+    }
+  }, []);
+
+  const handleMerge = useCallback(async () => {
+    if (!review) return;
+    setMerging(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/leads/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          targetId: review.targetId,
+          sourceIds: review.leads.filter((l) => l.id !== review.targetId).map((l) => l.id),
+          choices: review.choices,
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setReview(null);
+        await loadPairs();
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Merge failed");
+    }
+    setMerging(false);
+  }, [review, loadPairs]);
+
+  return (
+    <div className="leads-page">
+      {/* ── Header ── */}
+      <header className="leads-header">
+        <a href="/leads" className="leads-back">&#8592;</a>
+        <h1 className="leads-title">Possible duplicates</h1>
+        <span className="leads-count">{pairs.length}</span>
+      </header>
+
+      {error && <p className="lead-error">{error}</p>}
+
+      <main className="leads-main">
+        {loading ? (
+          <div className="leads-empty">
+            <span className="spinner" />
+            <p>Scanning leads…</p>
+          </div>
+        ) : pairs.length === 0 ? (
+          <div className="leads-empty">
+            <span className="leads-empty-icon">&#10003;</span>
+            <p>No duplicates found</p>
+          </div>
+        ) : (
+          <ul className="leads-list">
+            {pairs.map((pair) => {
+              const open = review?.pair === pair;
+              return (
+                <li key={`${pair.a.id}-${pair.b.id}`} className="dup-pair">
+                  <div className="dup-pair-head">
+                    <span>
+                      <span className="dup-pair-score">{Math.round(pair.score * 100)}%</span>{" "}
+                      &middot; {pair.reasons.map((r) => REASON_LABELS[r] ?? r).join(", ")}
+                    </span>
+                    {!open && (
+                      <button className="btn btn-secondary" onClick={() => startReview(pair)}>
+                        Review
+                      </button>
+                    )}
+                  </div>
+
+                  {!open || !review ? (
+                    [pair.a, pair.b].map((lead) => (
+                      <a key={lead.id} href={`/leads/${lead.id}`} className="lead-row">
+                        <span className="lead-row-body">
+                          <span className="lead-row-name">
+                            #{lead.id} {lead.name || lead.email || "Unnamed lead"}
+                          </span>
+                          <span className="lead-row-meta">
+                            {[lead.company, lead.email, lead.phone].filter(Boolean).join(" · ")}
+                          </span>
+                        </span>
+                      </a>
+                    ))
+                  ) : (
+                    <>
+                      <table className="dup-table">
+                        <thead>
+                          <tr>
+                            <th>Keep</th>
+                            {review.leads.map((lead) => (
+                              <td key={lead.id}>
+                                <label>
+                                  <input
+                                    type="radio"
+                                    name="target"
+                                    checked={review.targetId === lead.id}
+                                    onChange={() =>
+                                      setReview({
+                                        ...review,
+                                        targetId: lead.id,
+                                        choices: defaultChoices(review.leads, lead.id),
+                                      })
+                                    }
+                                  />
+                                  Lead #{lead.id}
+                                </label>
+                              </td>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {LEAD_FIELDS.map((field) => (
+                            <tr key={field}>
+                              <th>{LEAD_FIELD_LABELS[field]}</th>
+                              {review.leads.map((lead) => (
+                                <td key={lead.id}>
+                                  <label className={lead[field] ? "" : "dup-empty"}>
+                                    <input
+                                      type="radio"
+                                      name={field}
+                                      checked={review.choices[field] === lead.id}
+                                      onChange={() =>
+                                        setReview({
+                                          ...review,
+                                          choices: { ...review.choices, [field]: lead.id },
+                                        })
+                                      }
+                                    />
+                                    {lead[field] || "—"}
+                                  </label>
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div className="lead-actions">
+                        <button
+                          className={`btn btn-primary${merging ? " btn-disabled" : ""}`}
+                          disabled={merging}
+                          onClick={handleMerge}
+                        >
+                          Merge into #{review.targetId}
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => setReview(null)}>
+                          Cancel
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { User } from "@/lib/auth/roles";
+import { LOW_CONFIDENCE_THRESHOLD, type Lead } from "@/lib/leads";
+import type { LeadListResponse, LeadSort } from "@/lib/leads/search";
+import type { LeadInput } from "@/lib/leads/validation";
+import "./leads.css";
+
+/** Wait (ms) after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** Sort choices; "" lets the server pick (relevance when searching, else newest) */
+const SORT_OPTIONS: { value: "" | LeadSort; label: string }[] = [
+  { value: "", label: "Best match / newest" },
+  { value: "created_at", label: "Newest" },
+  { value: "name", label: "Name" },
+  { value: "company", label: "Company" },
+];
+
+/** Number of extracted fields that still need a human look */
+function lowConfidenceCount(lead: Lead): number {
+  return Object.values(lead.field_confidence).filter(
+    (score) => score !== undefined && score < LOW_CONFIDENCE_THRESHOLD
+  ).length;
+}
+
+/** Row of an import preview from POST /api/leads/import */
+interface ImportRow {
+  row: number;
+  lead: LeadInput;
+  valid: boolean;
+  error?: string;
+}
+
+interface ImportPreview {
+  file: File;
+  rows: ImportRow[];
+  summary: { total: number; valid: number; invalid: number };
+}
+
+/** Event as returned by GET /api/events */
+interface EventOption {
+  id: number;
+  name: string;
+}
+
+async function postImport(file: File, commit: boolean, eventId: string) {
+  const form = new FormData();
+  form.append("file", file);
+  if (commit) form.append("commit", "true");
+  if (eventId) form.append("eventId", eventId);
+  const res = await fetch("/api/leads/import", { method: "POST", body: form });
+  return res.json();
+}
+
+export default function LeadsPage() {
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  /** Search box text, and the debounced value actually queried */
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<"" | LeadSort>("");
+  const [listError, setListError] = useState<string | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  /** Event filter, mirrored in the `?event=` query so it can be linked to */
+  const [eventId, setEventId] = useState<string | null>(null);
+
+  /** Fetch the first page, or the page after `cursor` onto the end of the list */
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams();
+      if (eventId) params.set("event", eventId);
+      if (query) params.set("q", query);
+      // Names and companies read A→Z; dates newest first
+      if (sort) params.set("sort", sort);
+      if (sort === "name" || sort === "company") params.set("order", "asc");
+      if (cursor) params.set("cursor", cursor);
+
+      const res = await fetch(`/api/leads?${params}`);
+      const data: LeadListResponse | { success: false; error: string } = await res.json();
+      if (!data.success) {
+        setListError(data.error);
+        return;
+      }
+      setListError(null);
+      setLeads((prev) => (cursor ? [...prev, ...data.leads] : data.leads));
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+    },
+    [eventId, query, sort]
+  );
+
+  const loadLeads = useCallback(() => {
+    if (eventId === null) return Promise.resolve();
+    return fetchPage(null)
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [eventId, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    await fetchPage(nextCursor).catch(() => {});
+    setLoadingMore(false);
+  }, [nextCursor, fetchPage]);
+
+  useEffect(() => {
+    const id = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(id);
+  }, [search]);
+
+  useEffect(() => {
+    setEventId(new URLSearchParams(window.location.search).get("event") ?? "");
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setUser(data.user);
+      })
+      .catch(() => {});
+    fetch("/api/events")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setEvents(data.events);
+      })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    loadLeads();
+  }, [loadLeads]);
+
+  const chooseEvent = useCallback((value: string) => {
+    setEventId(value);
+    setLoading(true);
+    const url = new URL(window.location.href);
+    if (value) url.searchParams.set("event", value);
+    else url.searchParams.delete("event");
+    window.history.replaceState(null, "", url);
+  }, []);
+
+  const eventQuery = eventId ? `&event=${eventId}` : "";
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    window.location.assign("/login");
+  }, []);
+
+  const handleFile = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    setImporting(true);
+    try {
+      const data = await postImport(file, false, eventId ?? "");
+      if (data.success) setPreview({ file, rows: data.rows, summary: data.summary });
+      else setImportError(data.error);
+    } catch {
+      setImportError("Could not read the file");
+    }
+    setImporting(false);
+  }, [eventId]);
+
+  const handleCommit = useCallback(async () => {
+    if (!preview) return;
+    setImporting(true);
+    try {
+      const data = await postImport(preview.file, true, eventId ?? "");
+      if (data.success) {
+        setPreview(null);
+        await loadLeads();
+      } else {
+        setImportError(data.error);
+      }
+    } catch {
+      setImportError("Import failed");
+    }
+    setImporting(false);
+  }, [preview, loadLeads, eventId]);
+
+  return (
+    <div className="leads-page">
+      {/* ── Header ── */}
+      <header className="leads-header">
+        <a href="/capture" className="leads-back">&#8592;</a>
+        <h1 className="leads-title">Leads</h1>
+        <span className="leads-count">{total}</span>
+        <a href="/events" className="btn btn-secondary leads-header-link">
+          Events
+        </a>
+        <a href="/leads/duplicates" className="btn btn-secondary leads-header-link">
+          Duplicates
+        </a>
+        {user?.role === "admin" && (
+          <a href="/users" className="btn btn-secondary leads-header-link">
+            Users
+          </a>
+        )}
+        <button
+          className="btn btn-secondary leads-header-link"
+          title={user ? `Signed in as ${user.email}` : undefined}
+          onClick={signOut}
+        >
+          Sign out
+        </button>
+      </header>
+
+      {events.length > 0 && (
+        <label className="leads-event-filter">
+          <span>Event</span>
+          <select value={eventId ?? ""} onChange={(e) => chooseEvent(e.target.value)}>
+            <option value="">All events</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="leads-search">
+        <input
+          type="search"
+          placeholder="Search name, email or company"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          aria-label="Search leads"
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as "" | LeadSort)}
+          aria-label="Sort leads"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* ── Export / import ── */}
+      <div className="leads-toolbar">
+        <a className="btn btn-secondary" href={`/api/leads/export?format=csv${eventQuery}`}>
+          &#8615; CSV
+        </a>
+        <a className="btn btn-secondary" href={`/api/leads/export?format=vcf${eventQuery}`}>
+          &#8615; vCard
+        </a>
+        <label className={`btn btn-secondary${importing ? " btn-disabled" : ""}`}>
+          &#8613; Import
+          <input
+            type="file"
+            accept=".vcf,.vcard,.csv,text/vcard,text/csv"
+            hidden
+            disabled={importing}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {importError && <p className="lead-error">{importError}</p>}
+      {listError && <p className="lead-error">{listError}</p>}
+
+      {preview && (
+        <section className="import-preview">
+          <h2>
+            {preview.file.name} &middot; {preview.summary.valid} of {preview.summary.total} rows valid
+          </h2>
+          <ul>
+            {preview.rows.map((row) => (
+              <li key={row.row} className={row.valid ? "" : "import-row--invalid"}>
+                <span className="import-row-num">{row.row}</span>
+                <span className="import-row-body">
+                  {[row.lead.name, row.lead.company, row.lead.email, row.lead.phone]
+                    .filter(Boolean)
+                    .join(" · ") || "—"}
+                  {row.error && <em> — {row.error}</em>}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="lead-actions">
+            <button
+              className={`btn btn-primary${importing || preview.summary.valid === 0 ? " btn-disabled" : ""}`}
+              disabled={importing || preview.summary.valid === 0}
+              onClick={handleCommit}
+            >
+              Import {preview.summary.valid} leads
+            </button>
+            <button className="btn btn-secondary" onClick={() => setPreview(null)}>
+              Cancel
+            </button>
+          </div>
+        </section>
+      )}
+
+      {/* ── Content ── */}
+      <main className="leads-main">
+        {loading ? (
+          <div className="leads-empty">
+            <span className="spinner" />
+            <p>Loading leads…</p>
+          </div>
+        ) : leads.length === 0 && query ? (
+          <div className="leads-empty">
+            <p>No leads match &ldquo;{query}&rdquo;</p>
+          </div>
+        ) : leads.length === 0 ? (
+          <div className="leads-empty">
+            <span className="leads-empty-icon">&#128100;</span>
+            <p>No leads yet</p>
+            <a href="/capture" className="btn btn-primary">
+              Capture a card
+            </a>
+          </div>
+        ) : (
+          <ul className="leads-list">
+            {leads.map((lead) => {
+              const review = lowConfidenceCount(lead);
+              return (
+                <li key={lead.id}>
+                  <a href={`/leads/${lead.id}`} className="lead-row">
+                    {lead.image_url ? (
+                      <img src={lead.image_url} alt="" className="lead-row-thumb" loading="lazy" />
+                    ) : (
+                      <span className="lead-row-thumb lead-row-thumb--empty">&#128100;</span>
+                    )}
+                    <span className="lead-row-body">
+                      <span className="lead-row-name">{lead.name || lead.email || "Unnamed lead"}</span>
+                      <span className="lead-row-meta">
+                        {[lead.job_title, lead.company].filter(Boolean).join(" · ") || lead.phone}
+                      </span>
+                    </span>
+                    <span className="lead-row-badges">
+                      {lead.status === "draft" && <span className="badge badge-draft">Draft</span>}
+                      {review > 0 && <span className="badge badge-warn">{review} to check</span>}
+                    </span>
+                  </a>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {nextCursor && (
+          <button
+            className={`btn btn-secondary leads-more${loadingMore ? " btn-disabled" : ""}`}
+            disabled={loadingMore}
+            onClick={loadMore}
+          >
+            {loadingMore ? <span className="spinner spinner--small" /> : `Show more (${total - leads.length} left)`}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import "./login.css";
+
+/** Only follow same-site paths after sign-in, never another origin */
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/capture";
+}
+
+export default function LoginPage() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      window.location.assign(nextPath());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <form className="login-form" onSubmit={submit}>
+        <h1 className="login-title">
+          <span>&#9878;</span> CaptureCAM
+        </h1>
+        <label className="login-field">
+          Email
+          <input
+            type="email"
+            autoComplete="username"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </label>
+        <label className="login-field">
+          Password
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </label>
+        {error && <p className="login-error">{error}</p>}
+        <button
+          type="submit"
+          className={`btn btn-primary${submitting ? " btn-disabled" : ""}`}
+          disabled={submitting}
+        >
+          {submitting ? <span className="spinner spinner--small" /> : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ROLES, type Role, type User } from "@/lib/auth/roles";
+import "./users.css";
+
+interface NewUserForm {
+  email: string;
+  name: string;
+  password: string;
+  role: Role;
+}
+
+const EMPTY_FORM: NewUserForm = { email: "", name: "", password: "", role: "rep" };
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<NewUserForm>(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/users")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error);
+        setUsers(data.users);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load users"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = useCallback(async (id: number, changes: Record<string, unknown>) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/users/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setUsers((prev) => prev.map((u) => (u.id === id ? data.user : u)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    }
+  }, []);
+
+  const resetPassword = (user: User) => {
+    const password = window.prompt(`New password for ${user.name}:`);
+    if (password) update(user.id, { password });
+  };
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setUsers((prev) => [...prev, data.user]);
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create user");
+    }
+    setCreating(false);
+  };
+
+  return (
+    <div className="users-page">
+      <header className="users-header">
+        <a href="/leads" className="users-back">&#8592;</a>
+        <h1 className="users-title">Users</h1>
+        <span className="users-count">{users.length}</span>
+      </header>
+
+      {error && <p className="users-error">{error}</p>}
+
+      {loading ? (
+        <div className="users-empty">
+          <span className="spinner" />
+        </div>
+      ) : (
+        <ul className="users-list">
+          {users.map((user) => (
+            <li key={user.id} className={`user-row${user.disabled ? " user-row--disabled" : ""}`}>
+              <div className="user-row-body">
+                <span className="user-row-name">{user.name}</span>
+                <span className="user-row-email">{user.email}</span>
+              </div>
+              <div className="user-row-controls">
+                <select
+                  value={user.role}
+                  onChange={(e) => update(user.id, { role: e.target.value })}
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+                {user.role === "rep" && (
+                  <label title="See every rep's leads and captures">
+                    <input
+                      type="checkbox"
+                      checked={user.teamVisibility}
+                      onChange={(e) => update(user.id, { teamVisibility: e.target.checked })}
+                    />
+                    Team
+                  </label>
+                )}
+                <button className="user-row-action" onClick={() => resetPassword(user)}>
+                  Reset password
+                </button>
+                <button
+                  className="user-row-action"
+                  onClick={() => update(user.id, { disabled: !user.disabled })}
+                >
+                  {user.disabled ? "Enable" : "Disable"}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* ── New user ── */}
+      <form className="users-form" onSubmit={create}>
+        <h2>Add user</h2>
+        <input
+          placeholder="Name"
+          required
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <input
+          type="email"
+          placeholder="Email"
+          required
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          autoComplete="new-password"
+          required
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+        />
+        <select value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value as Role })}>
+          {ROLES.map((role) => (
+            <option key={role} value={role}>
+              {role}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className={`btn btn-primary${creating ? " btn-disabled" : ""}`}
+          disabled={creating}
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/** Runs once when the server starts, before it handles any request */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { assertMigrated } = await import("./lib/db");
+  try {
+    await assertMigrated();
+  } catch (error) {
+    console.error("[startup] Refusing to serve:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const { startWebhookDispatcher } = await import("./lib/webhooks/outbox");
+  startWebhookDispatcher();
+}
@@ -0,0 +1,82 @@
+/** Region tags an annotator can put on a card image, in shortcut order (1-7) */
+export const ANNOTATION_LABELS = [
+  "name",
+  "title",
+  "email",
+  "phone",
+  "company",
+  "address",
+  "logo",
+] as const;
+
+export type AnnotationLabel = (typeof ANNOTATION_LABELS)[number];
+
+/** A labelled box in stored-image pixels (origin top-left) */
+export interface AnnotationBox {
+  label: AnnotationLabel;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Annotation extends AnnotationBox {
+  id: number;
+}
+
+/** Size the capture page flattens cards to; assumed when a capture has no recorded dimensions */
+export const CARD_WIDTH = 1024;
+export const CARD_HEIGHT = 585;
+
+/** Boxes smaller than this (px) on either side are treated as misclicks */
+export const MIN_BOX_SIZE = 4;
+
+export type AnnotationValidation =
+  | { ok: true; boxes: AnnotationBox[] }
+  | { ok: false; error: string };
+
+/**
+ * Validate a PUT body's `annotations` against the image size. Boxes are
+ * clamped to the image and rounded to 0.1 px.
+ */
+export function validateAnnotations(
+  value: unknown,
+  imageWidth: number,
+  imageHeight: number
+): AnnotationValidation {
+  if (!Array.isArray(value)) {
+    return { ok: false, error: "annotations must be an array." };
+  }
+
+  const boxes: AnnotationBox[] = [];
+  for (const [i, raw] of value.entries()) {
+    const box = raw as Partial<Record<keyof AnnotationBox, unknown>>;
+    if (!box || !ANNOTATION_LABELS.includes(box.label as AnnotationLabel)) {
+      return {
+        ok: false,
+        error: `annotations[${i}].label must be one of ${ANNOTATION_LABELS.join(", ")}.`,
+      };
+    }
+    const [x, y, width, height] = [box.x, box.y, box.width, box.height];
+    if (![x, y, width, height].every((n) => typeof n === "number" && Number.isFinite(n))) {
+      return { ok: false, error: `annotations[${i}] needs numeric x, y, width, height.` };
+    }
+
+    const round = (n: number) => Math.round(n * 10) / 10;
+    const x0 = Math.max(0, x as number);
+    const y0 = Math.max(0, y as number);
+    const x1 = Math.min(imageWidth, (x as number) + (width as number));
+    const y1 = Math.min(imageHeight, (y as number) + (height as number));
+    if (x1 - x0 < MIN_BOX_SIZE || y1 - y0 < MIN_BOX_SIZE) {
+      return { ok: false, error: `annotations[${i}] is too small or outside the image.` };
+    }
+    boxes.push({
+      label: box.label as AnnotationLabel,
+      x: round(x0),
+      y: round(y0),
+      width: round(x1 - x0),
+      height: round(y1 - y0),
+    });
+  }
+  return { ok: true, boxes };
+}
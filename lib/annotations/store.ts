@@ -0,0 +1,49 @@
+import { RowDataPacket } from "mysql2";
+import pool from "@/lib/db";
+import type { Annotation, AnnotationBox } from "./index";
+
+export function rowToAnnotation(row: RowDataPacket): Annotation {
+  return {
+    id: row.id,
+    label: row.label,
+    x: row.x,
+    y: row.y,
+    width: row.width,
+    height: row.height,
+  };
+}
+
+/** A capture's boxes, in the order they were drawn */
+export async function loadAnnotations(captureId: number): Promise<Annotation[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT * FROM annotations WHERE capture_id = ? ORDER BY id",
+    [captureId]
+  );
+  return rows.map(rowToAnnotation);
+}
+
+/**
+ * Replace every box on a capture and mark it annotated — an empty list
+ * still counts, meaning "looked at, nothing to label".
+ */
+export async function saveAnnotations(captureId: number, boxes: AnnotationBox[]): Promise<Annotation[]> {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await connection.execute("DELETE FROM annotations WHERE capture_id = ?", [captureId]);
+    for (const box of boxes) {
+      await connection.execute(
+        "INSERT INTO annotations (capture_id, label, x, y, width, height) VALUES (?, ?, ?, ?, ?, ?)",
+        [captureId, box.label, box.x, box.y, box.width, box.height]
+      );
+    }
+    await connection.execute("UPDATE captures SET annotated_at = NOW() WHERE id = ?", [captureId]);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback().catch(() => {});
+    throw error;
+  } finally {
+    connection.release();
+  }
+  return loadAnnotations(captureId);
+}
@@ -0,0 +1,17 @@
+/**
+ * Session cookie settings. Kept apart from the session store so proxy.ts
+ * can check for the cookie without pulling in the database.
+ */
+
+export const SESSION_COOKIE = "capturecam_session";
+
+/** Sessions last 30 days from sign-in */
+export const SESSION_TTL_S = 30 * 24 * 60 * 60;
+
+export const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: SESSION_TTL_S,
+} as const;
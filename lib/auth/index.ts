@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "./cookie";
+import { userForSession } from "./session";
+import { hasRole, type Role, type User } from "./roles";
+
+export { hasRole, ROLES, type Role, type User } from "./roles";
+
+export type AuthResult =
+  | { ok: true; user: User }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Resolve the request's session and check the user's role. Route
+ * handlers call this first and return `response` as-is when `ok` is
+ * false (401 signed out, 403 role too low). proxy.ts only checks that a
+ * cookie is present; this is the real check.
+ */
+export async function authenticate(request: NextRequest, minimum: Role = "viewer"): Promise<AuthResult> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const user = token ? await userForSession(token) : null;
+  if (!user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ success: false, error: "Sign in required." }, { status: 401 }),
+    };
+  }
+  if (!hasRole(user, minimum)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, error: "You don't have permission to do that." },
+        { status: 403 }
+      ),
+    };
+  }
+  return { ok: true, user };
+}
+
+/** Whether the user sees everyone's leads and captures */
+export function seesAll(user: User): boolean {
+  return user.role !== "rep" || user.teamVisibility;
+}
+
+/** SQL condition limiting rows to those `user` may see, and its parameters */
+export interface OwnerScope {
+  where: string;
+  params: number[];
+}
+
+/**
+ * Restrict a query to rows the user may see: reps without team
+ * visibility get only rows they created. `column` is the creator column,
+ * qualified if the query uses an alias (e.g. "c.created_by").
+ */
+export function ownerScope(user: User, column = "created_by"): OwnerScope {
+  return seesAll(user) ? { where: "1 = 1", params: [] } : { where: `${column} = ?`, params: [user.id] };
+}
@@ -0,0 +1,26 @@
+/** Roles and the user shape, safe to import from client components */
+
+/** In increasing order of what they can do */
+export const ROLES = ["viewer", "rep", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface User {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  /** Reps only: see every rep's leads and captures, not just their own */
+  teamVisibility: boolean;
+  disabled: boolean;
+  createdAt: string;
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/** Whether `user`'s role is at least `minimum` */
+export function hasRole(user: Pick<User, "role">, minimum: Role): boolean {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(minimum);
+}
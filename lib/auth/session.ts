@@ -0,0 +1,43 @@
+import { createHash, randomBytes } from "crypto";
+import { RowDataPacket } from "mysql2";
+import pool from "@/lib/db";
+import { SESSION_TTL_S } from "./cookie";
+import type { User } from "./roles";
+import { rowToUser } from "./users";
+
+/** Only the hash is stored, so a leaked sessions table can't be replayed */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Start a session; returns the token to put in the cookie */
+export async function createSession(userId: number): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await pool.execute(
+    "INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)",
+    [hashToken(token), userId, new Date(Date.now() + SESSION_TTL_S * 1000)]
+  );
+  // Expired sessions are swept on sign-in rather than by a separate job
+  await pool.execute("DELETE FROM sessions WHERE expires_at < NOW()");
+  return token;
+}
+
+/** The signed-in user for a cookie token, or `null` if expired, unknown or disabled */
+export async function userForSession(token: string): Promise<User | null> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT u.* FROM sessions s
+     JOIN users u ON u.id = s.user_id
+     WHERE s.token_hash = ? AND s.expires_at > NOW() AND u.disabled = FALSE`,
+    [hashToken(token)]
+  );
+  return rows[0] ? rowToUser(rows[0]) : null;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await pool.execute("DELETE FROM sessions WHERE token_hash = ?", [hashToken(token)]);
+}
+
+/** Sign a user out everywhere, e.g. after a password reset or disabling them */
+export async function deleteUserSessions(userId: number): Promise<void> {
+  await pool.execute("DELETE FROM sessions WHERE user_id = ?", [userId]);
+}
@@ -0,0 +1,99 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import pool from "@/lib/db";
+import { hashPassword } from "./password";
+import type { Role, User } from "./roles";
+
+export interface NewUser {
+  email: string;
+  name: string;
+  password: string;
+  role: Role;
+  teamVisibility?: boolean;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function rowToUser(row: RowDataPacket): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    teamVisibility: Boolean(row.team_visibility),
+    disabled: Boolean(row.disabled),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+export async function getUser(id: number): Promise<User | null> {
+  const [rows] = await pool.query<RowDataPacket[]>("SELECT * FROM users WHERE id = ?", [id]);
+  return rows[0] ? rowToUser(rows[0]) : null;
+}
+
+/** The user and their password hash, for sign-in */
+export async function findUserForLogin(
+  email: string
+): Promise<{ user: User; passwordHash: string } | null> {
+  const [rows] = await pool.query<RowDataPacket[]>("SELECT * FROM users WHERE email = ?", [
+    normalizeEmail(email),
+  ]);
+  return rows[0] ? { user: rowToUser(rows[0]), passwordHash: rows[0].password_hash } : null;
+}
+
+export async function listUsers(): Promise<User[]> {
+  const [rows] = await pool.query<RowDataPacket[]>("SELECT * FROM users ORDER BY name, id");
+  return rows.map(rowToUser);
+}
+
+/** Insert a user; returns the new id. Throws ER_DUP_ENTRY for a taken email. */
+export async function createUser(user: NewUser): Promise<number> {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `INSERT INTO users (email, name, password_hash, role, team_visibility)
+     VALUES (?, ?, ?, ?, ?)`,
+    [
+      normalizeEmail(user.email),
+      user.name.trim(),
+      await hashPassword(user.password),
+      user.role,
+      user.teamVisibility ?? false,
+    ]
+  );
+  return result.insertId;
+}
+
+export interface UserUpdate {
+  name?: string;
+  role?: Role;
+  teamVisibility?: boolean;
+  disabled?: boolean;
+  password?: string;
+}
+
+export async function updateUser(id: number, update: UserUpdate): Promise<void> {
+  const assignments: string[] = [];
+  const values: (string | number | boolean)[] = [];
+  if (update.name !== undefined) {
+    assignments.push("name = ?");
+    values.push(update.name.trim());
+  }
+  if (update.role !== undefined) {
+    assignments.push("role = ?");
+    values.push(update.role);
+  }
+  if (update.teamVisibility !== undefined) {
+    assignments.push("team_visibility = ?");
+    values.push(update.teamVisibility);
+  }
+  if (update.disabled !== undefined) {
+    assignments.push("disabled = ?");
+    values.push(update.disabled);
+  }
+  if (update.password !== undefined) {
+    assignments.push("password_hash = ?");
+    values.push(await hashPassword(update.password));
+  }
+  if (assignments.length === 0) return;
+  await pool.execute(`UPDATE users SET ${assignments.join(", ")} WHERE id = ?`, [...values, id]);
+}
@@ -0,0 +1,67 @@
+import { MIN_PASSWORD_LENGTH } from "./password";
+import { isRole } from "./roles";
+import type { NewUser, UserUpdate } from "./users";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type UserValidation<T> =
+  | { ok: true; user: T }
+  | { ok: false; error: string };
+
+/**
+ * Validate a user update: `name`, `role`, `teamVisibility`, `disabled`
+ * and `password` are each optional.
+ */
+export function validateUserUpdate(body: unknown): UserValidation<UserUpdate> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, error: "Expected a JSON object." };
+  }
+  const source = body as Record<string, unknown>;
+  const user: UserUpdate = {};
+
+  if (source.name !== undefined) {
+    if (typeof source.name !== "string" || !source.name.trim()) {
+      return { ok: false, error: "name must be a non-empty string." };
+    }
+    user.name = source.name.trim();
+  }
+  if (source.role !== undefined) {
+    if (!isRole(source.role)) {
+      return { ok: false, error: "role must be 'admin', 'rep' or 'viewer'." };
+    }
+    user.role = source.role;
+  }
+  for (const key of ["teamVisibility", "disabled"] as const) {
+    if (source[key] === undefined) continue;
+    if (typeof source[key] !== "boolean") {
+      return { ok: false, error: `${key} must be true or false.` };
+    }
+    user[key] = source[key];
+  }
+  if (source.password !== undefined) {
+    if (typeof source.password !== "string" || source.password.length < MIN_PASSWORD_LENGTH) {
+      return {
+        ok: false,
+        error: `password must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+      };
+    }
+    user.password = source.password;
+  }
+  return { ok: true, user };
+}
+
+/** Validate a new user: `email`, `name`, `password` and `role` are required */
+export function validateNewUser(body: unknown): UserValidation<NewUser> {
+  const update = validateUserUpdate(body);
+  if (!update.ok) return update;
+
+  const { name, role, password, teamVisibility } = update.user;
+  const email = (body as Record<string, unknown>).email;
+  if (typeof email !== "string" || !EMAIL_RE.test(email.trim())) {
+    return { ok: false, error: "email must be a valid email address." };
+  }
+  if (!name || !role || !password) {
+    return { ok: false, error: "name, role and password are required." };
+  }
+  return { ok: true, user: { email: email.trim(), name, role, password, teamVisibility } };
+}
@@ -0,0 +1,124 @@
+/**
+ * Hands-free capture: judges live frames one by one and says when a card
+ * is sitting still, in focus, inside the capture cutout. Pure functions —
+ * the capture page does the sampling, timing and the shutter.
+ */
+
+import { polygonArea, type Point, type Quad } from "@/lib/card-detect";
+import {
+  exposureProblem,
+  MIN_BRIGHTNESS,
+  MIN_CARD_COVERAGE,
+  MIN_LAPLACIAN_VARIANCE,
+  type Exposure,
+  type QualityProblem,
+} from "@/lib/image/quality";
+
+/** How often (ms) frames are analysed while auto mode is on */
+export const AUTO_POLL_MS = 150;
+/** Consecutive steady frames needed before the countdown starts */
+export const STEADY_FRAMES = 4;
+/** Countdown (ms) shown before the shutter fires; any movement cancels it */
+export const COUNTDOWN_MS = 1200;
+/** Pause (ms) after a shot, and on returning to the camera, so one card isn't taken twice */
+export const COOLDOWN_MS = 3000;
+
+/** Largest corner movement between frames, as a share of frame width, that still counts as steady */
+const STEADY_TOLERANCE = 0.015;
+
+// Cutout geometry — must match .camera-viewport and .overlay-cutout in app/capture/capture.css
+const VIEWPORT_ASPECT = 3 / 4;
+const CUTOUT_WIDTH = 0.88;
+const CARD_ASPECT = 1.75;
+/** Slack around the cutout, as a share of its width */
+const CUTOUT_SLACK = 0.06;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Why a frame is (or isn't) ready for an automatic shot */
+export type FrameVerdict = QualityProblem | "no-card" | "outside" | "moving" | "steady";
+
+/** One analysed frame from the live feed */
+export interface LiveFrame {
+  brightness: number;
+  /** Card corners in video pixels, `null` when no card was found */
+  quad: Quad | null;
+  /** Laplacian variance of the card region; `null` when no card was found */
+  sharpness: number | null;
+  /** Highlights and contrast of the card region; `null` when no card was found */
+  exposure: Exposure | null;
+  videoWidth: number;
+  videoHeight: number;
+}
+
+/**
+ * The on-screen cutout in video pixels. The feed fills the 3:4 viewport
+ * with `object-fit: cover`, so the visible area is a centred slice of it.
+ */
+export function cutoutRect(videoWidth: number, videoHeight: number): Rect {
+  // Viewport width taken as 1; pixels of video per unit of viewport
+  const scale = Math.max(1 / videoWidth, 1 / VIEWPORT_ASPECT / videoHeight);
+  const width = CUTOUT_WIDTH / scale;
+  const height = width / CARD_ASPECT;
+  return { x: (videoWidth - width) / 2, y: (videoHeight - height) / 2, width, height };
+}
+
+/** Whether every corner of the card sits inside the cutout */
+export function quadInCutout(quad: Quad, videoWidth: number, videoHeight: number): boolean {
+  const rect = cutoutRect(videoWidth, videoHeight);
+  const slack = rect.width * CUTOUT_SLACK;
+  return quad.every(
+    (p) =>
+      p.x >= rect.x - slack &&
+      p.x <= rect.x + rect.width + slack &&
+      p.y >= rect.y - slack &&
+      p.y <= rect.y + rect.height + slack
+  );
+}
+
+/** Card area as a share of the cutout's — 1 when it fills it exactly */
+export function cutoutCoverage(points: Point[], videoWidth: number, videoHeight: number): number {
+  const rect = cutoutRect(videoWidth, videoHeight);
+  return polygonArea(points) / (rect.width * rect.height);
+}
+
+/**
+ * The quality check a live frame fails, for the status pill — light,
+ * glare and contrast of the card, then how much of the cutout it fills.
+ * Sharpness is left to the shot itself.
+ */
+export function liveProblem(frame: LiveFrame): QualityProblem | null {
+  if (frame.brightness < MIN_BRIGHTNESS) return "dark";
+  if (!frame.quad) return null;
+  const exposure = frame.exposure && exposureProblem(frame.exposure);
+  if (exposure) return exposure;
+  if (cutoutCoverage(frame.quad, frame.videoWidth, frame.videoHeight) < MIN_CARD_COVERAGE) {
+    return "too-far";
+  }
+  return null;
+}
+
+/** Largest distance any corner moved between two detections */
+export function quadMovement(a: Quad, b: Quad): number {
+  return Math.max(...a.map((p, i) => Math.hypot(p.x - b[i].x, p.y - b[i].y)));
+}
+
+/** Judge a frame against the one before it */
+export function judgeFrame(frame: LiveFrame, previous: Quad | null): FrameVerdict {
+  if (frame.brightness < MIN_BRIGHTNESS) return "dark";
+  if (!frame.quad) return "no-card";
+  if (!quadInCutout(frame.quad, frame.videoWidth, frame.videoHeight)) return "outside";
+  const problem = liveProblem(frame);
+  if (problem) return problem;
+  // Check movement first: a moving card also reads as blurry
+  if (!previous || quadMovement(frame.quad, previous) > frame.videoWidth * STEADY_TOLERANCE) {
+    return "moving";
+  }
+  if (frame.sharpness === null || frame.sharpness < MIN_LAPLACIAN_VARIANCE) return "blurry";
+  return "steady";
+}
@@ -0,0 +1,45 @@
+import type { Readable } from "stream";
+import { ZipArchive } from "archiver";
+import type { Capture } from "@/lib/captures";
+import { appendEntry } from "@/lib/dataset/archive";
+import { getStorage } from "@/lib/storage";
+
+/** Name of a card back's entry: the front's key with `-back` before the extension */
+function backEntryName(frontKey: string, backKey: string): string {
+  const dot = backKey.lastIndexOf(".");
+  const ext = dot === -1 ? "" : backKey.slice(dot);
+  const base = frontKey.includes(".") ? frontKey.slice(0, frontKey.lastIndexOf(".")) : frontKey;
+  return `${base}-back${ext}`;
+}
+
+/**
+ * Stream a zip of the captures' images, each under its storage key, with
+ * a two-sided card's back beside its front as `<key>-back.<ext>`. Images
+ * are read one at a time; any missing from storage are skipped.
+ */
+export function createCaptureArchive(captures: Capture[]): Readable {
+  const zip = new ZipArchive({ zlib: { level: 6 } });
+  const storage = getStorage();
+
+  (async () => {
+    for (const capture of captures) {
+      const sides = [{ key: capture.key, name: capture.key }];
+      if (capture.back) {
+        sides.push({ key: capture.back.key, name: backEntryName(capture.key, capture.back.key) });
+      }
+      for (const side of sides) {
+        const object = await storage.get(side.key);
+        if (!object) continue;
+        // Images are already compressed; deflating them again only costs CPU
+        await appendEntry(zip, object.data, {
+          name: side.name,
+          date: new Date(capture.createdAt),
+          store: true,
+        });
+      }
+    }
+    await zip.finalize();
+  })().catch((err) => zip.destroy(err));
+
+  return zip;
+}
@@ -0,0 +1,164 @@
+/**
+ * Near-duplicate captures: double-tapped shutters and re-shot cards,
+ * found by comparing perceptual hashes (lib/image/phash).
+ */
+import { RowDataPacket } from "mysql2";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+import { dHash, hammingDistance } from "@/lib/image/phash";
+import { getStorage, imageUrlForKey } from "@/lib/storage";
+
+/** Hashes at most this many bits apart count as the same image */
+export const DUPLICATE_MAX_DISTANCE = 10;
+/** How far back an upload is compared against earlier captures */
+const RECENT_WINDOW_DAYS = 7;
+/** Captures hashed per scan, so one request never reads the whole store */
+export const HASH_BATCH_SIZE = 200;
+
+export interface DuplicateMatch {
+  id: number;
+  /** Canonical image URL — sign it before sending to a browser */
+  url: string;
+  /** Bits from the hash it was compared with — the nearest one, in a cluster */
+  distance: number;
+  createdAt: string;
+}
+
+export interface DuplicateCluster {
+  /** Oldest first — usually the one to keep */
+  captures: DuplicateMatch[];
+}
+
+/** Hex hash → the unsigned integer MySQL's BIT_COUNT can XOR */
+const HASH_AS_INT = "CAST(CONV(phash, 16, 10) AS UNSIGNED)";
+
+/**
+ * The closest capture within `scope` from the last few days whose hash is
+ * within `maxDistance` of `phash`, or `null`. Card backs are left out:
+ * plain backs all look alike.
+ */
+export async function findRecentDuplicate(
+  phash: string,
+  scope: OwnerScope,
+  maxDistance = DUPLICATE_MAX_DISTANCE
+): Promise<DuplicateMatch | null> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, storage_key, created_at,
+       BIT_COUNT(${HASH_AS_INT} ^ CAST(CONV(?, 16, 10) AS UNSIGNED)) AS distance
+     FROM captures
+     WHERE phash IS NOT NULL
+       AND front_id IS NULL
+       AND deleted_at IS NULL
+       AND created_at >= NOW() - INTERVAL ${RECENT_WINDOW_DAYS} DAY
+       AND ${scope.where}
+     HAVING distance <= ?
+     ORDER BY distance, created_at DESC
+     LIMIT 1`,
+    [phash, ...scope.params, maxDistance]
+  );
+  const row = rows[0];
+  return row
+    ? {
+        id: row.id,
+        url: imageUrlForKey(row.storage_key),
+        distance: Number(row.distance),
+        createdAt: new Date(row.created_at).toISOString(),
+      }
+    : null;
+}
+
+/** Progress of the hashing backfill */
+export interface HashBackfill {
+  /** Captures still waiting to be hashed */
+  remaining: number;
+  /** Captures whose image was missing or unreadable; never retried */
+  failed: number;
+}
+
+/**
+ * Hash up to `limit` captures that predate hashing, reading each image
+ * from storage. One that can't be read or decoded is stamped
+ * `phash_failed_at` and skipped from then on, so a run always gets past it.
+ */
+export async function hashMissingCaptures(limit = HASH_BATCH_SIZE): Promise<HashBackfill> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, storage_key FROM captures
+     WHERE phash IS NULL AND phash_failed_at IS NULL
+     ORDER BY id LIMIT ${limit}`
+  );
+  const storage = getStorage();
+  for (const row of rows) {
+    try {
+      const object = await storage.get(row.storage_key);
+      if (!object) throw new Error("not in storage");
+      await pool.execute("UPDATE captures SET phash = ? WHERE id = ?", [
+        await dHash(object.data),
+        row.id,
+      ]);
+    } catch (error) {
+      console.error("[capture duplicates] Could not hash", row.storage_key, error);
+      await pool.execute("UPDATE captures SET phash_failed_at = NOW() WHERE id = ?", [row.id]);
+    }
+  }
+
+  const [[counts]] = await pool.query<RowDataPacket[]>(
+    `SELECT COUNT(phash_failed_at) AS failed, COUNT(*) - COUNT(phash_failed_at) AS remaining
+     FROM captures WHERE phash IS NULL`
+  );
+  return { remaining: Number(counts.remaining), failed: Number(counts.failed) };
+}
+
+/**
+ * Group the hashed captures within `scope` into clusters of near-duplicates:
+ * any two within `maxDistance` bits, taken less than RECENT_WINDOW_DAYS
+ * apart, end up in the same cluster. Single captures are left out.
+ *
+ * Like findRecentDuplicate, only captures close in time are compared —
+ * re-shots happen minutes apart — so the work grows with the busiest
+ * week rather than with the square of the whole gallery.
+ */
+export async function clusterDuplicates(
+  scope: OwnerScope,
+  maxDistance = DUPLICATE_MAX_DISTANCE
+): Promise<DuplicateCluster[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, storage_key, phash, created_at FROM captures
+     WHERE phash IS NOT NULL AND front_id IS NULL AND deleted_at IS NULL AND ${scope.where}
+     ORDER BY created_at, id`,
+    scope.params
+  );
+
+  // Union-find over every pair within range; rows are in time order, so
+  // each is compared only with those after it inside the window
+  const times = rows.map((row) => new Date(row.created_at).getTime());
+  const windowMs = RECENT_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const parent = rows.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const closest = new Array<number>(rows.length).fill(Infinity);
+  for (let i = 0; i < rows.length; i++) {
+    for (let j = i + 1; j < rows.length && times[j] - times[i] < windowMs; j++) {
+      const distance = hammingDistance(rows[i].phash, rows[j].phash);
+      if (distance > maxDistance) continue;
+      parent[find(j)] = find(i);
+      closest[i] = Math.min(closest[i], distance);
+      closest[j] = Math.min(closest[j], distance);
+    }
+  }
+
+  const groups = new Map<number, DuplicateMatch[]>();
+  rows.forEach((row, i) => {
+    if (closest[i] === Infinity) return;
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push({
+      id: row.id,
+      url: imageUrlForKey(row.storage_key),
+      distance: closest[i],
+      createdAt: new Date(row.created_at).toISOString(),
+    });
+  });
+  return [...groups.values()].map((captures) => ({ captures }));
+}
@@ -0,0 +1,198 @@
+import { v4 as uuidv4 } from "uuid";
+import { ownerScope, type User } from "@/lib/auth";
+import { findRecentDuplicate, type DuplicateMatch } from "@/lib/capture-duplicates";
+import { generateCaptureVariants, insertCapture } from "@/lib/captures";
+import { extractCards, type ExtractedCard } from "@/lib/image/cards";
+import { extractPdfImages, isPdf } from "@/lib/image/pdf";
+import { dHash } from "@/lib/image/phash";
+import { assessQuality, qualityIssue } from "@/lib/image/quality";
+import { sanitizeImage } from "@/lib/image/sanitize";
+import { IMAGE_EXTENSIONS } from "@/lib/image/sniff";
+import { createOcrJob } from "@/lib/ocr/jobs";
+import { getStorage, imageUrlForKey } from "@/lib/storage";
+import { queueCaptureUploaded } from "@/lib/webhooks/events";
+
+/** One card cut from an imported file */
+export interface ImportedCard {
+  /** PDF image it came from (1-based); `null` for image files */
+  page: number | null;
+  /** Whether a card outline was found, or the whole image was cropped */
+  detected: boolean;
+  status: "stored" | "rejected";
+  captureId: number | null;
+  /** Canonical image URL — sign it before sending to a browser */
+  url: string | null;
+  jobId: string | null;
+  duplicateOf: DuplicateMatch | null;
+  /** Why the card was rejected */
+  error: string | null;
+}
+
+export interface ImportFileResult {
+  name: string;
+  /** Set when nothing could be read from the file at all */
+  error: string | null;
+  /** Cards in reading order, page by page */
+  cards: ImportedCard[];
+}
+
+export interface ImportOrigin {
+  user: User;
+  eventId: number | null;
+}
+
+function rejected(page: number | null, detected: boolean, error: string): ImportedCard {
+  return {
+    page,
+    detected,
+    status: "rejected",
+    captureId: null,
+    url: null,
+    jobId: null,
+    duplicateOf: null,
+    error,
+  };
+}
+
+/** Check one card cut from a file and, if it passes, store it and queue OCR */
+async function importCard(
+  card: ExtractedCard,
+  page: number | null,
+  name: string,
+  origin: ImportOrigin,
+  queueOcr: (jobId: string, image: Buffer) => void
+): Promise<ImportedCard> {
+  const detected = card.corners !== null;
+  const checked = await sanitizeImage(card.data);
+  if (!checked.ok) return rejected(page, detected, checked.error);
+  const image = checked.image;
+  // No camera cutout for imports, so no coverage
+  const quality = assessQuality(image, null);
+  const issue = qualityIssue(quality);
+  if (issue) return rejected(page, detected, issue);
+
+  const filename = `${uuidv4()}${IMAGE_EXTENSIONS[image.mimeType]}`;
+  const storage = getStorage();
+  await storage.put(filename, image.data, image.mimeType);
+  const url = imageUrlForKey(filename);
+
+  let captureId: number;
+  let duplicate: DuplicateMatch | null;
+  try {
+    const phash = await dHash(image.data);
+    duplicate = await findRecentDuplicate(phash, ownerScope(origin.user));
+    captureId = await insertCapture({
+      key: filename,
+      mimeType: image.mimeType,
+      byteSize: image.data.length,
+      width: image.width,
+      height: image.height,
+      ...quality,
+      phash,
+      duplicateOf: duplicate?.id ?? null,
+      deviceInfo: { source: "import", file: name, page },
+      corners: card.corners,
+      createdBy: origin.user.id,
+      eventId: origin.eventId,
+    });
+  } catch (err) {
+    // Not recorded, so nothing would ever delete the image
+    await storage.delete(filename).catch(() => {});
+    throw err;
+  }
+  await generateCaptureVariants(captureId, filename, image.data);
+
+  let jobId: string | null = null;
+  try {
+    jobId = await createOcrJob(url, { createdBy: origin.user.id, eventId: origin.eventId });
+    queueOcr(jobId, image.data);
+  } catch (err) {
+    // The card is saved either way — OCR can be re-run later
+    console.error("[capture-import] Could not queue OCR:", err);
+  }
+
+  try {
+    await queueCaptureUploaded(captureId);
+  } catch (err) {
+    console.error("[capture-import] Could not queue webhooks:", err);
+  }
+
+  return {
+    page,
+    detected,
+    status: "stored",
+    captureId,
+    url,
+    jobId,
+    duplicateOf: duplicate,
+    error: null,
+  };
+}
+
+/**
+ * Import a photo, scanned sheet or scanned PDF: split it into cards,
+ * flatten each to the capture page's size and apply the same checks as
+ * /api/upload, then store the cards that pass and queue OCR for them.
+ * `queueOcr` is handed each job to run once the response is sent.
+ *
+ * A page or card that fails unexpectedly (storage, database) is reported
+ * as rejected and the rest carry on, so cards already stored are never
+ * lost from the result.
+ */
+export async function importFile(
+  name: string,
+  data: Buffer,
+  origin: ImportOrigin,
+  queueOcr: (jobId: string, image: Buffer) => void
+): Promise<ImportFileResult> {
+  const result: ImportFileResult = { name, error: null, cards: [] };
+
+  let sources: Buffer[] = [data];
+  const pdf = isPdf(data);
+  if (pdf) {
+    const { images, skipped } = await extractPdfImages(data);
+    if (images.length === 0) {
+      result.error = skipped
+        ? `None of this PDF's ${skipped} images are in a format that can be read.`
+        : "No scanned images found in this PDF.";
+      return result;
+    }
+    sources = images;
+  }
+
+  for (const [index, source] of sources.entries()) {
+    const page = pdf ? index + 1 : null;
+    let cards: ExtractedCard[];
+    try {
+      const sanitized = await sanitizeImage(source);
+      if (!sanitized.ok) {
+        if (!pdf) {
+          result.error = sanitized.error;
+          return result;
+        }
+        result.cards.push(rejected(page, false, sanitized.error));
+        continue;
+      }
+      cards = await extractCards(sanitized.image.data);
+    } catch (err) {
+      console.error("[capture-import] Could not split", name, page ?? "", err);
+      if (!pdf) {
+        result.error = "This image could not be read.";
+        return result;
+      }
+      result.cards.push(rejected(page, false, "This page could not be read."));
+      continue;
+    }
+
+    for (const card of cards) {
+      try {
+        result.cards.push(await importCard(card, page, name, origin, queueOcr));
+      } catch (err) {
+        console.error("[capture-import] Could not store a card from", name, err);
+        result.cards.push(rejected(page, card.corners !== null, "This card could not be saved."));
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,162 @@
+/**
+ * Offline-first capture queue (browser only).
+ *
+ * Captures are written to IndexedDB before anything touches the network;
+ * the service worker in public/sw.js drains the queue into /api/upload
+ * with retry/backoff. Each record's id doubles as its Idempotency-Key, so
+ * a retry after a lost response never stores the same capture twice.
+ *
+ * The database and store names here must match public/sw.js.
+ */
+
+const DB_NAME = "capturecam";
+const DB_VERSION = 1;
+const STORE = "captures";
+
+/** Background Sync tag the service worker listens for */
+export const CAPTURE_SYNC_TAG = "capture-upload";
+
+export interface QueuedCapture {
+  /** UUID; sent as the Idempotency-Key header */
+  id: string;
+  image: Blob;
+  /** The card's back, for double-sided captures; sent as `back` */
+  back?: Blob;
+  /** Extra /api/upload form fields: corners, device, eventId, … */
+  fields: Record<string, string>;
+  createdAt: number;
+  attempts: number;
+  /** 409s in a row; set by the worker, which gives up after too many */
+  conflicts?: number;
+  /** Epoch ms before which the worker will not retry */
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+/** Earlier capture an upload looks like, from /api/upload's `duplicateOf` */
+export interface DuplicateOf {
+  id: number;
+  url: string;
+  distance: number;
+  createdAt: string;
+}
+
+/** The parts of a successful /api/upload response the capture page uses */
+export interface UploadResult {
+  url?: string;
+  captureId?: number;
+  jobId?: string | null;
+  duplicateOf?: DuplicateOf | null;
+  /** Combined 0-100 quality score of the front (see lib/image/quality) */
+  qualityScore?: number;
+  back?: { captureId: number; url: string } | null;
+}
+
+/** Messages the service worker posts to open pages */
+export type QueueMessage =
+  | { type: "capture-uploaded"; id: string; result: UploadResult }
+  | { type: "capture-rejected"; id: string; error: string }
+  | { type: "queue-changed"; pending: number };
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openQueue().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const request = fn(tx.objectStore(STORE));
+        tx.oncomplete = () => {
+          db.close();
+          resolve(request.result);
+        };
+        tx.onerror = tx.onabort = () => {
+          db.close();
+          reject(tx.error);
+        };
+      })
+  );
+}
+
+/**
+ * Persist a capture for upload; returns its id / idempotency key. Both
+ * sides of a two-sided card go in one record so they upload together.
+ */
+export async function enqueueCapture(
+  image: Blob,
+  fields: Record<string, string>,
+  back?: Blob | null
+): Promise<string> {
+  const record: QueuedCapture = {
+    id: crypto.randomUUID(),
+    image,
+    ...(back ? { back } : {}),
+    fields,
+    createdAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+  };
+  await run("readwrite", (store) => store.put(record));
+  return record.id;
+}
+
+export function countPending(): Promise<number> {
+  return run("readonly", (store) => store.count());
+}
+
+/** Whether this browser can run the queue's service worker */
+export function queueSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "indexedDB" in window;
+}
+
+export async function registerCaptureWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!queueSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register("/sw.js");
+  } catch (err) {
+    console.error("[capture-queue] Service worker registration failed:", err);
+    return null;
+  }
+}
+
+/**
+ * Ask the worker to drain the queue now. Uses Background Sync where the
+ * browser has it (so uploads continue after the tab closes) and a direct
+ * message otherwise.
+ */
+export async function requestUpload(): Promise<void> {
+  if (!queueSupported()) return;
+  const registration = await navigator.serviceWorker.ready;
+  const sync = (registration as ServiceWorkerRegistration & {
+    sync?: { register(tag: string): Promise<void> };
+  }).sync;
+  try {
+    if (sync) await sync.register(CAPTURE_SYNC_TAG);
+  } catch {
+    // Permission denied or unsupported — fall through to the message
+  }
+  registration.active?.postMessage({ type: "flush" });
+}
+
+/** Subscribe to worker messages; returns an unsubscribe function */
+export function onQueueMessage(handler: (message: QueueMessage) => void): () => void {
+  if (!queueSupported()) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data && typeof event.data.type === "string") handler(event.data as QueueMessage);
+  };
+  navigator.serviceWorker.addEventListener("message", listener);
+  return () => navigator.serviceWorker.removeEventListener("message", listener);
+}
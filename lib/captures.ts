@@ -0,0 +1,459 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+import { createVariants, type ImageVariant } from "@/lib/image/variants";
+import { getStorage, imageUrlForKey } from "@/lib/storage";
+
+/** Browser and camera details reported by the capture page */
+export type DeviceInfo = Record<string, string | number | boolean | null>;
+
+/** Card corners detected on the client, in source-frame pixels */
+export interface CardGeometry {
+  points: { x: number; y: number }[];
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+export interface Capture {
+  id: number;
+  key: string;
+  /** Canonical image URL — sign it before sending to a browser */
+  url: string;
+  mimeType: string;
+  byteSize: number;
+  width: number | null;
+  height: number | null;
+  brightness: number | null;
+  laplacianVariance: number | null;
+  /** Share of blown-out pixels */
+  clippedRatio: number | null;
+  /** Blown-out share of the worst glare cell */
+  glareRatio: number | null;
+  contrast: number | null;
+  /** Share of the camera cutout the card filled; `null` for imports */
+  coverage: number | null;
+  /** Combined 0-100 score (see lib/image/quality); `null` for older captures */
+  qualityScore: number | null;
+  /** Perceptual hash (see lib/image/phash); `null` until hashed */
+  phash: string | null;
+  /** Down-scaled copies (see lib/image/variants); `null` until generated */
+  variants: ImageVariant[] | null;
+  /** Earlier capture this one looked like a near-duplicate of at upload */
+  duplicateOf: number | null;
+  /** For the back of a double-sided card, the capture of its front */
+  frontId: number | null;
+  /** For the front of a double-sided card, its back; loaded by list and get */
+  back: { id: number; key: string; url: string; variants: ImageVariant[] | null } | null;
+  deviceInfo: DeviceInfo | null;
+  corners: CardGeometry | null;
+  leadId: number | null;
+  /** User who uploaded it; `null` for captures from before accounts */
+  createdBy: number | null;
+  eventId: number | null;
+  /** When boxes were last saved; `null` if never annotated */
+  annotatedAt: string | null;
+  /** When it was moved to the trash; `null` if it isn't there */
+  deletedAt: string | null;
+  createdAt: string;
+}
+
+export interface NewCapture {
+  key: string;
+  mimeType: string;
+  byteSize: number;
+  width?: number | null;
+  height?: number | null;
+  brightness?: number | null;
+  laplacianVariance?: number | null;
+  clippedRatio?: number | null;
+  glareRatio?: number | null;
+  contrast?: number | null;
+  coverage?: number | null;
+  qualityScore?: number | null;
+  phash?: string | null;
+  duplicateOf?: number | null;
+  frontId?: number | null;
+  deviceInfo?: DeviceInfo | null;
+  corners?: CardGeometry | null;
+  leadId?: number | null;
+  createdBy?: number | null;
+  eventId?: number | null;
+  /** Defaults to now; the backfill passes the file's own time */
+  createdAt?: Date;
+}
+
+export const DEFAULT_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 100;
+
+function parseJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
+function rowToCapture(row: RowDataPacket): Capture {
+  return {
+    id: row.id,
+    key: row.storage_key,
+    url: imageUrlForKey(row.storage_key),
+    mimeType: row.mime_type,
+    byteSize: row.byte_size,
+    width: row.width,
+    height: row.height,
+    brightness: row.brightness,
+    laplacianVariance: row.laplacian_variance,
+    clippedRatio: row.clipped_ratio ?? null,
+    glareRatio: row.glare_ratio ?? null,
+    contrast: row.contrast ?? null,
+    coverage: row.coverage ?? null,
+    qualityScore: row.quality_score ?? null,
+    phash: row.phash ?? null,
+    variants: parseJson<ImageVariant[]>(row.variants),
+    duplicateOf: row.duplicate_of ?? null,
+    frontId: row.front_id ?? null,
+    back: null,
+    deviceInfo: parseJson<DeviceInfo>(row.device_info),
+    corners: parseJson<CardGeometry>(row.corners),
+    leadId: row.lead_id,
+    createdBy: row.created_by ?? null,
+    eventId: row.event_id ?? null,
+    annotatedAt: row.annotated_at ? new Date(row.annotated_at).toISOString() : null,
+    deletedAt: row.deleted_at ? new Date(row.deleted_at).toISOString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/** Fill in `back` on the fronts among `captures` */
+async function attachBacks(captures: Capture[]): Promise<Capture[]> {
+  const fronts = captures.filter((c) => c.frontId === null);
+  if (fronts.length === 0) return captures;
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, storage_key, variants, front_id FROM captures WHERE front_id IN (?)`,
+    [fronts.map((c) => c.id)]
+  );
+  const backs = new Map(rows.map((row) => [row.front_id as number, row]));
+  for (const capture of fronts) {
+    const back = backs.get(capture.id);
+    if (back) {
+      capture.back = {
+        id: back.id,
+        key: back.storage_key,
+        url: imageUrlForKey(back.storage_key),
+        variants: parseJson<ImageVariant[]>(back.variants),
+      };
+    }
+  }
+  return captures;
+}
+
+/** Load a capture by id, or `null` if it doesn't exist or is outside `scope` */
+export async function getCapture(id: number, scope: OwnerScope): Promise<Capture | null> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM captures WHERE id = ? AND ${scope.where}`,
+    [id, ...scope.params]
+  );
+  if (!rows[0]) return null;
+  const [capture] = await attachBacks([rowToCapture(rows[0])]);
+  return capture;
+}
+
+/** Record a stored image; returns the new capture id */
+export async function insertCapture(capture: NewCapture): Promise<number> {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `INSERT INTO captures
+       (storage_key, mime_type, byte_size, width, height, brightness,
+        laplacian_variance, clipped_ratio, glare_ratio, contrast, coverage,
+        quality_score, phash, duplicate_of, front_id, device_info, corners,
+        lead_id, created_by, event_id, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      capture.key,
+      capture.mimeType,
+      capture.byteSize,
+      capture.width ?? null,
+      capture.height ?? null,
+      capture.brightness ?? null,
+      capture.laplacianVariance ?? null,
+      capture.clippedRatio ?? null,
+      capture.glareRatio ?? null,
+      capture.contrast ?? null,
+      capture.coverage ?? null,
+      capture.qualityScore ?? null,
+      capture.phash ?? null,
+      capture.duplicateOf ?? null,
+      capture.frontId ?? null,
+      capture.deviceInfo ? JSON.stringify(capture.deviceInfo) : null,
+      capture.corners ? JSON.stringify(capture.corners) : null,
+      capture.leadId ?? null,
+      capture.createdBy ?? null,
+      capture.eventId ?? null,
+      capture.createdAt ?? new Date(),
+    ]
+  );
+  return result.insertId;
+}
+
+/**
+ * Delete a capture and its stored image and variants — and its back, for
+ * a two-sided card. A draft lead that OCR made from it goes too, and a
+ * still-queued OCR job is dropped so it won't create one; leads someone
+ * has reviewed are kept.
+ */
+export async function discardCapture(capture: Capture): Promise<void> {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await connection.execute(
+      "DELETE FROM ocr_jobs WHERE image_url = ? AND status IN ('pending', 'running')",
+      [capture.url]
+    );
+    // The back's row goes with it (ON DELETE CASCADE)
+    await connection.execute("DELETE FROM captures WHERE id = ?", [capture.id]);
+    if (capture.leadId) {
+      await connection.execute(
+        "DELETE FROM leads WHERE id = ? AND status = 'draft' AND image_url = ?",
+        [capture.leadId, capture.url]
+      );
+    }
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback().catch(() => {});
+    throw error;
+  } finally {
+    connection.release();
+  }
+  const keys = [capture, ...(capture.back ? [capture.back] : [])].flatMap((side) => [
+    side.key,
+    ...(side.variants ?? []).map((v) => v.key),
+  ]);
+  for (const key of keys) await getStorage().delete(key);
+}
+
+/**
+ * Make the variants of a stored capture's image and record them. Returns
+ * false when the capture was deleted meanwhile — discardCapture saw no
+ * variants to remove, so the ones just stored are deleted here instead.
+ */
+export async function storeCaptureVariants(id: number, key: string, data: Buffer): Promise<boolean> {
+  const variants = await createVariants(key, data);
+  const [result] = await pool.execute<ResultSetHeader>(
+    "UPDATE captures SET variants = ? WHERE id = ?",
+    [JSON.stringify(variants), id]
+  );
+  if (result.affectedRows > 0) return true;
+  for (const variant of variants) await getStorage().delete(variant.key);
+  return false;
+}
+
+/**
+ * storeCaptureVariants for a fresh upload. Failures are logged, not
+ * thrown: the gallery falls back to the original, and
+ * scripts/generate-variants can fill the gap later.
+ */
+export async function generateCaptureVariants(id: number, key: string, data: Buffer): Promise<void> {
+  try {
+    await storeCaptureVariants(id, key, data);
+  } catch (error) {
+    console.error("[captures] Could not make variants:", key, error);
+  }
+}
+
+// ── Trash ──
+
+/** Days a capture stays in the trash before purgeTrash deletes it */
+export const TRASH_RETENTION_DAYS = 30;
+/** Most captures one bulk request may name */
+export const MAX_BULK_CAPTURES = 100;
+
+/** The `filenames` of a bulk request: 1 to MAX_BULK_CAPTURES storage keys, or `null` */
+export function parseBulkKeys(value: unknown): string[] | null {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.length > MAX_BULK_CAPTURES ||
+    !value.every((key) => typeof key === "string" && key.length > 0)
+  ) {
+    return null;
+  }
+  return [...new Set(value as string[])];
+}
+
+/**
+ * Load the fronts stored under `keys` (trashed ones included), in no
+ * particular order. Keys that don't exist, are outside `scope` or belong
+ * to a card's back are left out.
+ */
+export async function getCapturesByKeys(keys: string[], scope: OwnerScope): Promise<Capture[]> {
+  if (keys.length === 0) return [];
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM captures WHERE storage_key IN (?) AND front_id IS NULL AND ${scope.where}`,
+    [keys, ...scope.params]
+  );
+  return attachBacks(rows.map(rowToCapture));
+}
+
+/**
+ * Move captures, and their backs, to the trash; already-trashed ones keep
+ * their date. Still-queued OCR jobs for them are dropped, as in
+ * discardCapture, so a discarded card doesn't turn into a draft lead; a
+ * restored one gets its lead made from the gallery instead.
+ */
+export async function trashCaptures(ids: number[], deletedBy: number): Promise<void> {
+  if (ids.length === 0) return;
+  await pool.query(
+    `UPDATE captures SET deleted_at = NOW(), deleted_by = ?
+     WHERE (id IN (?) OR front_id IN (?)) AND deleted_at IS NULL`,
+    [deletedBy, ids, ids]
+  );
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT storage_key FROM captures WHERE id IN (?)",
+    [ids]
+  );
+  if (rows.length === 0) return;
+  await pool.query(
+    "DELETE FROM ocr_jobs WHERE image_url IN (?) AND status IN ('pending', 'running')",
+    [rows.map((row) => imageUrlForKey(row.storage_key))]
+  );
+}
+
+/** Take captures, and their backs, out of the trash */
+export async function restoreCaptures(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  await pool.query(
+    "UPDATE captures SET deleted_at = NULL, deleted_by = NULL WHERE id IN (?) OR front_id IN (?)",
+    [ids, ids]
+  );
+}
+
+/**
+ * Delete, for good, every capture trashed more than TRASH_RETENTION_DAYS
+ * ago (see discardCapture). Returns how many went.
+ */
+export async function purgeTrash(): Promise<number> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM captures
+     WHERE front_id IS NULL AND deleted_at < NOW() - INTERVAL ${TRASH_RETENTION_DAYS} DAY`
+  );
+  const captures = await attachBacks(rows.map(rowToCapture));
+  for (const capture of captures) await discardCapture(capture);
+  return captures.length;
+}
+
+/** Point the capture stored under `key` at a lead */
+export async function linkCaptureToLead(key: string, leadId: number): Promise<void> {
+  await pool.execute("UPDATE captures SET lead_id = ? WHERE storage_key = ?", [leadId, key]);
+}
+
+// ── Listing ──
+
+export interface CaptureQuery {
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string | null;
+  limit?: number;
+  /** Inclusive date bounds, YYYY-MM-DD */
+  from?: string | null;
+  to?: string | null;
+  /** Only captures with (true) or without (false) saved annotations */
+  annotated?: boolean;
+  /** Only captures taken at this event */
+  eventId?: number;
+  /** List the trash instead of the live captures */
+  trashed?: boolean;
+}
+
+export interface CapturePage {
+  captures: Capture[];
+  /** `null` on the last page */
+  nextCursor: string | null;
+  /** Captures matching the filter, across all pages */
+  total: number;
+}
+
+export type CaptureQueryResult =
+  | { ok: true; page: CapturePage }
+  | { ok: false; error: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Position after the last row of a page: its time and id, newest first */
+function encodeCursor(capture: Capture): string {
+  return Buffer.from(`${Date.parse(capture.createdAt)}:${capture.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { at: Date; id: number } | null {
+  const match = Buffer.from(cursor, "base64url").toString().match(/^(\d+):(\d+)$/);
+  return match ? { at: new Date(Number(match[1])), id: Number(match[2]) } : null;
+}
+
+/**
+ * One page of the captures within `scope`, newest first. Keyset
+ * pagination on (created_at, id) keeps pages stable while new captures
+ * arrive.
+ */
+export async function listCaptures(
+  scope: OwnerScope,
+  query: CaptureQuery = {}
+): Promise<CaptureQueryResult> {
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  // Backs are listed with their fronts, not on their own
+  const clauses: string[] = [
+    scope.where,
+    "front_id IS NULL",
+    query.trashed ? "deleted_at IS NOT NULL" : "deleted_at IS NULL",
+  ];
+  const values: (string | number | Date)[] = [...scope.params];
+
+  for (const [key, op, suffix] of [
+    ["from", ">=", "00:00:00"],
+    ["to", "<=", "23:59:59.999"],
+  ] as const) {
+    const date = query[key];
+    if (!date) continue;
+    if (!DATE_RE.test(date)) {
+      return { ok: false, error: `${key} must be a date (YYYY-MM-DD).` };
+    }
+    clauses.push(`created_at ${op} ?`);
+    values.push(`${date} ${suffix}`);
+  }
+
+  if (query.eventId !== undefined) {
+    clauses.push("event_id = ?");
+    values.push(query.eventId);
+  }
+
+  if (query.annotated !== undefined) {
+    clauses.push(query.annotated ? "annotated_at IS NOT NULL" : "annotated_at IS NULL");
+  }
+
+  const filterWhere = clauses.join(" AND ");
+  const filterValues = [...values];
+
+  if (query.cursor) {
+    const position = decodeCursor(query.cursor);
+    if (!position) return { ok: false, error: "Invalid cursor." };
+    clauses.push("(created_at < ? OR (created_at = ? AND id < ?))");
+    values.push(position.at, position.at, position.id);
+  }
+
+  const where = clauses.join(" AND ");
+  // LIMIT is inlined: prepared LIMIT placeholders are unreliable in mysql2
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM captures WHERE ${where}
+     ORDER BY created_at DESC, id DESC LIMIT ${limit + 1}`,
+    values
+  );
+  const [[{ total }]] = await pool.query<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total FROM captures WHERE ${filterWhere}`,
+    filterValues
+  );
+
+  const captures = await attachBacks(rows.slice(0, limit).map(rowToCapture));
+  const hasMore = rows.length > limit;
+  return {
+    ok: true,
+    page: {
+      captures,
+      nextCursor: hasMore ? encodeCursor(captures[captures.length - 1]) : null,
+      total: Number(total),
+    },
+  };
+}
@@ -0,0 +1,526 @@
+/**
+ * Business-card outline detection and perspective correction.
+ *
+ * Pure functions over raw pixel buffers so they run the same in the
+ * browser (canvas ImageData) and anywhere else a grayscale buffer exists.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Card corners ordered top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point];
+
+/** Every stored card is warped to this size (1.75:1 business-card ratio) */
+export const CARD_OUTPUT_WIDTH = 1024;
+export const CARD_OUTPUT_HEIGHT = 585;
+
+/** Accept card outlines covering this share of the analysed frame */
+const MIN_AREA_RATIO = 0.08;
+const MAX_AREA_RATIO = 0.95;
+/** How well the outline must fill its own quadrilateral (1 = perfect) */
+const MIN_RECTANGULARITY = 0.85;
+/** Long-side / short-side ratio range — a card is ~1.75 with perspective slack */
+const MIN_ASPECT = 1.15;
+const MAX_ASPECT = 2.6;
+/** Reject blobs that run along the frame edge (background, not a card) */
+const MAX_BORDER_TOUCH = 0.05;
+/** Smallest card on a scanned sheet, as a share of the page */
+const MIN_SHEET_CARD_RATIO = 0.01;
+
+/**
+ * Convert RGBA pixels to a luminance buffer (0-255). Pass `out` (at least
+ * `w × h` long) to reuse a buffer between frames.
+ */
+export function toGrayscale(
+  data: Uint8ClampedArray | Uint8Array,
+  w: number,
+  h: number,
+  out?: Float32Array
+): Float32Array {
+  const gray = out && out.length >= w * h ? out.subarray(0, w * h) : new Float32Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * 4;
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+  return gray;
+}
+
+/**
+ * Otsu's method — the threshold that best separates the histogram into
+ * two classes (card vs. background).
+ */
+function otsuThreshold(gray: Float32Array): number {
+  const hist = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) hist[Math.min(255, Math.max(0, gray[i] | 0))]++;
+
+  const total = gray.length;
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+  let sumB = 0;
+  let weightB = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightB += hist[t];
+    if (weightB === 0) continue;
+    const weightF = total - weightB;
+    if (weightF === 0) break;
+    sumB += t * hist[t];
+    const meanB = sumB / weightB;
+    const meanF = (sumAll - sumB) / weightF;
+    const between = weightB * weightF * (meanB - meanF) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+/** 3×3 box blur to knock out sensor noise before thresholding */
+function boxBlur(gray: Float32Array, w: number, h: number): Float32Array {
+  const out = new Float32Array(gray.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= h) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx;
+          if (xx < 0 || xx >= w) continue;
+          sum += gray[yy * w + xx];
+          n++;
+        }
+      }
+      out[y * w + x] = sum / n;
+    }
+  }
+  return out;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/** Andrew's monotone-chain convex hull (counter-clockwise in image space) */
+function convexHull(points: Point[]): Point[] {
+  const pts = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (pts.length < 3) return pts;
+
+  const lower: Point[] = [];
+  for (const p of pts) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (let i = pts.length - 1; i >= 0; i--) {
+    const p = pts[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  upper.pop();
+  lower.pop();
+  return lower.concat(upper);
+}
+
+/** Shoelace area of a polygon (absolute value) */
+export function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Reduce a convex hull to the four vertices enclosing the largest area.
+ * Starts from the diagonal extremes and refines one corner at a time.
+ */
+function hullToQuad(hull: Point[]): Point[] {
+  const pick = (score: (p: Point) => number) =>
+    hull.reduce((best, p) => (score(p) > score(best) ? p : best), hull[0]);
+
+  const quad = [
+    pick((p) => -p.x - p.y),
+    pick((p) => p.x - p.y),
+    pick((p) => p.x + p.y),
+    pick((p) => -p.x + p.y),
+  ];
+
+  for (let iter = 0; iter < 3; iter++) {
+    let improved = false;
+    for (let i = 0; i < 4; i++) {
+      let bestArea = polygonArea(quad);
+      for (const candidate of hull) {
+        const trial = [...quad];
+        trial[i] = candidate;
+        const area = polygonArea(trial);
+        if (area > bestArea + 1e-6) {
+          bestArea = area;
+          quad[i] = candidate;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return quad;
+}
+
+/**
+ * Order four points as TL, TR, BR, BL with the long edge horizontal, so the
+ * warp always produces a landscape card.
+ */
+function orderCorners(points: Point[]): Quad {
+  const cx = points.reduce((s, p) => s + p.x, 0) / 4;
+  const cy = points.reduce((s, p) => s + p.y, 0) / 4;
+  // Clockwise in image space (y down), starting from the top-left quadrant
+  const sorted = [...points].sort(
+    (a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx)
+  );
+  let start = 0;
+  let bestScore = Infinity;
+  sorted.forEach((p, i) => {
+    const score = p.x + p.y;
+    if (score < bestScore) {
+      bestScore = score;
+      start = i;
+    }
+  });
+  let quad = [0, 1, 2, 3].map((k) => sorted[(start + k) % 4]) as Quad;
+
+  const top = distance(quad[0], quad[1]) + distance(quad[3], quad[2]);
+  const side = distance(quad[0], quad[3]) + distance(quad[1], quad[2]);
+  if (side > top) {
+    // Card is held in portrait — rotate so the long edge becomes the top
+    quad = [quad[3], quad[0], quad[1], quad[2]];
+  }
+  return quad;
+}
+
+function isConvex(quad: Point[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const c = cross(quad[i], quad[(i + 1) % 4], quad[(i + 2) % 4]);
+    if (c === 0) return false;
+    const s = Math.sign(c);
+    if (sign === 0) sign = s;
+    else if (s !== sign) return false;
+  }
+  return true;
+}
+
+/**
+ * Find the four corners of a business card in a grayscale frame.
+ *
+ * Segments the frame with Otsu's threshold, grows the region that owns the
+ * centre of the frame, and fits a quadrilateral to its convex hull.
+ * Returns `null` when nothing card-shaped sits in the middle of the frame.
+ */
+export function detectCardCorners(gray: Float32Array, w: number, h: number): Quad | null {
+  if (w < 16 || h < 16) return null;
+
+  const blurred = boxBlur(gray, w, h);
+  const threshold = otsuThreshold(blurred);
+  const mask = new Uint8Array(w * h);
+  for (let i = 0; i < mask.length; i++) mask[i] = blurred[i] > threshold ? 1 : 0;
+
+  // The card is whichever class dominates the centre of the frame
+  const x0 = Math.floor(w * 0.35);
+  const x1 = Math.ceil(w * 0.65);
+  const y0 = Math.floor(h * 0.35);
+  const y1 = Math.ceil(h * 0.65);
+  let bright = 0;
+  let centre = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      bright += mask[y * w + x];
+      centre++;
+    }
+  }
+  const label = bright * 2 >= centre ? 1 : 0;
+
+  // Flood-fill from every centre pixel of that class
+  const region = new Uint8Array(w * h);
+  const stack: number[] = [];
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * w + x;
+      if (mask[i] === label && !region[i]) {
+        region[i] = 1;
+        stack.push(i);
+      }
+    }
+  }
+
+  let area = 0;
+  let borderTouch = 0;
+  while (stack.length) {
+    const i = stack.pop()!;
+    area++;
+    const x = i % w;
+    const y = (i - x) / w;
+    if (x === 0 || y === 0 || x === w - 1 || y === h - 1) borderTouch++;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < w - 1 ? i + 1 : -1,
+      y > 0 ? i - w : -1,
+      y < h - 1 ? i + w : -1,
+    ];
+    for (const n of neighbours) {
+      if (n >= 0 && !region[n] && mask[n] === label) {
+        region[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+
+  const frameArea = w * h;
+  if (area < frameArea * MIN_AREA_RATIO || area > frameArea * MAX_AREA_RATIO) return null;
+  if (borderTouch > 2 * (w + h) * MAX_BORDER_TOUCH) return null;
+
+  return fitQuad(region, 1, w, { x0: 0, y0: 0, x1: w - 1, y1: h - 1 }, area);
+}
+
+/** Inclusive pixel bounds of a region */
+interface Bounds {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * Fit a card quadrilateral to the pixels labelled `id` within `bounds`:
+ * convex hull of the row extremes, reduced to four corners, then checked
+ * for convexity, fill and aspect. `null` when the region isn't card-shaped.
+ */
+function fitQuad(
+  labels: ArrayLike<number>,
+  id: number,
+  w: number,
+  bounds: Bounds,
+  area: number
+): Quad | null {
+  // Outline = left-most and right-most region pixel on every row
+  const outline: Point[] = [];
+  for (let y = bounds.y0; y <= bounds.y1; y++) {
+    let minX = -1;
+    let maxX = -1;
+    for (let x = bounds.x0; x <= bounds.x1; x++) {
+      if (labels[y * w + x] === id) {
+        if (minX < 0) minX = x;
+        maxX = x;
+      }
+    }
+    if (minX >= 0) {
+      outline.push({ x: minX, y }, { x: maxX, y });
+    }
+  }
+
+  const hull = convexHull(outline);
+  if (hull.length < 4) return null;
+
+  const quad = hullToQuad(hull);
+  if (!isConvex(quad)) return null;
+
+  const quadArea = polygonArea(quad);
+  if (quadArea === 0 || area / quadArea < MIN_RECTANGULARITY) return null;
+
+  const ordered = orderCorners(quad);
+  const long = (distance(ordered[0], ordered[1]) + distance(ordered[3], ordered[2])) / 2;
+  const short = (distance(ordered[0], ordered[3]) + distance(ordered[1], ordered[2])) / 2;
+  const aspect = long / short;
+  if (aspect < MIN_ASPECT || aspect > MAX_ASPECT) return null;
+
+  return ordered;
+}
+
+/**
+ * Find every card on a scanned sheet or flat-lay photo. The background is
+ * whichever class owns the frame's border; each separate card-shaped blob
+ * of the other class is a card. Cards that touch each other merge into one
+ * blob and are skipped. Quads come back in reading order.
+ */
+export function detectSheetCards(gray: Float32Array, w: number, h: number): Quad[] {
+  if (w < 16 || h < 16) return [];
+
+  const blurred = boxBlur(gray, w, h);
+  const threshold = otsuThreshold(blurred);
+  const mask = new Uint8Array(w * h);
+  for (let i = 0; i < mask.length; i++) mask[i] = blurred[i] > threshold ? 1 : 0;
+
+  let bright = 0;
+  let border = 0;
+  for (let x = 0; x < w; x++) {
+    bright += mask[x] + mask[(h - 1) * w + x];
+    border += 2;
+  }
+  for (let y = 0; y < h; y++) {
+    bright += mask[y * w] + mask[y * w + w - 1];
+    border += 2;
+  }
+  const background = bright * 2 >= border ? 1 : 0;
+
+  const labels = new Int32Array(w * h);
+  const found: { quad: Quad; cx: number; cy: number; height: number }[] = [];
+  const frameArea = w * h;
+  let next = 0;
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] || mask[start] === background) continue;
+
+    const id = ++next;
+    const bounds: Bounds = { x0: w, y0: h, x1: 0, y1: 0 };
+    let area = 0;
+    let touchesEdge = false;
+    const stack = [start];
+    labels[start] = id;
+    while (stack.length) {
+      const i = stack.pop()!;
+      area++;
+      const x = i % w;
+      const y = (i - x) / w;
+      if (x === 0 || y === 0 || x === w - 1 || y === h - 1) touchesEdge = true;
+      if (x < bounds.x0) bounds.x0 = x;
+      if (x > bounds.x1) bounds.x1 = x;
+      if (y < bounds.y0) bounds.y0 = y;
+      if (y > bounds.y1) bounds.y1 = y;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < w - 1 ? i + 1 : -1,
+        y > 0 ? i - w : -1,
+        y < h - 1 ? i + w : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && !labels[n] && mask[n] !== background) {
+          labels[n] = id;
+          stack.push(n);
+        }
+      }
+    }
+
+    if (touchesEdge) continue;
+    if (area < frameArea * MIN_SHEET_CARD_RATIO || area > frameArea * MAX_AREA_RATIO) continue;
+    const quad = fitQuad(labels, id, w, bounds, area);
+    if (!quad) continue;
+    found.push({
+      quad,
+      cx: (bounds.x0 + bounds.x1) / 2,
+      cy: (bounds.y0 + bounds.y1) / 2,
+      height: bounds.y1 - bounds.y0 + 1,
+    });
+  }
+
+  // Reading order: rows top to bottom, a new row once a card starts below
+  // the middle of the current row's first card; left to right within a row
+  found.sort((a, b) => a.cy - b.cy);
+  const rows: (typeof found)[] = [];
+  for (const card of found) {
+    const row = rows[rows.length - 1];
+    if (row && card.cy - row[0].cy < row[0].height / 2) row.push(card);
+    else rows.push([card]);
+  }
+  return rows.flatMap((row) => row.sort((a, b) => a.cx - b.cx).map((card) => card.quad));
+}
+
+/** Scale quad coordinates from an analysis buffer back to the source frame */
+export function scaleQuad(quad: Quad, sx: number, sy: number): Quad {
+  return quad.map((p) => ({ x: p.x * sx, y: p.y * sy })) as Quad;
+}
+
+/**
+ * Solve the 3×3 homography (h33 = 1) mapping each `from` point to `to`.
+ * Gaussian elimination with partial pivoting on the 8×8 DLT system.
+ */
+function solveHomography(from: Point[], to: Point[]): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const div = a[col][col];
+    if (Math.abs(div) < 1e-12) throw new Error("Degenerate card corners");
+    for (let k = col; k < 9; k++) a[col][k] /= div;
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  return [...a.map((row) => row[8]), 1];
+}
+
+/**
+ * Warp the quadrilateral `quad` of an RGBA source onto a flat
+ * `outW × outH` rectangle using bilinear sampling. Pass `target` (exactly
+ * `outW × outH × 4` long) to reuse a buffer between captures.
+ */
+export function warpPerspective(
+  src: Uint8ClampedArray,
+  srcW: number,
+  srcH: number,
+  quad: Quad,
+  outW: number,
+  outH: number,
+  target?: Uint8ClampedArray<ArrayBuffer>
+): Uint8ClampedArray<ArrayBuffer> {
+  const rect: Point[] = [
+    { x: 0, y: 0 },
+    { x: outW - 1, y: 0 },
+    { x: outW - 1, y: outH - 1 },
+    { x: 0, y: outH - 1 },
+  ];
+  // Map output → source so every output pixel is filled exactly once
+  const m = solveHomography(rect, quad);
+  const out =
+    target && target.length === outW * outH * 4 ? target : new Uint8ClampedArray(outW * outH * 4);
+
+  for (let v = 0; v < outH; v++) {
+    for (let u = 0; u < outW; u++) {
+      const d = m[6] * u + m[7] * v + m[8];
+      const x = Math.min(srcW - 1.001, Math.max(0, (m[0] * u + m[1] * v + m[2]) / d));
+      const y = Math.min(srcH - 1.001, Math.max(0, (m[3] * u + m[4] * v + m[5]) / d));
+
+      const x0 = x | 0;
+      const y0 = y | 0;
+      const fx = x - x0;
+      const fy = y - y0;
+      const i00 = (y0 * srcW + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + srcW * 4;
+      const i11 = i01 + 4;
+      const o = (v * outW + u) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        const top = src[i00 + c] * (1 - fx) + src[i10 + c] * fx;
+        const bottom = src[i01 + c] * (1 - fx) + src[i11 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,403 @@
+/**
+ * Contact-field extraction for business-card text.
+ *
+ * Takes raw card text (OCR output or pasted) and returns structured fields,
+ * each with a 0-1 confidence score. Heuristic and dependency-light on
+ * purpose: every rule below is exercised by the fixture corpus in
+ * `./fixtures` (run `npm run check:extraction`).
+ */
+import type { CountryCode } from "libphonenumber-js/core";
+import { extractPhones } from "./phone";
+
+export { normalizePhone } from "./phone";
+import type {
+  ContactExtraction,
+  ExtractedField,
+  ExtractOptions,
+  LeadFieldName,
+  LeadFields,
+} from "./types";
+
+export type {
+  ContactExtraction,
+  ExtractedField,
+  ExtractedPhone,
+  ExtractOptions,
+  LeadFieldName,
+  LeadFields,
+  PhoneType,
+} from "./types";
+
+const EMAIL_RE = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+
+/** Anything that looks like a host name, optionally with scheme and path */
+const URL_RE =
+  /\b(?:https?:\/\/)?(?:www\.)?[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*\.([a-z]{2,})(?:\/[^\s,;]*)?/gi;
+
+/** Bare domains (no www/scheme) are only trusted with a common TLD */
+const COMMON_TLDS = new Set([
+  "com", "net", "org", "io", "co", "ai", "biz", "info", "dev", "app", "tech",
+  "us", "uk", "de", "fr", "es", "it", "nl", "be", "ch", "at", "se", "no", "dk",
+  "fi", "ie", "pl", "pt", "in", "au", "nz", "ca", "jp", "cn", "sg", "hk", "za",
+  "br", "mx", "ae",
+]);
+
+/** Mailbox providers — their domain says nothing about the employer */
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "yahoo.co.in", "yahoo.co.uk",
+  "hotmail.com", "outlook.com", "live.com", "msn.com", "icloud.com", "me.com",
+  "aol.com", "proton.me", "protonmail.com", "gmx.de", "gmx.net", "web.de",
+  "rediffmail.com", "zoho.com",
+]);
+
+const COMPANY_SUFFIX_RE =
+  /\b(?:inc|llc|l\.l\.c|ltd|limited|gmbh|corp|corporation|co|company|group|plc|llp|ag|s\.?a|s\.?a\.?s|b\.?v|pty|pvt|private|technologies|technology|solutions|consulting|consultants|labs|studio|studios|partners|associates|holdings|industries|systems|enterprises|agency|bank|ventures|software|analytics)\b\.?/i;
+
+const TITLE_RE =
+  /\b(?:ceo|cto|cfo|coo|cio|cmo|vp|svp|evp|founder|co-founder|cofounder|president|director|manager|head|lead|engineer|developer|designer|architect|analyst|consultant|officer|chief|partner|owner|principal|specialist|coordinator|executive|representative|associate|assistant|advisor|adviser|attorney|accountant|agent|realtor|sales|marketing|recruiter|scientist|researcher|professor|editor|producer|administrator|supervisor|technician|secretary|chairman|chairwoman|managing|senior|junior|intern|photographer|directrice|geschäftsführer|directeur|gerente)\b/i;
+
+/** Post-nominal credentials stripped from a name line */
+const CREDENTIALS_RE = /,?\s+\b(?:phd|ph\.d\.?|md|m\.d\.|mba|cpa|esq|pe|p\.e\.|jr|sr|ii|iii|msc|bsc|dipl\.?-ing\.?)\.?$/i;
+
+const STREET_RE =
+  /\b\d+[a-z]?\s+(?:[\p{L}0-9.'-]+\s+){0,4}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|way|court|ct|place|pl|square|sq|parkway|pkwy|highway|hwy|terrace|crescent|close|marg|nagar)\b\.?/iu;
+const EURO_STREET_RE =
+  /(?:\b[\p{L}-]*(?:straße|strasse|str\.|weg|gasse|platz|allee|laan|straat|gatan)\s*\d+|\b\d+,?\s+(?:rue|avenue|boulevard|bd|via|viale|calle|avenida|rua|piazza)\b)/iu;
+const UNIT_RE = /\b(?:suite|ste|floor|fl|unit|building|bldg|level|tower|block|plot)\b\.?\s*#?\s*\w+/i;
+const PO_BOX_RE = /\bp\.?\s?o\.?\s*box\b/i;
+/** "14 Kingsway" — a house number alone is a weak signal */
+const HOUSE_NUMBER_RE = /^\d{1,5}[a-z]?,?\s+\p{L}{3,}/iu;
+const US_ZIP_RE = /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/;
+const UK_POSTCODE_RE = /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/;
+const POSTCODE_CITY_RE = /(?:^\d{4,5}\s+\p{Lu}[\p{L}-]+|\b\p{Lu}[\p{L}]+[\s,-]+\d{6}\b|\b\p{Lu}\d\p{Lu}\s?\d\p{Lu}\d\b)/u;
+const COUNTRY_RE =
+  /^(?:usa|u\.s\.a\.?|united states|united kingdom|uk|england|germany|deutschland|france|india|canada|australia|netherlands|switzerland|spain|italy|singapore|ireland|japan|brazil|mexico)\.?$/i;
+
+/** Separators that put two fields on one line: "Head of Sales | Acme" */
+const PART_SPLIT_RE = /\s*[|•·–—]\s*|\s+-\s+|,\s+(?=\p{Lu})/u;
+
+interface CardLine {
+  index: number;
+  text: string;
+  /** Set once a line has been claimed by a field */
+  used: boolean;
+}
+
+function clamp(n: number): number {
+  return Math.round(Math.min(0.99, Math.max(0, n)) * 100) / 100;
+}
+
+function titleCase(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/** Lowercase ASCII letters only — for comparing "Maison Boréal" with "maisonboreal" */
+function letters(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function extractEmails(lines: CardLine[]): ExtractedField[] {
+  const emails: ExtractedField[] = [];
+  for (const line of lines) {
+    for (const m of line.text.matchAll(EMAIL_RE)) {
+      const value = m[0].replace(/^[._%+-]+|[._-]+$/g, "").toLowerCase();
+      if (emails.some((e) => e.value === value)) continue;
+      // Doubled or dangling dots around the @ are usually OCR misreads
+      const confidence = /\.\.|@\.|\.@/.test(value) ? 0.5 : 0.95;
+      emails.push({ value, confidence });
+    }
+  }
+  return emails;
+}
+
+function extractWebsite(lines: CardLine[], emails: ExtractedField[]): ExtractedField | null {
+  const emailDomains = new Set(emails.map((e) => e.value.split("@")[1]));
+  let best: ExtractedField | null = null;
+  for (const line of lines) {
+    const text = line.text.replace(EMAIL_RE, " ");
+    for (const m of text.matchAll(URL_RE)) {
+      const raw = m[0].replace(/[.)]+$/, "");
+      const explicit = /^(?:https?:\/\/|www\.)/i.test(raw);
+      const host = raw.replace(/^https?:\/\//i, "").split("/")[0].toLowerCase();
+      if (!explicit && !COMMON_TLDS.has(m[1].toLowerCase()) && !emailDomains.has(host)) continue;
+      // A bare "acme.com" is only a website if it isn't glued to other words
+      if (!explicit && /[\p{L}]/u.test(text.charAt((m.index ?? 0) - 1))) continue;
+
+      const value = /^https?:\/\//i.test(raw) ? raw.toLowerCase() : `https://${raw.toLowerCase()}`;
+      const confidence = explicit ? 0.9 : 0.7;
+      if (!best || confidence > best.confidence) best = { value, confidence };
+    }
+  }
+  return best;
+}
+
+/** True when nothing but contact data (numbers, emails, URLs, labels) is left */
+function isContactLine(text: string): boolean {
+  const stripped = text
+    .replace(EMAIL_RE, " ")
+    .replace(URL_RE, " ")
+    .replace(/\+?\(?\d[\d\s().\-/]{5,}\d/g, " ")
+    .replace(
+      /\b(?:e-?mail|email|web|website|www|tel|telephone|phone|ph|mobile|mob|mobil|cell|fax|office|direct|main|work|ext|extn|x|t|p|m|f|e|w|o|c|d)\b\s*[:.]?/gi,
+      " "
+    );
+  return !/\p{L}{3,}/u.test(stripped);
+}
+
+function addressScore(text: string): number {
+  let score = 0;
+  if (STREET_RE.test(text) || EURO_STREET_RE.test(text)) score += 2;
+  else if (HOUSE_NUMBER_RE.test(text)) score += 1;
+  if (PO_BOX_RE.test(text)) score += 2;
+  if (UNIT_RE.test(text)) score += 1;
+  if (US_ZIP_RE.test(text) || UK_POSTCODE_RE.test(text) || POSTCODE_CITY_RE.test(text)) score += 2;
+  return score;
+}
+
+function extractAddress(lines: CardLine[]): ExtractedField | null {
+  const scored = lines.map((line) => ({
+    line,
+    score: line.used ? 0 : addressScore(line.text),
+  }));
+
+  let best: { start: number; end: number; score: number } | null = null;
+  for (let i = 0; i < scored.length; i++) {
+    if (scored[i].score === 0) continue;
+    // Grow a run of adjacent address-like lines, plus a trailing country
+    let end = i;
+    let score = scored[i].score;
+    while (
+      end + 1 < scored.length &&
+      !scored[end + 1].line.used &&
+      (scored[end + 1].score > 0 || COUNTRY_RE.test(scored[end + 1].line.text))
+    ) {
+      end++;
+      score += Math.max(scored[end].score, 1);
+    }
+    if (!best || score > best.score) best = { start: i, end, score };
+    i = end;
+  }
+
+  if (!best || best.score < 2) return null;
+
+  const run = lines.slice(best.start, best.end + 1);
+  run.forEach((l) => (l.used = true));
+  const value = run
+    .map((l) => l.text.replace(/^(?:address|addr|a)\s*[:.]\s*/i, "").replace(/[,;\s]+$/, ""))
+    .join(", ");
+  return { value, confidence: clamp(0.45 + best.score * 0.1) };
+}
+
+interface LinePart {
+  line: CardLine;
+  text: string;
+  used: boolean;
+}
+
+function splitParts(lines: CardLine[]): LinePart[] {
+  const parts: LinePart[] = [];
+  for (const line of lines) {
+    if (line.used) continue;
+    for (const text of line.text.split(PART_SPLIT_RE)) {
+      const trimmed = text.replace(/^[|:;,.\s]+|[|:;,\s]+$/g, "");
+      if (trimmed) parts.push({ line, text: trimmed, used: false });
+    }
+  }
+  return parts;
+}
+
+/** Another part of the same line was already claimed by a field */
+function shareLineWithClaimed(part: LinePart, parts: LinePart[]): boolean {
+  return parts.some((p) => p !== part && p.line === part.line && p.used);
+}
+
+function emailDomain(emails: ExtractedField[]): string | null {
+  for (const { value } of emails) {
+    const domain = value.split("@")[1];
+    if (domain && !FREE_MAIL_DOMAINS.has(domain)) return domain;
+  }
+  return null;
+}
+
+/** "mail.acme-corp.co.uk" → "acme-corp" */
+function domainStem(domain: string): string {
+  const labels = domain.split(".");
+  let i = labels.length - 2;
+  // Second-level country domains: .co.uk, .com.au, .co.in …
+  if (i > 0 && /^(?:co|com|org|net|ac|gov)$/.test(labels[i])) i--;
+  return labels[Math.max(0, i)];
+}
+
+function extractCompany(
+  parts: LinePart[],
+  emails: ExtractedField[],
+  website: ExtractedField | null
+): ExtractedField | null {
+  const domain = emailDomain(emails);
+  const websiteHost = website?.value.replace(/^https?:\/\/(?:www\.)?/, "").split("/")[0];
+  const stems = [domain, websiteHost]
+    .filter((d): d is string => !!d)
+    .map((d) => letters(domainStem(d)))
+    .filter((s) => s.length >= 3);
+
+  let best: { part: LinePart; confidence: number } | null = null;
+  for (const part of parts) {
+    if (/\d{3,}/.test(part.text)) continue;
+    let confidence = 0;
+    if (COMPANY_SUFFIX_RE.test(part.text)) confidence = 0.8;
+    const compact = letters(part.text);
+    if (
+      compact.length >= 3 &&
+      stems.some((stem) => compact === stem || compact.startsWith(stem) || stem.startsWith(compact))
+    ) {
+      confidence = Math.max(confidence, 0.75) + 0.1;
+    }
+    if (confidence > 0 && (!best || confidence > best.confidence)) best = { part, confidence };
+  }
+
+  if (best) {
+    best.part.used = true;
+    return { value: best.part.text, confidence: clamp(best.confidence) };
+  }
+
+  // Only an employer's mail domain says anything about the company
+  if (domain) {
+    const value = domainStem(domain!).split(/[-_]/).map(titleCase).join(" ");
+    return { value, confidence: 0.35 };
+  }
+  return null;
+}
+
+function extractJobTitle(parts: LinePart[]): ExtractedField | null {
+  for (const part of parts) {
+    if (part.used || /\d{3,}/.test(part.text) || /@/.test(part.text)) continue;
+    if (!TITLE_RE.test(part.text)) continue;
+    // Long prose lines ("We build the best sales tools …") are taglines, not titles
+    const words = part.text.split(/\s+/).length;
+    if (words > 8) continue;
+
+    part.used = true;
+    return { value: part.text, confidence: words <= 5 ? 0.8 : 0.6 };
+  }
+  return null;
+}
+
+function looksLikeName(text: string): boolean {
+  const words = text.split(/\s+/);
+  if (words.length < 2 || words.length > 4) return false;
+  return words.every(
+    (w) => /^(?:\p{Lu}[\p{L}'’-]*\.?|\p{Lu}\.|(?:van|von|de|del|der|da|di|le|la|bin|al)$)$/u.test(w)
+  );
+}
+
+function normalizeName(text: string): string {
+  const stripped = text.replace(CREDENTIALS_RE, "").replace(CREDENTIALS_RE, "").trim();
+  // ALL-CAPS names read better in title case
+  return stripped === stripped.toUpperCase()
+    ? stripped.split(/\s+/).map((w) => w.split("-").map(titleCase).join("-")).join(" ")
+    : stripped;
+}
+
+function extractName(parts: LinePart[], emails: ExtractedField[]): ExtractedField | null {
+  const locals = emails.map((e) => letters(e.value.split("@")[0]));
+
+  let best: { part: LinePart; value: string; confidence: number } | null = null;
+  for (const part of parts) {
+    if (part.used) continue;
+    const value = normalizeName(part.text);
+    if (!looksLikeName(value) || TITLE_RE.test(value) || COMPANY_SUFFIX_RE.test(value)) continue;
+
+    let confidence = 0.55;
+    const tokens = value.split(/\s+/).map(letters).filter((t) => t.length >= 2);
+    if (locals.some((local) => tokens.some((t) => local.includes(t)))) confidence += 0.3;
+    if (part.line.index < 3) confidence += 0.1;
+    if (shareLineWithClaimed(part, parts)) confidence -= 0.2;
+
+    if (!best || confidence > best.confidence) best = { part, value, confidence };
+  }
+
+  if (best) {
+    best.part.used = true;
+    return { value: best.value, confidence: clamp(best.confidence) };
+  }
+
+  // Last resort: "jane.doe@…" → "Jane Doe"
+  for (const { value } of emails) {
+    const local = value.split("@")[0];
+    const pieces = local.split(/[._-]/).filter((p) => /^[a-z]{2,}$/.test(p));
+    if (pieces.length >= 2) {
+      return { value: pieces.map(titleCase).join(" "), confidence: 0.4 };
+    }
+  }
+  return null;
+}
+
+/** Region for numbers without a country code: `DEFAULT_PHONE_REGION`, else US */
+export function defaultPhoneRegion(): CountryCode {
+  return (process.env.DEFAULT_PHONE_REGION as CountryCode | undefined) || "US";
+}
+
+/**
+ * Extract structured contact fields from raw business-card text.
+ */
+export function extractContact(text: string, options: ExtractOptions = {}): ContactExtraction {
+  const region = options.defaultRegion ?? defaultPhoneRegion();
+
+  const lines: CardLine[] = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter((l) => l.length > 0)
+    .map((l, index) => ({ index, text: l, used: false }));
+
+  const emails = extractEmails(lines);
+  const website = extractWebsite(lines, emails);
+  const phones = extractPhones(
+    lines.map((l) => l.text),
+    region
+  );
+
+  for (const line of lines) {
+    if (isContactLine(line.text)) line.used = true;
+  }
+
+  const address = extractAddress(lines);
+  const parts = splitParts(lines);
+  const company = extractCompany(parts, emails, website);
+  const jobTitle = extractJobTitle(parts);
+  const name = extractName(parts, emails);
+
+  return { name, jobTitle, company, emails, phones, website, address };
+}
+
+/**
+ * Flatten an extraction onto the `leads` columns. `phone` is the first
+ * non-fax number; `mobile` and `fax` hold the first number of that type.
+ */
+export function toLeadFields(extraction: ContactExtraction): LeadFields {
+  const primary = extraction.phones.find((p) => p.type !== "fax") ?? null;
+  const mobile = extraction.phones.find((p) => p.type === "mobile") ?? null;
+  const fax = extraction.phones.find((p) => p.type === "fax") ?? null;
+
+  const fields: Record<LeadFieldName, ExtractedField | null> = {
+    name: extraction.name,
+    job_title: extraction.jobTitle,
+    company: extraction.company,
+    email: extraction.emails[0] ?? null,
+    phone: primary,
+    mobile,
+    fax,
+    website: extraction.website,
+    address: extraction.address,
+  };
+
+  const result = { field_confidence: {} } as LeadFields;
+  for (const [key, field] of Object.entries(fields) as [LeadFieldName, ExtractedField | null][]) {
+    result[key] = field?.value ?? null;
+    if (field) result.field_confidence[key] = field.confidence;
+  }
+  return result;
+}
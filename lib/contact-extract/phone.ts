@@ -0,0 +1,97 @@
+import {
+  findPhoneNumbersInText,
+  parsePhoneNumberFromString,
+  type CountryCode,
+} from "libphonenumber-js/core";
+// Full metadata: number-type detection (mobile vs. fixed line) needs it
+import metadata from "libphonenumber-js/metadata.max.json";
+import type { ExtractedPhone, PhoneType } from "./types";
+
+/** Labels printed in front of numbers, most specific first */
+const PHONE_LABELS: [RegExp, PhoneType][] = [
+  [/\b(?:fax|facsimile|f)\s*[:.]?\s*$/i, "fax"],
+  [/\b(?:mobile|mob|cell|cellular|handy|m|c)\s*[:.]?\s*$/i, "mobile"],
+  [/\b(?:tel|telephone|phone|ph|office|direct|dir|main|work|t|p|o|d)\s*[:.]?\s*$/i, "office"],
+];
+
+/** Digit runs that might be a number libphonenumber's strict matcher missed */
+const LOOSE_NUMBER = /\+?\(?\d[\d\s().\-/]{6,}\d/g;
+
+function labelBefore(prefix: string): PhoneType | null {
+  for (const [pattern, type] of PHONE_LABELS) {
+    if (pattern.test(prefix)) return type;
+  }
+  return null;
+}
+
+/**
+ * Find phone numbers line by line, normalize them to E.164 and classify
+ * them as mobile/office/fax from the printed label or the number plan.
+ */
+export function extractPhones(lines: string[], region: CountryCode): ExtractedPhone[] {
+  const phones: ExtractedPhone[] = [];
+  const seen = new Set<string>();
+
+  for (const line of lines) {
+    const found = findPhoneNumbersInText(line, { defaultCountry: region }, metadata);
+    const matches = found.map((f) => ({
+      number: f.number,
+      startsAt: f.startsAt,
+      endsAt: f.endsAt,
+      strict: true,
+    }));
+
+    // OCR noise often breaks strict matching — retry on loose digit runs
+    if (matches.length === 0) {
+      for (const m of line.matchAll(LOOSE_NUMBER)) {
+        const number = parsePhoneNumberFromString(m[0], region, metadata);
+        if (number?.isPossible()) {
+          matches.push({
+            number,
+            startsAt: m.index,
+            endsAt: m.index + m[0].length,
+            strict: false,
+          });
+        }
+      }
+    }
+
+    let segmentStart = 0;
+    for (const match of matches) {
+      const prefix = line.slice(segmentStart, match.startsAt);
+      segmentStart = match.endsAt;
+
+      const e164 = match.number.number;
+      if (seen.has(e164)) continue;
+      seen.add(e164);
+
+      const label = labelBefore(prefix);
+      const planType = match.number.getType();
+      const type: PhoneType =
+        label ?? (planType === "MOBILE" ? "mobile" : "office");
+
+      let confidence = match.strict && match.number.isValid() ? 0.85 : 0.5;
+      if (label) confidence += 0.1;
+
+      phones.push({
+        value: e164,
+        raw: line.slice(match.startsAt, match.endsAt).trim(),
+        type,
+        confidence: Math.min(confidence, 0.99),
+      });
+    }
+  }
+
+  return phones;
+}
+
+/**
+ * Normalize a stored phone number to E.164 for comparison. Falls back to
+ * bare digits when the number can't be parsed for `region`.
+ */
+export function normalizePhone(phone: string, region: CountryCode): string | null {
+  const number = parsePhoneNumberFromString(phone, region, metadata);
+  if (number?.isPossible()) return number.number;
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 7 ? digits : null;
+}
@@ -0,0 +1,52 @@
+import type { CountryCode } from "libphonenumber-js/core";
+
+/** A single extracted value with a 0-1 confidence score */
+export interface ExtractedField<T = string> {
+  value: T;
+  confidence: number;
+}
+
+export type PhoneType = "mobile" | "office" | "fax";
+
+export interface ExtractedPhone extends ExtractedField {
+  /** Normalized E.164 number, e.g. +14155550134 */
+  value: string;
+  /** The number as it appeared on the card */
+  raw: string;
+  type: PhoneType;
+}
+
+export interface ContactExtraction {
+  name: ExtractedField | null;
+  jobTitle: ExtractedField | null;
+  company: ExtractedField | null;
+  emails: ExtractedField[];
+  phones: ExtractedPhone[];
+  website: ExtractedField | null;
+  address: ExtractedField | null;
+}
+
+export interface ExtractOptions {
+  /**
+   * Region used for numbers written without a country code.
+   * Defaults to `DEFAULT_PHONE_REGION`, then "US".
+   */
+  defaultRegion?: CountryCode;
+}
+
+/** Confidence keys stored alongside a lead, one per lead column */
+export type LeadFieldName =
+  | "name"
+  | "job_title"
+  | "company"
+  | "email"
+  | "phone"
+  | "mobile"
+  | "fax"
+  | "website"
+  | "address";
+
+/** Extraction result shaped like a row of the `leads` table */
+export type LeadFields = Record<LeadFieldName, string | null> & {
+  field_confidence: Partial<Record<LeadFieldName, number>>;
+};
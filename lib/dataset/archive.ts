@@ -0,0 +1,98 @@
+import type { Readable } from "stream";
+import { ZipArchive, type Archiver, type ZipEntryData } from "archiver";
+import { getStorage } from "@/lib/storage";
+import { toCoco, toJsonl, type ManifestFormat, type PlacedItem } from "./manifest";
+import type { DatasetItem } from "./query";
+import { SPLITS, assignSplit, type SplitConfig } from "./splits";
+
+export interface DatasetExportOptions {
+  format: ManifestFormat;
+  split: SplitConfig;
+  /** Filter as requested, recorded in dataset.json */
+  filter: Record<string, string>;
+}
+
+/**
+ * Append one entry and wait until the archiver has consumed it. Rejects
+ * if the archiver fails first, so the export ends instead of hanging.
+ */
+export function appendEntry(zip: Archiver, data: Buffer | string, entry: ZipEntryData): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEntry = () => {
+      zip.off("error", onError);
+      resolve();
+    };
+    const onError = (err: Error) => {
+      zip.off("entry", onEntry);
+      reject(err);
+    };
+    zip.once("entry", onEntry);
+    zip.once("error", onError);
+    zip.append(data, entry);
+  });
+}
+
+/**
+ * Stream a dataset zip:
+ *
+ *   images/<split>/<key>        the card images
+ *   manifest.jsonl              (jsonl) one line per image
+ *   annotations/<split>.json    (coco) one instances file per split
+ *   dataset.json                seed, ratios, filter, counts
+ *
+ * Images are read from storage one at a time, so memory stays flat no
+ * matter how large the export. Images missing from storage are left out
+ * of the manifest and listed in dataset.json.
+ */
+export function createDatasetArchive(items: DatasetItem[], options: DatasetExportOptions): Readable {
+  const zip = new ZipArchive({ zlib: { level: 6 } });
+  const storage = getStorage();
+
+  (async () => {
+    const placed: PlacedItem[] = [];
+    const missing: string[] = [];
+
+    for (const item of items) {
+      const object = await storage.get(item.key);
+      if (!object) {
+        missing.push(item.key);
+        continue;
+      }
+      const split = assignSplit(item.key, options.split);
+      const path = `images/${split}/${item.key}`;
+      // Images are already compressed; deflating them again only costs CPU
+      await appendEntry(zip, object.data, { name: path, date: new Date(item.createdAt), store: true });
+      placed.push({ ...item, split, path });
+    }
+
+    if (options.format === "jsonl") {
+      await appendEntry(zip, toJsonl(placed), { name: "manifest.jsonl" });
+    } else {
+      const coco = toCoco(placed, options.split);
+      for (const split of SPLITS) {
+        await appendEntry(zip, JSON.stringify(coco[split], null, 2), {
+          name: `annotations/${split}.json`,
+        });
+      }
+    }
+
+    const counts = Object.fromEntries(
+      SPLITS.map((split) => [split, placed.filter((p) => p.split === split).length])
+    );
+    const summary = {
+      created_at: new Date().toISOString(),
+      format: options.format,
+      split: options.split,
+      filter: options.filter,
+      total: placed.length,
+      counts,
+      labelled: placed.filter((p) => p.lead).length,
+      annotated: placed.filter((p) => p.annotatedAt).length,
+      missing,
+    };
+    await appendEntry(zip, JSON.stringify(summary, null, 2), { name: "dataset.json" });
+    await zip.finalize();
+  })().catch((err) => zip.destroy(err));
+
+  return zip;
+}
@@ -0,0 +1,4 @@
+export { createDatasetArchive, type DatasetExportOptions } from "./archive";
+export type { ManifestFormat } from "./manifest";
+export { datasetFilterFromParams, loadDatasetItems, type DatasetItem } from "./query";
+export { SPLITS, assignSplit, parseSplitRatios, splitConfig, type Split, type SplitConfig } from "./splits";
@@ -0,0 +1,124 @@
+import { ANNOTATION_LABELS } from "@/lib/annotations";
+import { LEAD_FIELDS } from "@/lib/leads";
+import type { DatasetItem } from "./query";
+import { SPLITS, type Split, type SplitConfig } from "./splits";
+
+export type ManifestFormat = "jsonl" | "coco";
+
+/** An item placed in the archive */
+export interface PlacedItem extends DatasetItem {
+  split: Split;
+  /** Path inside the zip, e.g. images/train/3f2a….png */
+  path: string;
+}
+
+/** The linked lead's contact fields, or `null` for an unlabelled image */
+function labels(item: DatasetItem) {
+  const lead = item.lead;
+  return lead ? Object.fromEntries(LEAD_FIELDS.map((field) => [field, lead[field]])) : null;
+}
+
+/** One JSON object per line, one line per image */
+export function toJsonl(items: PlacedItem[]): string {
+  return items
+    .map((item) =>
+      JSON.stringify({
+        file: item.path,
+        split: item.split,
+        capture_id: item.captureId,
+        width: item.width,
+        height: item.height,
+        mime_type: item.mimeType,
+        created_at: item.createdAt,
+        quality: {
+          brightness: item.quality.brightness,
+          laplacian_variance: item.quality.laplacianVariance,
+          clipped_ratio: item.quality.clippedRatio,
+          glare_ratio: item.quality.glareRatio,
+          contrast: item.quality.contrast,
+          coverage: item.quality.coverage,
+          score: item.quality.score,
+        },
+        corners: item.corners,
+        device: item.device,
+        lead_id: item.lead?.id ?? null,
+        lead_status: item.lead?.status ?? null,
+        labels: labels(item),
+        annotated_at: item.annotatedAt,
+        annotations: item.annotations.map((box) => ({
+          label: box.label,
+          bbox: [box.x, box.y, box.width, box.height],
+        })),
+      })
+    )
+    .join("\n") + "\n";
+}
+
+/** COCO category ids: the whole card, then one per field label */
+const CATEGORIES = [
+  { id: 1, name: "business_card", supercategory: "document" },
+  ...ANNOTATION_LABELS.map((label, i) => ({ id: i + 2, name: label, supercategory: "field" })),
+];
+
+const categoryId = (name: string) => CATEGORIES.find((c) => c.name === name)!.id;
+
+/**
+ * COCO-style instances file per split. Images are flattened business
+ * cards, so each gets one full-frame `business_card` annotation whose
+ * `attributes` carry the linked lead's fields, followed by its
+ * hand-drawn field boxes.
+ */
+export function toCoco(items: PlacedItem[], config: SplitConfig): Record<Split, object> {
+  const created = new Date().toISOString();
+  const out = {} as Record<Split, object>;
+  let nextId = 1;
+
+  for (const split of SPLITS) {
+    const subset = items.filter((item) => item.split === split);
+    out[split] = {
+      info: {
+        description: `CaptureCAM business cards (${split})`,
+        date_created: created,
+        split_seed: config.seed,
+      },
+      licenses: [],
+      categories: CATEGORIES,
+      images: subset.map((item) => ({
+        id: item.captureId,
+        file_name: item.path.slice(`images/${split}/`.length),
+        width: item.width,
+        height: item.height,
+        date_captured: item.createdAt,
+        brightness: item.quality.brightness,
+        laplacian_variance: item.quality.laplacianVariance,
+        quality_score: item.quality.score,
+        corners: item.corners,
+      })),
+      annotations: subset.flatMap((item) => {
+        const w = item.width ?? 0;
+        const h = item.height ?? 0;
+        return [
+          {
+            id: nextId++,
+            image_id: item.captureId,
+            category_id: 1,
+            bbox: [0, 0, w, h],
+            area: w * h,
+            iscrowd: 0,
+            lead_id: item.lead?.id ?? null,
+            attributes: labels(item),
+          },
+          ...item.annotations.map((box) => ({
+            id: nextId++,
+            image_id: item.captureId,
+            category_id: categoryId(box.label),
+            bbox: [box.x, box.y, box.width, box.height],
+            area: box.width * box.height,
+            iscrowd: 0,
+          })),
+        ];
+      }),
+    };
+  }
+  return out;
+}
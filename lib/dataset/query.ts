@@ -0,0 +1,176 @@
+import { RowDataPacket } from "mysql2";
+import pool from "@/lib/db";
+import type { AnnotationBox } from "@/lib/annotations";
+import { rowToAnnotation } from "@/lib/annotations/store";
+import type { CardGeometry, DeviceInfo } from "@/lib/captures";
+import type { LeadFieldName } from "@/lib/contact-extract";
+import { LEAD_FIELDS, type LeadStatus } from "@/lib/leads";
+
+/** SQL WHERE clause over `captures c` and its bound parameters */
+export interface DatasetFilter {
+  where: string;
+  params: (string | number)[];
+  /** The filter as given, recorded in the export's dataset.json */
+  applied: Record<string, string>;
+}
+
+export type DatasetFilterResult =
+  | ({ ok: true } & DatasetFilter)
+  | { ok: false; error: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Numeric range parameters and the capture column they bound */
+const RANGES = [
+  ["minBrightness", "c.brightness", ">="],
+  ["maxBrightness", "c.brightness", "<="],
+  ["minSharpness", "c.laplacian_variance", ">="],
+  ["maxSharpness", "c.laplacian_variance", "<="],
+  ["minQuality", "c.quality_score", ">="],
+  ["maxQuality", "c.quality_score", "<="],
+] as const;
+
+/**
+ * Build a dataset filter from query parameters: `from`/`to`
+ * (YYYY-MM-DD, inclusive), `minBrightness`/`maxBrightness` (0-255),
+ * `minSharpness`/`maxSharpness` (Laplacian variance) and
+ * `minQuality`/`maxQuality` (the 0-100 quality score). A quality bound
+ * excludes captures that never recorded that metric.
+ */
+export function datasetFilterFromParams(params: URLSearchParams): DatasetFilterResult {
+  // Trashed captures never go into a dataset
+  const clauses: string[] = ["c.deleted_at IS NULL"];
+  const values: (string | number)[] = [];
+  const applied: Record<string, string> = {};
+
+  for (const [key, op, suffix] of [
+    ["from", ">=", "00:00:00"],
+    ["to", "<=", "23:59:59.999"],
+  ] as const) {
+    const date = params.get(key);
+    if (!date) continue;
+    if (!DATE_RE.test(date)) {
+      return { ok: false, error: `${key} must be a date (YYYY-MM-DD).` };
+    }
+    clauses.push(`c.created_at ${op} ?`);
+    values.push(`${date} ${suffix}`);
+    applied[key] = date;
+  }
+
+  for (const [key, column, op] of RANGES) {
+    const raw = params.get(key);
+    if (!raw) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      return { ok: false, error: `${key} must be a number.` };
+    }
+    clauses.push(`${column} ${op} ?`);
+    values.push(value);
+    applied[key] = raw;
+  }
+
+  return {
+    ok: true,
+    where: clauses.join(" AND "),
+    params: values,
+    applied,
+  };
+}
+
+export interface DatasetItem {
+  captureId: number;
+  key: string;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  byteSize: number;
+  createdAt: string;
+  quality: {
+    brightness: number | null;
+    laplacianVariance: number | null;
+    clippedRatio: number | null;
+    glareRatio: number | null;
+    contrast: number | null;
+    coverage: number | null;
+    score: number | null;
+  };
+  corners: CardGeometry | null;
+  device: DeviceInfo | null;
+  /** Fields of the linked lead, used as labels; `null` when unlabelled */
+  lead: ({ id: number; status: LeadStatus } & Record<LeadFieldName, string | null>) | null;
+  /** Hand-drawn field boxes; empty when not annotated (see annotatedAt) */
+  annotations: AnnotationBox[];
+  annotatedAt: string | null;
+}
+
+function parseJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
+/** Boxes on every capture matching `filter`, keyed by capture id */
+async function loadAnnotationsMatching(filter: DatasetFilter): Promise<Map<number, AnnotationBox[]>> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT a.* FROM annotations a
+     JOIN captures c ON c.id = a.capture_id
+     WHERE ${filter.where}
+     ORDER BY a.capture_id, a.id`,
+    filter.params
+  );
+  const byCapture = new Map<number, AnnotationBox[]>();
+  for (const row of rows) {
+    const { label, x, y, width, height } = rowToAnnotation(row);
+    const list = byCapture.get(row.capture_id) ?? [];
+    list.push({ label, x, y, width, height });
+    byCapture.set(row.capture_id, list);
+  }
+  return byCapture;
+}
+
+/** Captures matching `filter`, oldest first, with their lead labels and boxes */
+export async function loadDatasetItems(filter: DatasetFilter): Promise<DatasetItem[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT c.*, l.status AS lead_status,
+            ${LEAD_FIELDS.map((f) => `l.\`${f}\` AS lead_${f}`).join(", ")}
+     FROM captures c
+     LEFT JOIN leads l ON l.id = c.lead_id
+     WHERE ${filter.where}
+     ORDER BY c.created_at, c.id`,
+    filter.params
+  );
+  const annotations = await loadAnnotationsMatching(filter);
+
+  return rows.map((row) => ({
+    captureId: row.id,
+    key: row.storage_key,
+    mimeType: row.mime_type,
+    width: row.width,
+    height: row.height,
+    byteSize: row.byte_size,
+    createdAt: new Date(row.created_at).toISOString(),
+    quality: {
+      brightness: row.brightness,
+      laplacianVariance: row.laplacian_variance,
+      clippedRatio: row.clipped_ratio ?? null,
+      glareRatio: row.glare_ratio ?? null,
+      contrast: row.contrast ?? null,
+      coverage: row.coverage ?? null,
+      score: row.quality_score ?? null,
+    },
+    corners: parseJson<CardGeometry>(row.corners),
+    device: parseJson<DeviceInfo>(row.device_info),
+    lead:
+      row.lead_id && row.lead_status
+        ? {
+            id: row.lead_id,
+            status: row.lead_status,
+            ...(Object.fromEntries(LEAD_FIELDS.map((f) => [f, row[`lead_${f}`]])) as Record<
+              LeadFieldName,
+              string | null
+            >),
+          }
+        : null,
+    annotations: annotations.get(row.id) ?? [],
+    annotatedAt: row.annotated_at ? new Date(row.annotated_at).toISOString() : null,
+  }));
+}
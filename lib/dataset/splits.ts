@@ -0,0 +1,48 @@
+import { createHash } from "crypto";
+
+export type Split = "train" | "val" | "test";
+
+export const SPLITS: Split[] = ["train", "val", "test"];
+
+export type SplitRatios = Record<Split, number>;
+
+export interface SplitConfig {
+  seed: string;
+  ratios: SplitRatios;
+}
+
+const DEFAULT_SEED = "capturecam";
+const DEFAULT_RATIOS: SplitRatios = { train: 0.8, val: 0.1, test: 0.1 };
+
+/** "0.8,0.1,0.1" → ratios normalized to sum to 1, or `null` if malformed */
+export function parseSplitRatios(spec: string): SplitRatios | null {
+  const parts = spec.split(",").map(Number);
+  if (parts.length !== 3 || parts.some((n) => !Number.isFinite(n) || n < 0)) return null;
+  const sum = parts[0] + parts[1] + parts[2];
+  if (sum <= 0) return null;
+  return { train: parts[0] / sum, val: parts[1] / sum, test: parts[2] / sum };
+}
+
+/**
+ * Split config from `DATASET_SPLIT_SEED` and `DATASET_SPLIT_RATIOS`
+ * (train,val,test — default 0.8,0.1,0.1), with optional overrides.
+ */
+export function splitConfig(overrides: { seed?: string | null; ratios?: string | null } = {}) {
+  const seed = overrides.seed || process.env.DATASET_SPLIT_SEED || DEFAULT_SEED;
+  const spec = overrides.ratios || process.env.DATASET_SPLIT_RATIOS;
+  const ratios = spec ? parseSplitRatios(spec) : DEFAULT_RATIOS;
+  return ratios ? { ok: true as const, config: { seed, ratios } } : { ok: false as const };
+}
+
+/**
+ * Deterministic split for one image: a hash of seed + key mapped onto
+ * the cumulative ratios. An image keeps its split as the dataset grows,
+ * so val/test never leak into a later train set with the same seed.
+ */
+export function assignSplit(key: string, { seed, ratios }: SplitConfig): Split {
+  const digest = createHash("sha256").update(`${seed}:${key}`).digest();
+  const u = digest.readUInt32BE(0) / 0x1_0000_0000;
+  if (u < ratios.train) return "train";
+  if (u < ratios.train + ratios.val) return "val";
+  return "test";
+}
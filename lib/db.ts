@@ -1,4 +1,5 @@
 import mysql from "mysql2/promise";
+import { pendingMigrations } from "@/lib/migrations";
 
 const pool = mysql.createPool({
   host: process.env.DB_HOST,
@@ -11,4 +12,19 @@ const pool = mysql.createPool({
   queueLimit: 0,
 });
 
+/**
+ * Throw unless every file in migrations/ has been applied. Run at server
+ * start (instrumentation.ts) so the app never serves against a schema
+ * older than its code.
+ */
+export async function assertMigrated(): Promise<void> {
+  const pending = await pendingMigrations(pool);
+  if (pending.length > 0) {
+    throw new Error(
+      `${pending.length} pending migration(s): ${pending.map((m) => m.file).join(", ")}. ` +
+        "Run `npm run db:migrate` first."
+    );
+  }
+}
+
 export default pool;
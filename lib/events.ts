@@ -0,0 +1,189 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+
+/** A trade show or campaign that captures and leads are tagged with */
+export interface TradeEvent {
+  id: number;
+  name: string;
+  /** Inclusive dates, YYYY-MM-DD */
+  startsOn: string;
+  endsOn: string;
+  location: string | null;
+  createdBy: number | null;
+  createdAt: string;
+}
+
+export interface EventInput {
+  name: string;
+  startsOn: string;
+  endsOn: string;
+  location: string | null;
+}
+
+export type EventValidation<T> =
+  | { ok: true; event: T }
+  | { ok: false; error: string };
+
+export interface EventSummary {
+  captures: number;
+  annotatedCaptures: number;
+  leads: number;
+  leadsByStatus: { draft: number; active: number };
+  /** One entry per day with any activity, oldest first */
+  days: { date: string; captures: number; leads: number }[];
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// DATE columns come back as local-midnight Dates; format them in SQL instead
+const EVENT_COLUMNS = `id, name, location, created_by, created_at,
+  DATE_FORMAT(starts_on, '%Y-%m-%d') AS starts_on,
+  DATE_FORMAT(ends_on, '%Y-%m-%d') AS ends_on`;
+
+function rowToEvent(row: RowDataPacket): TradeEvent {
+  return {
+    id: row.id,
+    name: row.name,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    location: row.location,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Validate an event payload. With `partial`, every field is optional (for
+ * PATCH); otherwise `name`, `startsOn` and `endsOn` are required.
+ */
+export function validateEventInput(body: unknown, partial: true): EventValidation<Partial<EventInput>>;
+export function validateEventInput(body: unknown, partial?: false): EventValidation<EventInput>;
+export function validateEventInput(
+  body: unknown,
+  partial = false
+): EventValidation<Partial<EventInput>> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, error: "Expected a JSON object." };
+  }
+  const source = body as Record<string, unknown>;
+  const event: Partial<EventInput> = {};
+
+  if (source.name !== undefined) {
+    if (typeof source.name !== "string" || !source.name.trim()) {
+      return { ok: false, error: "name must be a non-empty string." };
+    }
+    event.name = source.name.trim();
+  }
+  for (const key of ["startsOn", "endsOn"] as const) {
+    if (source[key] === undefined) continue;
+    if (typeof source[key] !== "string" || !DATE_RE.test(source[key])) {
+      return { ok: false, error: `${key} must be a date (YYYY-MM-DD).` };
+    }
+    event[key] = source[key];
+  }
+  if (source.location !== undefined) {
+    if (source.location !== null && typeof source.location !== "string") {
+      return { ok: false, error: "location must be a string or null." };
+    }
+    event.location = source.location?.trim() || null;
+  }
+
+  if (!partial && (!event.name || !event.startsOn || !event.endsOn)) {
+    return { ok: false, error: "name, startsOn and endsOn are required." };
+  }
+  if (event.startsOn && event.endsOn && event.endsOn < event.startsOn) {
+    return { ok: false, error: "endsOn must not be before startsOn." };
+  }
+  return { ok: true, event };
+}
+
+/** Every event, most recent first */
+export async function listEvents(): Promise<TradeEvent[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT ${EVENT_COLUMNS} FROM events ORDER BY starts_on DESC, id DESC`
+  );
+  return rows.map(rowToEvent);
+}
+
+export async function getEvent(id: number): Promise<TradeEvent | null> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT ${EVENT_COLUMNS} FROM events WHERE id = ?`,
+    [id]
+  );
+  return rows[0] ? rowToEvent(rows[0]) : null;
+}
+
+export async function createEvent(event: EventInput, createdBy: number): Promise<number> {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "INSERT INTO events (name, starts_on, ends_on, location, created_by) VALUES (?, ?, ?, ?, ?)",
+    [event.name, event.startsOn, event.endsOn, event.location, createdBy]
+  );
+  return result.insertId;
+}
+
+/** Apply a validated partial update; the caller checks the event exists */
+export async function updateEvent(id: number, event: Partial<EventInput>): Promise<void> {
+  const columns = { name: "name", startsOn: "starts_on", endsOn: "ends_on", location: "location" };
+  const changed = (Object.keys(columns) as (keyof EventInput)[]).filter((k) => k in event);
+  if (changed.length === 0) return;
+  await pool.execute(
+    `UPDATE events SET ${changed.map((k) => `${columns[k]} = ?`).join(", ")} WHERE id = ?`,
+    [...changed.map((k) => event[k] ?? null), id]
+  );
+}
+
+/** Capture and lead counts for an event, limited to what `scope` may see */
+export async function eventSummary(id: number, scope: OwnerScope): Promise<EventSummary> {
+  const [[captures]] = await pool.query<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total, COUNT(annotated_at) AS annotated
+     FROM captures WHERE event_id = ? AND front_id IS NULL AND deleted_at IS NULL AND ${scope.where}`,
+    [id, ...scope.params]
+  );
+  const [[leads]] = await pool.query<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total, COALESCE(SUM(status = 'draft'), 0) AS draft
+     FROM leads WHERE event_id = ? AND ${scope.where}`,
+    [id, ...scope.params]
+  );
+  const [days] = await pool.query<RowDataPacket[]>(
+    `SELECT day, SUM(kind = 'capture') AS captures, SUM(kind = 'lead') AS leads
+     FROM (
+       SELECT DATE_FORMAT(created_at, '%Y-%m-%d') AS day, 'capture' AS kind
+       FROM captures WHERE event_id = ? AND front_id IS NULL AND deleted_at IS NULL AND ${scope.where}
+       UNION ALL
+       SELECT DATE_FORMAT(created_at, '%Y-%m-%d') AS day, 'lead' AS kind
+       FROM leads WHERE event_id = ? AND ${scope.where}
+     ) activity
+     GROUP BY day ORDER BY day`,
+    [id, ...scope.params, id, ...scope.params]
+  );
+
+  const total = Number(leads.total);
+  const draft = Number(leads.draft);
+  return {
+    captures: Number(captures.total),
+    annotatedCaptures: Number(captures.annotated),
+    leads: total,
+    leadsByStatus: { draft, active: total - draft },
+    days: days.map((row) => ({
+      date: row.day,
+      captures: Number(row.captures),
+      leads: Number(row.leads),
+    })),
+  };
+}
+
+/**
+ * Resolve an optional event id sent with an upload or lead: absent or
+ * empty means no event, anything else must name an existing event.
+ */
+export async function resolveEventId(
+  value: unknown
+): Promise<{ ok: true; eventId: number | null } | { ok: false; error: string }> {
+  if (value === undefined || value === null || value === "") return { ok: true, eventId: null };
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0 || !(await getEvent(id))) {
+    return { ok: false, error: "Unknown event." };
+  }
+  return { ok: true, eventId: id };
+}
@@ -0,0 +1,177 @@
+/**
+ * Frame analysis for the capture page (browser only).
+ *
+ * Frames are grabbed from the <video> as ImageBitmaps and transferred to a
+ * worker that runs ./pipeline on OffscreenCanvas, so the preview never
+ * waits on pixel work. Browsers without a 2D OffscreenCanvas run the same
+ * pipeline on the main thread. Every result carries stage timings.
+ */
+
+import { scaleQuad } from "@/lib/card-detect";
+import {
+  createFramePipeline,
+  type FrameAnalysis,
+  type FramePipeline,
+  type NormalizedCard,
+} from "./pipeline";
+import type { FrameRequest, FrameResponse } from "./protocol";
+
+export type { CardGeometry, FrameAnalysis, NormalizedCard, StageTimings } from "./pipeline";
+
+/** Live frames are scaled to this width before analysis — plenty for outline and focus */
+const ANALYZE_FRAME_W = 640;
+
+export interface FrameAnalyzer {
+  /** Where frames are processed; falls back to "main" if the worker dies */
+  readonly mode: "worker" | "main";
+  /**
+   * Analyse the current video frame; corners come back in video pixels.
+   * Resolves `null` while the previous frame is still in flight, so slow
+   * devices drop frames instead of queueing them.
+   */
+  analyze(video: HTMLVideoElement, options: { sharpness: boolean }): Promise<FrameAnalysis | null>;
+  /** Flatten the card in the current full-resolution video frame */
+  normalize(video: HTMLVideoElement): Promise<NormalizedCard>;
+  dispose(): void;
+}
+
+function canUseWorker(): boolean {
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") return false;
+  try {
+    return new OffscreenCanvas(1, 1).getContext("2d") !== null;
+  } catch {
+    return false;
+  }
+}
+
+export function createFrameAnalyzer(): FrameAnalyzer {
+  let worker: Worker | null = null;
+  if (canUseWorker()) {
+    try {
+      worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+    } catch (err) {
+      console.error("[frame-analysis] Could not start the worker:", err);
+    }
+  }
+
+  const pending = new Map<
+    number,
+    { resolve: (result: FrameAnalysis | NormalizedCard) => void; reject: (error: Error) => void }
+  >();
+  let nextId = 0;
+  let analyzing = false;
+  let inline: FramePipeline | null = null;
+
+  function mainThreadPipeline(): FramePipeline {
+    inline ??= createFramePipeline({
+      create: (width, height) => {
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+      },
+      toPng: (canvas) =>
+        new Promise((resolve, reject) =>
+          (canvas as HTMLCanvasElement).toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the capture"))),
+            "image/png"
+          )
+        ),
+    });
+    return inline;
+  }
+
+  function stopWorker(reason: string) {
+    worker?.terminate();
+    worker = null;
+    for (const { reject } of pending.values()) reject(new Error(reason));
+    pending.clear();
+  }
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<FrameResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+      if (response.ok) request.resolve(response.result);
+      else request.reject(new Error(response.error));
+    };
+    worker.onerror = (event) => {
+      // Failed to load or crashed — carry on without it
+      console.error("[frame-analysis] Worker failed, using the main thread:", event.message);
+      stopWorker("Frame worker stopped");
+    };
+  }
+
+  /** Hand a frame to the worker; ownership of the bitmap moves with it */
+  function post(request: FrameRequest): Promise<FrameAnalysis | NormalizedCard> {
+    return new Promise((resolve, reject) => {
+      pending.set(request.id, { resolve, reject });
+      worker!.postMessage(request, [request.frame]);
+    });
+  }
+
+  return {
+    get mode() {
+      return worker ? "worker" : "main";
+    },
+
+    async analyze(video, options) {
+      if (analyzing) return null;
+      analyzing = true;
+      const started = performance.now();
+      try {
+        const width = Math.min(ANALYZE_FRAME_W, video.videoWidth);
+        const frame = await createImageBitmap(video, {
+          resizeWidth: width,
+          resizeHeight: Math.round((video.videoHeight / video.videoWidth) * width),
+          resizeQuality: "low",
+        });
+
+        let result: FrameAnalysis;
+        if (worker) {
+          result = (await post({ id: ++nextId, type: "analyze", frame, ...options })) as FrameAnalysis;
+        } else {
+          try {
+            result = mainThreadPipeline().analyze(frame, options);
+          } finally {
+            frame.close();
+          }
+        }
+
+        // Back to video pixels — measured from the bitmap, in case resizing was ignored
+        const scale = video.videoWidth / result.width;
+        return {
+          ...result,
+          quad: result.quad && scaleQuad(result.quad, scale, scale),
+          width: video.videoWidth,
+          height: video.videoHeight,
+          timings: { ...result.timings, roundTrip: performance.now() - started },
+        };
+      } finally {
+        analyzing = false;
+      }
+    },
+
+    async normalize(video) {
+      const started = performance.now();
+      const frame = await createImageBitmap(video);
+      let card: NormalizedCard;
+      if (worker) {
+        card = (await post({ id: ++nextId, type: "normalize", frame })) as NormalizedCard;
+      } else {
+        try {
+          card = await mainThreadPipeline().normalize(frame);
+        } finally {
+          frame.close();
+        }
+      }
+      return { ...card, timings: { ...card.timings, roundTrip: performance.now() - started } };
+    },
+
+    dispose() {
+      stopWorker("Frame analyzer disposed");
+    },
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * The capture page's image pipeline: live-frame analysis (brightness, card
+ * outline, sharpness, glare and contrast) and card normalisation to CARD_OUTPUT_WIDTH ×
+ * CARD_OUTPUT_HEIGHT. Runs in the frame worker on OffscreenCanvas, or on
+ * the main thread on <canvas> where workers can't draw. Canvases and pixel
+ * buffers are kept between frames rather than allocated on every call.
+ */
+
+import {
+  CARD_OUTPUT_HEIGHT,
+  CARD_OUTPUT_WIDTH,
+  detectCardCorners,
+  scaleQuad,
+  toGrayscale,
+  warpPerspective,
+  type Quad,
+} from "@/lib/card-detect";
+import {
+  averageBrightness,
+  BRIGHTNESS_SAMPLE_HEIGHT,
+  BRIGHTNESS_SAMPLE_WIDTH,
+  laplacianVariance,
+  measureExposure,
+  SHARPNESS_SAMPLE_WIDTH,
+  type Exposure,
+  type QualityMetrics,
+} from "@/lib/image/quality";
+
+/** Width of the down-scaled frame used for live card-outline detection */
+const DETECT_SAMPLE_W = 160;
+/** Width of the down-scaled copy used to locate the card at capture time */
+const DETECT_CAPTURE_W = 320;
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/** How the pipeline makes canvases and encodes them, per environment */
+export interface CanvasHost {
+  create(width: number, height: number): AnyCanvas;
+  toPng(canvas: AnyCanvas): Promise<Blob>;
+}
+
+/** Card corners in source-frame pixels, plus the frame they refer to */
+export interface CardGeometry {
+  points: Quad;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/** Milliseconds spent in each stage */
+export type StageTimings = Record<string, number>;
+
+export interface FrameAnalysis {
+  brightness: number;
+  /** Card corners in frame pixels, `null` when no card was found */
+  quad: Quad | null;
+  /** Laplacian variance of the card region, when asked for and a card was found */
+  sharpness: number | null;
+  /** Highlights and contrast of the card region, `null` when no card was found */
+  exposure: Exposure | null;
+  width: number;
+  height: number;
+  timings: StageTimings;
+}
+
+export interface NormalizedCard {
+  /** PNG, CARD_OUTPUT_WIDTH × CARD_OUTPUT_HEIGHT */
+  blob: Blob;
+  /** `null` when no outline was found and the frame was centre-cropped */
+  geometry: CardGeometry | null;
+  /** Quality of the flattened card, measured as the upload route will */
+  quality: Omit<QualityMetrics, "coverage">;
+  timings: StageTimings;
+}
+
+interface Surface {
+  canvas: AnyCanvas;
+  ctx: Context2D;
+}
+
+export interface FramePipeline {
+  analyze(frame: ImageBitmap, options: { sharpness: boolean }): FrameAnalysis;
+  normalize(frame: ImageBitmap): Promise<NormalizedCard>;
+}
+
+export function createFramePipeline(host: CanvasHost): FramePipeline {
+  const surfaces = new Map<string, Surface>();
+  const grays = new Map<string, Float32Array>();
+  let warped: Uint8ClampedArray<ArrayBuffer> | null = null;
+
+  /** The named canvas, resized to `w × h` (which also clears it) */
+  function surface(name: string, w: number, h: number): Surface {
+    let s = surfaces.get(name);
+    if (!s) {
+      const canvas = host.create(w, h);
+      const ctx = canvas.getContext("2d", { willReadFrequently: true }) as Context2D | null;
+      if (!ctx) throw new Error("Canvas context unavailable");
+      s = { canvas, ctx };
+      surfaces.set(name, s);
+    } else if (s.canvas.width !== w || s.canvas.height !== h) {
+      s.canvas.width = w;
+      s.canvas.height = h;
+    }
+    return s;
+  }
+
+  /** Draw `source` (or a crop of it) at `w × h` and return its luminance */
+  function sample(
+    name: string,
+    source: CanvasImageSource,
+    w: number,
+    h: number,
+    crop?: { x: number; y: number; width: number; height: number }
+  ): Float32Array {
+    const { ctx } = surface(name, w, h);
+    if (crop) ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, w, h);
+    else ctx.drawImage(source, 0, 0, w, h);
+    const { data } = ctx.getImageData(0, 0, w, h);
+    let buffer = grays.get(name);
+    if (!buffer || buffer.length < w * h) {
+      buffer = new Float32Array(w * h);
+      grays.set(name, buffer);
+    }
+    return toGrayscale(data, w, h, buffer);
+  }
+
+  /** Look for the card outline in a `width`-wide copy; corners in source pixels */
+  function detect(name: string, frame: ImageBitmap, width: number): Quad | null {
+    const w = width;
+    const h = Math.round((frame.height / frame.width) * w);
+    const quad = detectCardCorners(sample(name, frame, w, h), w, h);
+    return quad && scaleQuad(quad, frame.width / w, frame.height / h);
+  }
+
+  /**
+   * Exposure, and sharpness if asked for, of the card's bounding box,
+   * down-scaled as the capture check does
+   */
+  function measureCard(
+    frame: ImageBitmap,
+    quad: Quad,
+    withSharpness: boolean
+  ): { sharpness: number | null; exposure: Exposure | null } {
+    const xs = quad.map((p) => p.x);
+    const ys = quad.map((p) => p.y);
+    const x = Math.max(0, Math.min(...xs));
+    const y = Math.max(0, Math.min(...ys));
+    const width = Math.min(frame.width, Math.max(...xs)) - x;
+    const height = Math.min(frame.height, Math.max(...ys)) - y;
+    if (width < 1 || height < 1) return { sharpness: withSharpness ? 0 : null, exposure: null };
+
+    const w = SHARPNESS_SAMPLE_WIDTH;
+    const h = Math.max(1, Math.round((height / width) * w));
+    const gray = sample("card", frame, w, h, { x, y, width, height });
+    return {
+      sharpness: withSharpness ? laplacianVariance(gray, w, h) : null,
+      exposure: measureExposure(gray, w, h),
+    };
+  }
+
+  return {
+    analyze(frame, options) {
+      const t0 = performance.now();
+      const brightness = averageBrightness(
+        sample("brightness", frame, BRIGHTNESS_SAMPLE_WIDTH, BRIGHTNESS_SAMPLE_HEIGHT)
+      );
+      const t1 = performance.now();
+      const quad = detect("detect-live", frame, DETECT_SAMPLE_W);
+      const t2 = performance.now();
+      const { sharpness, exposure } = quad
+        ? measureCard(frame, quad, options.sharpness)
+        : { sharpness: null, exposure: null };
+      const t3 = performance.now();
+
+      return {
+        brightness,
+        quad,
+        sharpness,
+        exposure,
+        width: frame.width,
+        height: frame.height,
+        timings: { brightness: t1 - t0, detect: t2 - t1, card: t3 - t2, total: t3 - t0 },
+      };
+    },
+
+    async normalize(frame) {
+      const t0 = performance.now();
+      const quad = detect("detect-capture", frame, DETECT_CAPTURE_W);
+      const t1 = performance.now();
+
+      const output = surface("output", CARD_OUTPUT_WIDTH, CARD_OUTPUT_HEIGHT);
+      if (quad) {
+        // Read the full-resolution frame and warp the card region
+        const source = surface("source", frame.width, frame.height);
+        source.ctx.drawImage(frame, 0, 0);
+        const { data } = source.ctx.getImageData(0, 0, frame.width, frame.height);
+        warped = warpPerspective(
+          data,
+          frame.width,
+          frame.height,
+          quad,
+          CARD_OUTPUT_WIDTH,
+          CARD_OUTPUT_HEIGHT,
+          warped ?? undefined
+        );
+        output.ctx.putImageData(new ImageData(warped, CARD_OUTPUT_WIDTH, CARD_OUTPUT_HEIGHT), 0, 0);
+      } else {
+        // No outline: centre-crop to the card's aspect ratio, never stretch
+        const targetRatio = CARD_OUTPUT_WIDTH / CARD_OUTPUT_HEIGHT;
+        let sw = frame.width;
+        let sh = frame.height;
+        if (sw / sh > targetRatio) sw = sh * targetRatio;
+        else sh = sw / targetRatio;
+        output.ctx.drawImage(
+          frame,
+          (frame.width - sw) / 2,
+          (frame.height - sh) / 2,
+          sw,
+          sh,
+          0,
+          0,
+          CARD_OUTPUT_WIDTH,
+          CARD_OUTPUT_HEIGHT
+        );
+      }
+      const t2 = performance.now();
+
+      const w = SHARPNESS_SAMPLE_WIDTH;
+      const h = Math.round((CARD_OUTPUT_HEIGHT / CARD_OUTPUT_WIDTH) * w);
+      const brightness = averageBrightness(
+        sample("output-brightness", output.canvas, BRIGHTNESS_SAMPLE_WIDTH, BRIGHTNESS_SAMPLE_HEIGHT)
+      );
+      const gray = sample("output-sharpness", output.canvas, w, h);
+      const quality = {
+        brightness,
+        laplacianVariance: laplacianVariance(gray, w, h),
+        ...measureExposure(gray, w, h),
+      };
+      const t3 = performance.now();
+
+      const blob = await host.toPng(output.canvas);
+      const t4 = performance.now();
+
+      return {
+        blob,
+        geometry: quad && { points: quad, sourceWidth: frame.width, sourceHeight: frame.height },
+        quality,
+        timings: { detect: t1 - t0, warp: t2 - t1, quality: t3 - t2, encode: t4 - t3, total: t4 - t0 },
+      };
+    },
+  };
+}
@@ -0,0 +1,11 @@
+/** Messages between the capture page and the frame worker */
+
+import type { FrameAnalysis, NormalizedCard } from "./pipeline";
+
+export type FrameRequest =
+  | { id: number; type: "analyze"; frame: ImageBitmap; sharpness: boolean }
+  | { id: number; type: "normalize"; frame: ImageBitmap };
+
+export type FrameResponse =
+  | { id: number; ok: true; result: FrameAnalysis | NormalizedCard }
+  | { id: number; ok: false; error: string };
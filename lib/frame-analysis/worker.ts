@@ -0,0 +1,30 @@
+/**
+ * Frame worker: runs the capture pipeline off the main thread so the
+ * camera preview stays smooth. Frames arrive as transferred ImageBitmaps
+ * and are closed once used.
+ */
+
+import { createFramePipeline } from "./pipeline";
+import type { FrameRequest, FrameResponse } from "./protocol";
+
+const pipeline = createFramePipeline({
+  create: (width, height) => new OffscreenCanvas(width, height),
+  toPng: (canvas) => (canvas as OffscreenCanvas).convertToBlob({ type: "image/png" }),
+});
+
+self.onmessage = async (event: MessageEvent<FrameRequest>) => {
+  const request = event.data;
+  let response: FrameResponse;
+  try {
+    const result =
+      request.type === "analyze"
+        ? pipeline.analyze(request.frame, { sharpness: request.sharpness })
+        : await pipeline.normalize(request.frame);
+    response = { id: request.id, ok: true, result };
+  } catch (err) {
+    response = { id: request.id, ok: false, error: err instanceof Error ? err.message : String(err) };
+  } finally {
+    request.frame.close();
+  }
+  self.postMessage(response);
+};
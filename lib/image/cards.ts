@@ -0,0 +1,79 @@
+import sharp from "sharp";
+import {
+  CARD_OUTPUT_HEIGHT,
+  CARD_OUTPUT_WIDTH,
+  detectCardCorners,
+  detectSheetCards,
+  scaleQuad,
+  toGrayscale,
+  warpPerspective,
+  type Quad,
+} from "@/lib/card-detect";
+import type { CardGeometry } from "@/lib/captures";
+
+/** Longest side a source is worked on at — a card off an A4 page still gets ~1100 px */
+const WORKING_MAX_SIDE = 4000;
+/** Width of the copy searched for card outlines */
+const ANALYSIS_WIDTH = 800;
+
+export interface ExtractedCard {
+  /** PNG, CARD_OUTPUT_WIDTH × CARD_OUTPUT_HEIGHT */
+  data: Buffer;
+  /** Where the card was found; `null` when the whole image was cropped instead */
+  corners: CardGeometry | null;
+}
+
+/**
+ * Cut the cards out of an already-sanitized photo or scanned sheet and
+ * flatten each to the size the capture page produces. A sheet yields one
+ * card per outline found; a photo with no clear outline is centre-cropped
+ * whole, as the capture page does.
+ */
+export async function extractCards(source: Buffer): Promise<ExtractedCard[]> {
+  const { data, info } = await sharp(source)
+    .rotate()
+    .resize(WORKING_MAX_SIDE, WORKING_MAX_SIDE, { fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const analysisW = Math.min(ANALYSIS_WIDTH, width);
+  const analysisH = Math.max(1, Math.round((height / width) * analysisW));
+  const small = await sharp(data, { raw: { width, height, channels: 4 } })
+    .resize(analysisW, analysisH, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  const gray = toGrayscale(small, analysisW, analysisH);
+
+  let quads: Quad[] = detectSheetCards(gray, analysisW, analysisH);
+  if (quads.length === 0) {
+    const single = detectCardCorners(gray, analysisW, analysisH);
+    if (single) quads = [single];
+  }
+
+  if (quads.length === 0) {
+    const cropped = await sharp(data, { raw: { width, height, channels: 4 } })
+      .resize(CARD_OUTPUT_WIDTH, CARD_OUTPUT_HEIGHT, { fit: "cover" })
+      .png()
+      .toBuffer();
+    return [{ data: cropped, corners: null }];
+  }
+
+  const pixels = new Uint8ClampedArray(data.buffer, data.byteOffset, data.length);
+  const cards: ExtractedCard[] = [];
+  for (const quad of quads) {
+    const points = scaleQuad(quad, width / analysisW, height / analysisH);
+    const warped = warpPerspective(pixels, width, height, points, CARD_OUTPUT_WIDTH, CARD_OUTPUT_HEIGHT);
+    const png = await sharp(Buffer.from(warped.buffer), {
+      raw: { width: CARD_OUTPUT_WIDTH, height: CARD_OUTPUT_HEIGHT, channels: 4 },
+    })
+      .removeAlpha()
+      .png()
+      .toBuffer();
+    cards.push({ data: png, corners: { points, sourceWidth: width, sourceHeight: height } });
+  }
+  return cards;
+}
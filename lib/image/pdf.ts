@@ -0,0 +1,102 @@
+import { inflateSync } from "node:zlib";
+import sharp from "sharp";
+import { MAX_IMAGE_SIDE, MIN_IMAGE_SIDE } from "./sanitize";
+
+/** Most images taken from one PDF */
+export const MAX_PDF_IMAGES = 100;
+
+export interface PdfImages {
+  /** Encoded images (JPEG or PNG), in file order — normally page order */
+  images: Buffer[];
+  /** Image objects in an encoding this reader doesn't handle */
+  skipped: number;
+}
+
+/** Whether `data` starts like a PDF file */
+export function isPdf(data: Buffer): boolean {
+  return data.length >= 5 && data.toString("latin1", 0, 5) === "%PDF-";
+}
+
+/** Number after `/Key` in a dictionary, ignoring indirect references */
+function dictNumber(dict: string, key: string): number | null {
+  const match = dict.match(new RegExp(`/${key}\\s+(\\d+)(?!\\d)(?!\\s+\\d+\\s+R)`));
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Pull the embedded images out of a scanned PDF. Scanners write each page
+ * as one image object, so reading those is enough — nothing is rendered,
+ * and pages drawn as vector text or shapes yield nothing. Handles JPEG
+ * (`DCTDecode`) and unpredicted 8-bit `FlateDecode` grey or RGB images;
+ * soft masks, small images such as logos and everything else are skipped,
+ * as are images over MAX_IMAGE_SIDE.
+ */
+export async function extractPdfImages(pdf: Buffer): Promise<PdfImages> {
+  const text = pdf.toString("latin1");
+  const masks = new Set([...text.matchAll(/\/SMask\s+(\d+)\s+\d+\s+R/g)].map((m) => m[1]));
+
+  const images: Buffer[] = [];
+  let skipped = 0;
+  const objects = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objects.exec(text)) && images.length < MAX_PDF_IMAGES) {
+    const streamAt = text.indexOf("stream", match.index);
+    const endObj = text.indexOf("endobj", match.index);
+    if (streamAt < 0 || (endObj >= 0 && endObj < streamAt)) continue;
+    const dict = text.slice(match.index, streamAt);
+    if (!/\/Subtype\s*\/Image\b/.test(dict) || masks.has(match[1])) continue;
+
+    // Stream data starts after the EOL that follows the keyword
+    let start = streamAt + "stream".length;
+    if (text[start] === "\r") start++;
+    if (text[start] === "\n") start++;
+    const length = dictNumber(dict, "Length");
+    let end = length !== null ? start + length : text.indexOf("endstream", start);
+    if (end < start || end > pdf.length) continue;
+    if (length === null) {
+      while (end > start && (text[end - 1] === "\n" || text[end - 1] === "\r")) end--;
+    }
+    const stream = pdf.subarray(start, end);
+    objects.lastIndex = end;
+
+    const width = dictNumber(dict, "Width") ?? 0;
+    const height = dictNumber(dict, "Height") ?? 0;
+    if (Math.min(width, height) < MIN_IMAGE_SIDE) continue;
+    if (Math.max(width, height) > MAX_IMAGE_SIDE) {
+      skipped++;
+      continue;
+    }
+
+    const filters = [...(dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].matchAll(/\/(\w+)/g) ?? [])]
+      .map((m) => m[1]);
+    try {
+      if (filters.length === 1 && filters[0] === "DCTDecode") {
+        images.push(Buffer.from(stream));
+        continue;
+      }
+      if (
+        filters.length === 1 &&
+        filters[0] === "FlateDecode" &&
+        dictNumber(dict, "BitsPerComponent") === 8 &&
+        (dictNumber(dict, "Predictor") ?? 1) === 1
+      ) {
+        // Capped at RGB size, so a decompression bomb throws instead of filling memory
+        const pixels = inflateSync(stream, { maxOutputLength: width * height * 3 });
+        // Channels from the data itself — covers ICC-based colour spaces too
+        const channels = pixels.length / (width * height);
+        if (channels === 1 || channels === 3) {
+          images.push(
+            await sharp(pixels, { raw: { width, height, channels } }).png().toBuffer()
+          );
+          continue;
+        }
+      }
+    } catch {
+      // Corrupt stream — count it with the unsupported ones
+    }
+    skipped++;
+  }
+
+  return { images, skipped };
+}
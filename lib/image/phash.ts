@@ -0,0 +1,42 @@
+import sharp from "sharp";
+
+/** Bits in a hash; two hashes differ by at most this many */
+export const HASH_BITS = 64;
+
+/**
+ * Difference hash: shrink to 9×8 grayscale and record, for each row,
+ * whether each pixel is brighter than its right neighbour. Survives
+ * re-encoding, resizing and small exposure changes, so two shots of the
+ * same card land a few bits apart. Returned as 16 hex digits.
+ */
+export async function dHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hex = "";
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      const i = row * 9 + col;
+      byte = (byte << 1) | (pixels[i] > pixels[i + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function popCount32(n: number): number {
+  n -= (n >>> 1) & 0x55555555;
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/** Number of differing bits between two hex hashes */
+export function hammingDistance(a: string, b: string): number {
+  const high = parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16);
+  const low = parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16);
+  return popCount32(high) + popCount32(low);
+}
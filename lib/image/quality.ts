@@ -0,0 +1,237 @@
+/**
+ * Image quality measures shared by the capture page and the upload route,
+ * so a shot the camera accepts is measured the same way on the server.
+ * Pure functions over grayscale buffers (see `toGrayscale` in
+ * lib/card-detect) — safe to import from client code.
+ */
+
+/** Average luminance (0-255) below which a capture is too dark to use */
+export const MIN_BRIGHTNESS = 25;
+/** Only reject severely blurry shots. Mild softness is fine for training. */
+export const MIN_LAPLACIAN_VARIANCE = 5;
+/** Luminance at or above which a pixel counts as blown out */
+export const CLIP_LEVEL = 252;
+/** Most of the card that may be blown out — beyond this the shot is overexposed */
+export const MAX_CLIPPED_RATIO = 0.25;
+/** Most of any one glare cell that may be blown out, so a hotspot can't hide a phone number */
+export const MAX_GLARE_RATIO = 0.7;
+/** Lowest luminance standard deviation — below this the print is washed out */
+export const MIN_CONTRAST = 12;
+/** Least of the camera cutout the card must fill */
+export const MIN_CARD_COVERAGE = 0.45;
+
+/** Glare is looked for cell by cell over a grid this size (columns × rows) */
+const GLARE_GRID_COLUMNS = 6;
+const GLARE_GRID_ROWS = 4;
+
+// Levels at which each measure scores full marks in `qualityScore`
+const GOOD_BRIGHTNESS_MIN = 80;
+const GOOD_BRIGHTNESS_MAX = 200;
+const GOOD_LAPLACIAN_VARIANCE = 60;
+const GOOD_CONTRAST = 50;
+const GOOD_CARD_COVERAGE = 0.8;
+
+/** How much each measure counts towards `qualityScore` */
+const SCORE_WEIGHTS = {
+  brightness: 0.1,
+  sharpness: 0.3,
+  clipping: 0.15,
+  glare: 0.2,
+  contrast: 0.15,
+  coverage: 0.1,
+};
+
+/** Width the image is down-scaled to before measuring sharpness */
+export const SHARPNESS_SAMPLE_WIDTH = 160;
+/** Size the image is down-scaled to before measuring brightness */
+export const BRIGHTNESS_SAMPLE_WIDTH = 64;
+export const BRIGHTNESS_SAMPLE_HEIGHT = 48;
+
+/** Mean of a grayscale buffer (0-255) */
+export function averageBrightness(gray: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < gray.length; i++) total += gray[i];
+  return gray.length > 0 ? total / gray.length : 0;
+}
+
+/**
+ * Variance of a 3×3 Laplacian ([0,1,0 / 1,-4,1 / 0,1,0]) over a
+ * grayscale image — low variance means blurry.
+ */
+export function laplacianVariance(gray: ArrayLike<number>, width: number, height: number): number {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const lap =
+        gray[(y - 1) * width + x] +
+        gray[y * width + (x - 1)] +
+        -4 * gray[y * width + x] +
+        gray[y * width + (x + 1)] +
+        gray[(y + 1) * width + x];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+}
+
+/** Highlight clipping and contrast of a grayscale image */
+export interface Exposure {
+  /** Share of pixels at or above CLIP_LEVEL */
+  clippedRatio: number;
+  /** Clipped share of the worst cell in the glare grid */
+  glareRatio: number;
+  /** Standard deviation of luminance (RMS contrast) */
+  contrast: number;
+}
+
+/** Everything measured about a capture */
+export interface QualityMetrics extends Exposure {
+  brightness: number;
+  laplacianVariance: number;
+  /** Share of the camera cutout the card fills; `null` when not known */
+  coverage: number | null;
+}
+
+export type QualityProblem = "dark" | "blurry" | "overexposed" | "glare" | "low-contrast" | "too-far";
+
+const PROBLEM_MESSAGES: Record<QualityProblem, string> = {
+  dark: "Too dark — add light and try again",
+  blurry: "Too blurry — hold your phone steady and try again",
+  overexposed: "Overexposed — move out of direct light and try again",
+  glare: "Glare on the card — tilt it away from the light and try again",
+  "low-contrast": "Washed out — the print is hard to read, try better light",
+  "too-far": "Card too small — move closer so it fills the frame",
+};
+
+/**
+ * Clipped highlights, the worst local glare patch and contrast. Glare is
+ * measured per grid cell because a small hotspot over the phone number
+ * hardly moves the whole-image share.
+ */
+export function measureExposure(gray: ArrayLike<number>, width: number, height: number): Exposure {
+  const cells = new Uint32Array(GLARE_GRID_COLUMNS * GLARE_GRID_ROWS);
+  const cellSizes = new Uint32Array(cells.length);
+  let clipped = 0;
+  let sum = 0;
+  let sumSq = 0;
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(GLARE_GRID_ROWS - 1, Math.floor((y / height) * GLARE_GRID_ROWS));
+    for (let x = 0; x < width; x++) {
+      const cell =
+        row * GLARE_GRID_COLUMNS +
+        Math.min(GLARE_GRID_COLUMNS - 1, Math.floor((x / width) * GLARE_GRID_COLUMNS));
+      const value = gray[y * width + x];
+      cellSizes[cell]++;
+      if (value >= CLIP_LEVEL) {
+        clipped++;
+        cells[cell]++;
+      }
+      sum += value;
+      sumSq += value * value;
+    }
+  }
+
+  const count = width * height;
+  if (count === 0) return { clippedRatio: 0, glareRatio: 0, contrast: 0 };
+  let glareRatio = 0;
+  for (let i = 0; i < cells.length; i++) {
+    if (cellSizes[i] > 0) glareRatio = Math.max(glareRatio, cells[i] / cellSizes[i]);
+  }
+  const mean = sum / count;
+  return {
+    clippedRatio: clipped / count,
+    glareRatio,
+    contrast: Math.sqrt(Math.max(0, sumSq / count - mean * mean)),
+  };
+}
+
+/** The first highlight or contrast check `exposure` fails, if any */
+export function exposureProblem(
+  exposure: Exposure
+): Extract<QualityProblem, "overexposed" | "glare" | "low-contrast"> | null {
+  if (exposure.clippedRatio > MAX_CLIPPED_RATIO) return "overexposed";
+  if (exposure.glareRatio > MAX_GLARE_RATIO) return "glare";
+  if (exposure.contrast < MIN_CONTRAST) return "low-contrast";
+  return null;
+}
+
+/** The first check a capture fails, or `null` if it passes them all */
+export function qualityProblem(metrics: QualityMetrics): QualityProblem | null {
+  if (metrics.brightness < MIN_BRIGHTNESS) return "dark";
+  const exposure = exposureProblem(metrics);
+  if (exposure) return exposure;
+  if (metrics.coverage !== null && metrics.coverage < MIN_CARD_COVERAGE) return "too-far";
+  if (metrics.laplacianVariance < MIN_LAPLACIAN_VARIANCE) return "blurry";
+  return null;
+}
+
+/** Why a capture falls below the quality floor, or `null` if it doesn't */
+export function qualityIssue(metrics: QualityMetrics): string | null {
+  const problem = qualityProblem(metrics);
+  return problem && PROBLEM_MESSAGES[problem];
+}
+
+/** A capture's measures with their combined score, as stored */
+export interface AssessedQuality extends QualityMetrics {
+  qualityScore: number;
+}
+
+/** Pick the measures out of `source` (e.g. a sanitized image) and score them */
+export function assessQuality(
+  source: Omit<QualityMetrics, "coverage">,
+  coverage: number | null
+): AssessedQuality {
+  const metrics: QualityMetrics = {
+    brightness: source.brightness,
+    laplacianVariance: source.laplacianVariance,
+    clippedRatio: source.clippedRatio,
+    glareRatio: source.glareRatio,
+    contrast: source.contrast,
+    coverage,
+  };
+  return { ...metrics, qualityScore: qualityScore(metrics) };
+}
+
+/** `value` mapped from `from`..`to` onto 0..1, clamped */
+function ramp(value: number, from: number, to: number): number {
+  return Math.min(1, Math.max(0, (value - from) / (to - from)));
+}
+
+/**
+ * One 0-100 figure for a capture: each measure scores 0 at its threshold
+ * and 1 at a comfortably good level, then the scores are weighted
+ * together. Coverage counts only when it is known.
+ */
+export function qualityScore(metrics: QualityMetrics): number {
+  const scores: [number, number][] = [
+    [
+      SCORE_WEIGHTS.brightness,
+      Math.min(
+        ramp(metrics.brightness, MIN_BRIGHTNESS, GOOD_BRIGHTNESS_MIN),
+        ramp(metrics.brightness, 255, GOOD_BRIGHTNESS_MAX)
+      ),
+    ],
+    [
+      SCORE_WEIGHTS.sharpness,
+      ramp(metrics.laplacianVariance, MIN_LAPLACIAN_VARIANCE, GOOD_LAPLACIAN_VARIANCE),
+    ],
+    [SCORE_WEIGHTS.clipping, ramp(metrics.clippedRatio, MAX_CLIPPED_RATIO, 0)],
+    [SCORE_WEIGHTS.glare, ramp(metrics.glareRatio, MAX_GLARE_RATIO, 0)],
+    [SCORE_WEIGHTS.contrast, ramp(metrics.contrast, MIN_CONTRAST, GOOD_CONTRAST)],
+  ];
+  if (metrics.coverage !== null) {
+    scores.push([
+      SCORE_WEIGHTS.coverage,
+      ramp(metrics.coverage, MIN_CARD_COVERAGE, GOOD_CARD_COVERAGE),
+    ]);
+  }
+  const weight = scores.reduce((total, [w]) => total + w, 0);
+  const score = scores.reduce((total, [w, s]) => total + w * s, 0) / weight;
+  return Math.round(score * 1000) / 10;
+}
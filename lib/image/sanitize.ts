@@ -0,0 +1,112 @@
+import sharp from "sharp";
+import { toGrayscale } from "@/lib/card-detect";
+import {
+  averageBrightness,
+  BRIGHTNESS_SAMPLE_HEIGHT,
+  BRIGHTNESS_SAMPLE_WIDTH,
+  laplacianVariance,
+  measureExposure,
+  SHARPNESS_SAMPLE_WIDTH,
+  type Exposure,
+} from "./quality";
+import { sniffImageType, type ImageMimeType } from "./sniff";
+
+/** Shortest and longest side accepted, in pixels */
+export const MIN_IMAGE_SIDE = 200;
+export const MAX_IMAGE_SIDE = 8000;
+/** sharp refuses to decode past this, so a tiny file can't expand into gigabytes */
+const MAX_INPUT_PIXELS = MAX_IMAGE_SIDE * MAX_IMAGE_SIDE;
+
+const SHARP_FORMATS: Record<ImageMimeType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpeg",
+  "image/webp": "webp",
+};
+
+export interface SanitizedImage extends Exposure {
+  /** Freshly encoded pixels — no EXIF, GPS, ICC or trailing bytes */
+  data: Buffer;
+  mimeType: ImageMimeType;
+  width: number;
+  height: number;
+  /** Server-side measurements, see lib/image/quality */
+  brightness: number;
+  laplacianVariance: number;
+}
+
+export type SanitizeResult =
+  | { ok: true; image: SanitizedImage }
+  | { ok: false; error: string };
+
+/** Down-scale to RGBA like a canvas `getImageData`, then to luminance */
+async function grayscaleSample(data: Buffer, width: number, height?: number) {
+  const { data: rgba, info } = await sharp(data)
+    .resize(width, height, { fit: "fill" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { gray: toGrayscale(rgba, info.width, info.height), width: info.width, height: info.height };
+}
+
+/** Brightness, sharpness and exposure of an encoded image, measured like the capture page does */
+async function measure(
+  data: Buffer
+): Promise<{ brightness: number; laplacianVariance: number } & Exposure> {
+  const small = await grayscaleSample(data, BRIGHTNESS_SAMPLE_WIDTH, BRIGHTNESS_SAMPLE_HEIGHT);
+  const detail = await grayscaleSample(data, SHARPNESS_SAMPLE_WIDTH);
+  return {
+    brightness: averageBrightness(small.gray),
+    laplacianVariance: laplacianVariance(detail.gray, detail.width, detail.height),
+    ...measureExposure(detail.gray, detail.width, detail.height),
+  };
+}
+
+/**
+ * Verify that uploaded bytes really are a PNG, JPEG or WebP image within
+ * the size limits, then decode and re-encode it in the same format. The
+ * re-encode applies any EXIF rotation and drops everything that isn't
+ * pixels, so metadata and smuggled payloads never reach storage.
+ */
+export async function sanitizeImage(input: Buffer): Promise<SanitizeResult> {
+  const mimeType = sniffImageType(input);
+  if (!mimeType) {
+    return { ok: false, error: "File is not a PNG, JPEG or WebP image." };
+  }
+
+  let data: Buffer;
+  let width: number;
+  let height: number;
+  try {
+    const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS });
+    const metadata = await image.metadata();
+    if (metadata.format !== SHARP_FORMATS[mimeType]) {
+      return { ok: false, error: "Image contents don't match its format." };
+    }
+    const shortest = Math.min(metadata.width, metadata.height);
+    const longest = Math.max(metadata.width, metadata.height);
+    if (shortest < MIN_IMAGE_SIDE || longest > MAX_IMAGE_SIDE) {
+      return {
+        ok: false,
+        error: `Image is ${metadata.width}×${metadata.height} px. Sides must be between ${MIN_IMAGE_SIDE} and ${MAX_IMAGE_SIDE} px.`,
+      };
+    }
+
+    const rotated = image.rotate();
+    const encoded =
+      mimeType === "image/png"
+        ? rotated.png({ compressionLevel: 9 })
+        : mimeType === "image/jpeg"
+          ? rotated.jpeg({ quality: 92 })
+          : rotated.webp({ quality: 92 });
+    const result = await encoded.toBuffer({ resolveWithObject: true });
+    data = result.data;
+    width = result.info.width;
+    height = result.info.height;
+  } catch {
+    return { ok: false, error: "Image could not be decoded." };
+  }
+
+  return { ok: true, image: { data, mimeType, width, height, ...(await measure(data)) } };
+}
@@ -0,0 +1,52 @@
+/**
+ * Read pixel dimensions from PNG, JPEG and WebP headers without decoding
+ * the image. Returns `null` for anything it doesn't recognize.
+ */
+export function imageSize(data: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR is always the first chunk
+  if (
+    data.length >= 24 &&
+    data.readUInt32BE(0) === 0x89504e47 &&
+    data.toString("ascii", 12, 16) === "IHDR"
+  ) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isFrame) {
+        return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with a VP8 / VP8L / VP8X first chunk
+  if (
+    data.length >= 30 &&
+    data.toString("ascii", 0, 4) === "RIFF" &&
+    data.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = data.toString("ascii", 12, 16);
+    if (chunk === "VP8 ") {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  return null;
+}
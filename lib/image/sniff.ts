@@ -0,0 +1,34 @@
+/** Image types accepted for upload, and the extension each is stored with */
+export const IMAGE_EXTENSIONS = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+} as const;
+
+export type ImageMimeType = keyof typeof IMAGE_EXTENSIONS;
+
+/**
+ * Identify PNG, JPEG and WebP data from its leading magic bytes, ignoring
+ * whatever type the client claimed. Returns `null` for anything else —
+ * including SVG and HTML, which must never be stored as images.
+ */
+export function sniffImageType(data: Buffer): ImageMimeType | null {
+  if (
+    data.length >= 8 &&
+    data.readUInt32BE(0) === 0x89504e47 &&
+    data.readUInt32BE(4) === 0x0d0a1a0a
+  ) {
+    return "image/png";
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (
+    data.length >= 12 &&
+    data.toString("ascii", 0, 4) === "RIFF" &&
+    data.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return null;
+}
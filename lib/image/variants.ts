@@ -0,0 +1,86 @@
+import sharp from "sharp";
+import { cacheableUrlForKey, getStorage } from "@/lib/storage";
+
+/**
+ * Widths of the down-scaled copies made of each capture: a gallery tile
+ * and a mid-size view for the lightbox. Originals are CARD_OUTPUT_WIDTH
+ * (1024) wide, so neither is ever enlarged.
+ */
+export const VARIANT_WIDTHS = [320, 768] as const;
+/** Smallest first, as browsers should try them in a `<picture>` */
+export const VARIANT_FORMATS = ["avif", "webp"] as const;
+/** Variants live under this storage prefix, beside the originals */
+export const VARIANT_PREFIX = "variants/";
+
+export type VariantFormat = (typeof VARIANT_FORMATS)[number];
+
+export interface ImageVariant {
+  key: string;
+  format: VariantFormat;
+  width: number;
+  height: number;
+  byteSize: number;
+}
+
+/** A variant as sent to the browser, for a `<source srcset>` */
+export interface VariantSource {
+  url: string;
+  format: VariantFormat;
+  width: number;
+}
+
+const CONTENT_TYPES: Record<VariantFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+};
+
+/** `variants/<key without extension>-<width>.<format>` */
+export function variantKey(key: string, width: number, format: VariantFormat): string {
+  const base = key.replace(/\.[^./]+$/, "");
+  return `${VARIANT_PREFIX}${base}-${width}.${format}`;
+}
+
+function encode(image: sharp.Sharp, format: VariantFormat): sharp.Sharp {
+  // Card text stays legible at these settings; AVIF's effort is kept low
+  // so a two-sided upload is done in well under a second
+  return format === "avif"
+    ? image.avif({ quality: 50, effort: 3 })
+    : image.webp({ quality: 75 });
+}
+
+/**
+ * Make every width × format variant of an image and store them. Returns
+ * what was stored, to be recorded on the capture (see
+ * generateCaptureVariants in lib/captures).
+ */
+export async function createVariants(key: string, data: Buffer): Promise<ImageVariant[]> {
+  const storage = getStorage();
+  const variants: ImageVariant[] = [];
+  for (const width of VARIANT_WIDTHS) {
+    const resized = sharp(data).resize({ width, withoutEnlargement: true });
+    for (const format of VARIANT_FORMATS) {
+      const { data: encoded, info } = await encode(resized.clone(), format).toBuffer({
+        resolveWithObject: true,
+      });
+      const variant: ImageVariant = {
+        key: variantKey(key, width, format),
+        format,
+        width: info.width,
+        height: info.height,
+        byteSize: encoded.length,
+      };
+      await storage.put(variant.key, encoded, CONTENT_TYPES[format]);
+      variants.push(variant);
+    }
+  }
+  return variants;
+}
+
+/** Signed, cacheable URLs for a capture's variants; empty until they are made */
+export function variantSources(variants: ImageVariant[] | null): VariantSource[] {
+  return (variants ?? []).map((v) => ({
+    url: cacheableUrlForKey(v.key),
+    format: v.format,
+    width: v.width,
+  }));
+}
@@ -0,0 +1,235 @@
+/**
+ * RFC 4180 CSV for leads, with a configurable column mapping in both
+ * directions.
+ */
+import type { LeadFieldName } from "@/lib/contact-extract";
+import { LEAD_FIELD_LABELS, LEAD_FIELDS, type Lead } from "./index";
+import type { LeadInput } from "./validation";
+
+export type CsvField = LeadFieldName | "id" | "status" | "image_url" | "created_at";
+
+export interface CsvColumn {
+  field: CsvField;
+  header: string;
+}
+
+const EXTRA_FIELDS: Record<Exclude<CsvField, LeadFieldName>, string> = {
+  id: "ID",
+  status: "Status",
+  image_url: "Image URL",
+  created_at: "Created",
+};
+
+const FIELD_HEADERS: Record<CsvField, string> = { ...LEAD_FIELD_LABELS, ...EXTRA_FIELDS };
+
+export const DEFAULT_CSV_COLUMNS: CsvColumn[] = (
+  ["id", ...LEAD_FIELDS, "status", "created_at"] as CsvField[]
+).map((field) => ({ field, header: FIELD_HEADERS[field] }));
+
+/** Header spellings other tools use, normalized (see `headerKey`) */
+const HEADER_ALIASES: Record<string, LeadFieldName | "image_url"> = {
+  fullname: "name",
+  contactname: "name",
+  title: "job_title",
+  jobtitle: "job_title",
+  position: "job_title",
+  organization: "company",
+  organisation: "company",
+  companyname: "company",
+  emailaddress: "email",
+  mail: "email",
+  telephone: "phone",
+  phonenumber: "phone",
+  workphone: "phone",
+  officephone: "phone",
+  businessphone: "phone",
+  cell: "mobile",
+  cellphone: "mobile",
+  mobilephone: "mobile",
+  faxnumber: "fax",
+  businessfax: "fax",
+  url: "website",
+  web: "website",
+  webpage: "website",
+  businessaddress: "address",
+  imageurl: "image_url",
+};
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Fields a CSV column can be imported into */
+type ImportField = LeadFieldName | "image_url";
+
+/** Normalized field name, label or alias → the field it imports into */
+const IMPORT_FIELDS = new Map<string, ImportField>([
+  ...LEAD_FIELDS.flatMap((field): [string, ImportField][] => [
+    [headerKey(field), field],
+    [headerKey(LEAD_FIELD_LABELS[field]), field],
+  ]),
+  [headerKey("image_url"), "image_url"],
+  ...Object.entries(HEADER_ALIASES),
+]);
+
+/** Header → field to import it into, or `null` to skip the column */
+export type ColumnMapping = Record<string, ImportField | null>;
+
+export type ColumnMappingResult =
+  | { ok: true; mapping: ColumnMapping }
+  | { ok: false; error: string };
+
+/**
+ * Check an import column mapping parsed from JSON: an object whose values
+ * are a lead field (name, label or alias, as for headers) or `null`.
+ */
+export function parseColumnMapping(value: unknown): ColumnMappingResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, error: "mapping must be an object of CSV header → lead field." };
+  }
+  const mapping: ColumnMapping = {};
+  for (const [header, target] of Object.entries(value)) {
+    const field = typeof target === "string" ? IMPORT_FIELDS.get(headerKey(target)) : undefined;
+    if (target !== null && !field) {
+      return {
+        ok: false,
+        error: `mapping['${header}'] must be a lead field or null. Available: ${[...LEAD_FIELDS, "image_url"].join(", ")}`,
+      };
+    }
+    mapping[header] = field ?? null;
+  }
+  return { ok: true, mapping };
+}
+
+export type ColumnSpecResult =
+  | { ok: true; columns: CsvColumn[] }
+  | { ok: false; error: string };
+
+/**
+ * Parse an export column spec: `field` or `field:Header`, comma-separated.
+ * e.g. `name:Full Name,email,company:Organization`
+ */
+export function parseColumnSpec(spec: string): ColumnSpecResult {
+  const columns: CsvColumn[] = [];
+  for (const entry of spec.split(",")) {
+    const [field, ...rest] = entry.split(":");
+    const key = field.trim() as CsvField;
+    if (!(key in FIELD_HEADERS)) {
+      return {
+        ok: false,
+        error: `Unknown column '${field}'. Available: ${Object.keys(FIELD_HEADERS).join(", ")}`,
+      };
+    }
+    columns.push({ field: key, header: rest.join(":").trim() || FIELD_HEADERS[key] });
+  }
+  return { ok: true, columns };
+}
+
+function escapeCell(value: string): string {
+  // Keep spreadsheets from evaluating cells as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^[+-]?\d/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Serialize rows as CSV with CRLF line endings (RFC 4180 §2) */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function leadsToCsv(leads: Lead[], columns: CsvColumn[] = DEFAULT_CSV_COLUMNS): string {
+  const rows = leads.map((lead) =>
+    columns.map(({ field }) => {
+      const value = lead[field];
+      return value === null || value === undefined ? "" : String(value);
+    })
+  );
+  return toCsv([columns.map((c) => c.header), ...rows]);
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted fields with embedded
+ * commas, quotes and line breaks, CRLF or LF endings, and a UTF-8 BOM.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export interface CsvImport {
+  leads: LeadInput[];
+  /** Header → lead field actually used */
+  mapping: Record<string, ImportField>;
+  /** Headers that matched no lead field and were ignored */
+  ignored: string[];
+}
+
+/**
+ * Turn parsed CSV rows (first row = headers) into lead inputs.
+ * `mapping` (see parseColumnMapping) overrides header → field matching,
+ * `null` skipping a column; unmapped headers are matched by field name,
+ * label, or a common alias.
+ */
+export function csvToLeadInputs(rows: string[][], mapping: ColumnMapping = {}): CsvImport {
+  const [headers = [], ...body] = rows;
+
+  const resolved: Record<string, ImportField> = {};
+  const ignored: string[] = [];
+  const fields = headers.map((header) => {
+    const field = Object.prototype.hasOwnProperty.call(mapping, header)
+      ? mapping[header]
+      : IMPORT_FIELDS.get(headerKey(header));
+    if (field) resolved[header] = field;
+    else ignored.push(header);
+    return field;
+  });
+
+  const leads = body.map((cells) => {
+    const lead: LeadInput = {};
+    fields.forEach((field, i) => {
+      const value = cells[i]?.trim();
+      if (field && value && !lead[field]) lead[field] = value;
+    });
+    return lead;
+  });
+
+  return { leads, mapping: resolved, ignored };
+}
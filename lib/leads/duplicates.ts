@@ -0,0 +1,279 @@
+/**
+ * Duplicate-lead scoring: exact matches on normalized email and phone,
+ * plus fuzzy name + company similarity (Jaro-Winkler).
+ */
+import { RowDataPacket } from "mysql2";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+import { defaultPhoneRegion, normalizePhone } from "@/lib/contact-extract";
+import type { LeadInput } from "./validation";
+
+/** Pairs scoring at or above this are reported as duplicates */
+export const DUPLICATE_THRESHOLD = 0.85;
+
+/** The columns duplicate detection looks at */
+export interface DuplicateSubject {
+  id?: number;
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  mobile?: string | null;
+  company?: string | null;
+}
+
+export type DuplicateReason = "email" | "phone" | "name" | "name+company";
+
+export interface DuplicateCandidate {
+  id: number;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicatePair {
+  a: DuplicateCandidate;
+  b: DuplicateCandidate;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+/** Providers where dots in the local part are ignored */
+const DOTLESS_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+const COMPANY_NOISE_RE =
+  /\b(?:inc|llc|ltd|limited|gmbh|corp|corporation|co|company|plc|llp|ag|sa|pvt|private|pty|the)\b\.?/g;
+
+function fold(s: string): string {
+  return s.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/** "Jane.Doe+expo@GoogleMail.com" → "janedoe@gmail.com" */
+export function normalizeEmail(email: string): string {
+  const [local, domain = ""] = email.trim().toLowerCase().split("@");
+  const base = local.split("+")[0];
+  const host = domain === "googlemail.com" ? "gmail.com" : domain;
+  return `${DOTLESS_DOMAINS.has(host) ? base.replace(/\./g, "") : base}@${host}`;
+}
+
+function normalizeName(name: string): string {
+  return fold(name)
+    .replace(/\b(?:dr|mr|mrs|ms|prof)\b\.?/g, "")
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(" ");
+}
+
+function normalizeCompany(company: string): string {
+  return fold(company).replace(COMPANY_NOISE_RE, "").replace(/[^a-z0-9]/g, "");
+}
+
+/** Jaro-Winkler similarity, 0 (different) to 1 (identical) */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const lo = Math.max(0, i - window);
+    const hi = Math.min(b.length - 1, i + window);
+    for (let j = lo; j <= hi; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro =
+    (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/** Name similarity that ignores token order ("Doe Jane" ≈ "Jane Doe") */
+function nameSimilarity(a: string, b: string): number {
+  const direct = jaroWinkler(a, b);
+  const sorted = jaroWinkler(a.split(" ").sort().join(" "), b.split(" ").sort().join(" "));
+  return Math.max(direct, sorted);
+}
+
+interface Normalized {
+  emails: Set<string>;
+  phones: Set<string>;
+  name: string;
+  company: string;
+}
+
+function normalize(subject: DuplicateSubject): Normalized {
+  const region = defaultPhoneRegion();
+  const phones = new Set<string>();
+  for (const phone of [subject.phone, subject.mobile]) {
+    const normalized = phone ? normalizePhone(phone, region) : null;
+    if (normalized) phones.add(normalized);
+  }
+  return {
+    emails: new Set(subject.email ? [normalizeEmail(subject.email)] : []),
+    phones,
+    name: subject.name ? normalizeName(subject.name) : "",
+    company: subject.company ? normalizeCompany(subject.company) : "",
+  };
+}
+
+function scoreNormalized(a: Normalized, b: Normalized): { score: number; reasons: DuplicateReason[] } {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if ([...a.emails].some((e) => b.emails.has(e))) {
+    reasons.push("email");
+    score = 1;
+  }
+  if ([...a.phones].some((p) => b.phones.has(p))) {
+    reasons.push("phone");
+    score = Math.max(score, 0.9);
+  }
+
+  if (a.name && b.name) {
+    const name = nameSimilarity(a.name, b.name);
+    if (a.company && b.company) {
+      const fuzzy = name * 0.6 + jaroWinkler(a.company, b.company) * 0.4;
+      if (fuzzy >= DUPLICATE_THRESHOLD) {
+        reasons.push("name+company");
+        score = Math.max(score, fuzzy);
+      }
+    } else if (name >= 0.97) {
+      // A name alone is weak evidence — never enough on its own
+      reasons.push("name");
+      score = Math.max(score, name * 0.8);
+    }
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/** Score how likely two leads are the same person (0-1) */
+export function scoreDuplicate(
+  a: DuplicateSubject,
+  b: DuplicateSubject
+): { score: number; reasons: DuplicateReason[] } {
+  return scoreNormalized(normalize(a), normalize(b));
+}
+
+/** Keys that put two leads in the same comparison bucket */
+function blockingKeys(n: Normalized): string[] {
+  const keys = [...n.emails].map((e) => `e:${e}`);
+  keys.push(...[...n.phones].map((p) => `p:${p}`));
+  for (const token of n.name.split(" ")) {
+    if (token.length >= 2) keys.push(`n:${token.slice(0, 3)}`);
+  }
+  return keys;
+}
+
+function toCandidate(row: RowDataPacket, score: number, reasons: DuplicateReason[]): DuplicateCandidate {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    company: row.company,
+    score,
+    reasons,
+  };
+}
+
+async function loadSubjects(scope: OwnerScope): Promise<RowDataPacket[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, name, email, phone, mobile, company FROM leads WHERE ${scope.where}`,
+    scope.params
+  );
+  return rows;
+}
+
+/**
+ * Existing leads within `scope` that look like the same person as
+ * `lead`, best first.
+ */
+export async function findDuplicatesOf(
+  lead: LeadInput | DuplicateSubject,
+  scope: OwnerScope,
+  threshold = DUPLICATE_THRESHOLD
+): Promise<DuplicateCandidate[]> {
+  const subject = normalize(lead);
+  const keys = new Set(blockingKeys(subject));
+  const excludeId = "id" in lead ? lead.id : undefined;
+
+  const candidates: DuplicateCandidate[] = [];
+  for (const row of await loadSubjects(scope)) {
+    if (row.id === excludeId) continue;
+    const other = normalize(row as DuplicateSubject);
+    if (!blockingKeys(other).some((k) => keys.has(k))) continue;
+
+    const { score, reasons } = scoreNormalized(subject, other);
+    if (score >= threshold) candidates.push(toCandidate(row, score, reasons));
+  }
+  return candidates.sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Scan every lead within `scope` for duplicate pairs. Leads are only
+ * compared within shared blocks (same email, phone, or name-token
+ * prefix) to stay well below O(n²) on large tables.
+ */
+export async function scanDuplicates(
+  scope: OwnerScope,
+  threshold = DUPLICATE_THRESHOLD
+): Promise<DuplicatePair[]> {
+  const rows = await loadSubjects(scope);
+  const normalized = rows.map((row) => normalize(row as DuplicateSubject));
+
+  const blocks = new Map<string, number[]>();
+  normalized.forEach((n, i) => {
+    for (const key of blockingKeys(n)) {
+      const block = blocks.get(key);
+      if (block) block.push(i);
+      else blocks.set(key, [i]);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [i, j] = [members[x], members[y]];
+        const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const { score, reasons } = scoreNormalized(normalized[i], normalized[j]);
+        if (score < threshold) continue;
+        pairs.push({
+          a: toCandidate(rows[i], score, reasons),
+          b: toCandidate(rows[j], score, reasons),
+          score,
+          reasons,
+        });
+      }
+    }
+  }
+  return pairs.sort((p, q) => q.score - p.score);
+}
@@ -0,0 +1,143 @@
+/** SQL WHERE clause (without the keyword) and its bound parameters */
+export interface LeadFilter {
+  where: string;
+  params: (string | number)[];
+  /** Boolean-mode FULLTEXT query built from `q`, for ranking by relevance */
+  search: string | null;
+}
+
+export type LeadFilterResult =
+  | ({ ok: true } & LeadFilter)
+  | { ok: false; error: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Columns covered by the `ft_leads_search` FULLTEXT index, in index order */
+export const SEARCH_MATCH = "MATCH(name, email, company)";
+/** InnoDB's default innodb_ft_min_token_size; shorter words aren't indexed */
+const MIN_TOKEN_LENGTH = 3;
+const MAX_SEARCH_LENGTH = 200;
+/** InnoDB's default FULLTEXT stopwords — never indexed, so a required one matches nothing */
+const STOPWORDS = new Set([
+  "about", "are", "com", "for", "from", "how", "that", "the", "this", "was", "what",
+  "when", "where", "who", "will", "with", "und", "www",
+]);
+
+/**
+ * Turn free text into a boolean-mode query where every word must match as
+ * a prefix ("jo acme" finds "John" at "Acme Corp"). Words the index
+ * skips — too short, or stopwords like the "com" of an email address —
+ * are returned separately, to be matched with LIKE.
+ */
+function parseSearch(text: string): { fulltext: string | null; unindexed: string[] } {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+  const isIndexed = (w: string) => w.length >= MIN_TOKEN_LENGTH && !STOPWORDS.has(w);
+  const indexed = words.filter(isIndexed);
+  return {
+    fulltext: indexed.length > 0 ? indexed.map((w) => `+${w}*`).join(" ") : null,
+    unindexed: words.filter((w) => !isIndexed(w)),
+  };
+}
+
+/**
+ * Build a lead filter from query parameters: `q` (free text over name,
+ * email and company), `status`, `company`, `email`, `event` (event id),
+ * `createdBy` (user id), `from`/`to` (YYYY-MM-DD, inclusive) and `ids`
+ * (comma-separated).
+ */
+export function leadFilterFromParams(params: URLSearchParams): LeadFilterResult {
+  const clauses: string[] = [];
+  const values: (string | number)[] = [];
+  let search: string | null = null;
+
+  const q = params.get("q")?.trim();
+  if (q) {
+    if (q.length > MAX_SEARCH_LENGTH) {
+      return { ok: false, error: `q must be at most ${MAX_SEARCH_LENGTH} characters.` };
+    }
+    const { fulltext, unindexed } = parseSearch(q);
+    if (fulltext) {
+      clauses.push(`${SEARCH_MATCH} AGAINST (? IN BOOLEAN MODE)`);
+      values.push(fulltext);
+      search = fulltext;
+    }
+    for (const word of unindexed) {
+      clauses.push("(name LIKE ? OR email LIKE ? OR company LIKE ?)");
+      const pattern = `%${word.replace(/_/g, "\\_")}%`;
+      values.push(pattern, pattern, pattern);
+    }
+    // Nothing but punctuation: matches nothing rather than everything
+    if (!fulltext && unindexed.length === 0) clauses.push("1 = 0");
+  }
+
+  const status = params.get("status");
+  if (status) {
+    if (status !== "draft" && status !== "active") {
+      return { ok: false, error: "status must be 'draft' or 'active'." };
+    }
+    clauses.push("status = ?");
+    values.push(status);
+  }
+
+  const company = params.get("company");
+  if (company) {
+    clauses.push("company = ?");
+    values.push(company);
+  }
+
+  const email = params.get("email");
+  if (email) {
+    clauses.push("email = ?");
+    values.push(email);
+  }
+
+  const event = params.get("event");
+  if (event) {
+    const eventId = Number(event);
+    if (!Number.isInteger(eventId) || eventId <= 0) {
+      return { ok: false, error: "event must be an event id." };
+    }
+    clauses.push("event_id = ?");
+    values.push(eventId);
+  }
+
+  const createdBy = params.get("createdBy");
+  if (createdBy) {
+    const userId = Number(createdBy);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return { ok: false, error: "createdBy must be a user id." };
+    }
+    clauses.push("created_by = ?");
+    values.push(userId);
+  }
+
+  for (const [key, op, suffix] of [
+    ["from", ">=", "00:00:00"],
+    ["to", "<=", "23:59:59"],
+  ] as const) {
+    const date = params.get(key);
+    if (!date) continue;
+    if (!DATE_RE.test(date)) {
+      return { ok: false, error: `${key} must be a date (YYYY-MM-DD).` };
+    }
+    clauses.push(`created_at ${op} ?`);
+    values.push(`${date} ${suffix}`);
+  }
+
+  const ids = params.get("ids");
+  if (ids) {
+    const list = ids.split(",").map(Number);
+    if (list.some((id) => !Number.isInteger(id) || id <= 0)) {
+      return { ok: false, error: "ids must be a comma-separated list of lead ids." };
+    }
+    clauses.push(`id IN (${list.map(() => "?").join(", ")})`);
+    values.push(...list);
+  }
+
+  return {
+    ok: true,
+    where: clauses.length > 0 ? clauses.join(" AND ") : "1 = 1",
+    params: values,
+    search,
+  };
+}
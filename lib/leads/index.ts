@@ -0,0 +1,87 @@
+import type { RowDataPacket } from "mysql2";
+import type { LeadFieldName } from "@/lib/contact-extract";
+
+/** Columns a user may edit, in form order */
+export const LEAD_FIELDS: LeadFieldName[] = [
+  "name",
+  "job_title",
+  "company",
+  "email",
+  "phone",
+  "mobile",
+  "fax",
+  "website",
+  "address",
+];
+
+export const LEAD_FIELD_LABELS: Record<LeadFieldName, string> = {
+  name: "Name",
+  job_title: "Job title",
+  company: "Company",
+  email: "Email",
+  phone: "Phone",
+  mobile: "Mobile",
+  fax: "Fax",
+  website: "Website",
+  address: "Address",
+};
+
+export type LeadStatus = "draft" | "active";
+
+/** Extraction scores below this are flagged for review */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface Lead extends Record<LeadFieldName, string | null> {
+  id: number;
+  image_url: string | null;
+  status: LeadStatus;
+  field_confidence: Partial<Record<LeadFieldName, number>>;
+  /** User who captured or entered the lead; `null` for older leads */
+  created_by: number | null;
+  /** Event the card was captured at */
+  event_id: number | null;
+  created_at: string;
+}
+
+export interface LeadEdit {
+  id: number;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  edited_at: string;
+}
+
+/** A lead that was folded into another, as it was just before the merge */
+export interface LeadMerge {
+  id: number;
+  source_id: number;
+  source: Lead;
+  merged_at: string;
+}
+
+/** Normalize a `leads` row (JSON and TIMESTAMP columns) for the API */
+export function rowToLead(row: RowDataPacket): Lead {
+  const confidence =
+    typeof row.field_confidence === "string"
+      ? JSON.parse(row.field_confidence)
+      : row.field_confidence;
+
+  return {
+    id: row.id,
+    name: row.name,
+    job_title: row.job_title,
+    company: row.company,
+    email: row.email,
+    phone: row.phone,
+    mobile: row.mobile,
+    fax: row.fax,
+    website: row.website,
+    address: row.address,
+    image_url: row.image_url,
+    status: row.status,
+    field_confidence: confidence ?? {},
+    created_by: row.created_by ?? null,
+    event_id: row.event_id ?? null,
+    created_at: new Date(row.created_at).toISOString(),
+  };
+}
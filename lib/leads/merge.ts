@@ -0,0 +1,169 @@
+import { RowDataPacket } from "mysql2";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+import type { LeadFieldName } from "@/lib/contact-extract";
+import { queueLeadEvent } from "@/lib/webhooks/events";
+import { wakeWebhookDispatcher } from "@/lib/webhooks/outbox";
+import { LEAD_FIELDS, rowToLead, type Lead } from "./index";
+
+/** Lead columns whose value can be picked from any merged row */
+export type MergeColumn = LeadFieldName | "image_url";
+
+export interface MergeRequest {
+  /** The lead that survives */
+  targetId: number;
+  /** Leads folded into the target and then removed */
+  sourceIds: number[];
+  /** Per column, which of the merged leads supplies the value */
+  choices?: Partial<Record<MergeColumn, number>>;
+  /** Leads the user may see; any outside it count as not found */
+  scope: OwnerScope;
+}
+
+export type MergeResult =
+  | { ok: true; lead: Lead; merged: number[] }
+  | { ok: false; status: number; error: string };
+
+const MERGE_COLUMNS: MergeColumn[] = [...LEAD_FIELDS, "image_url"];
+
+/**
+ * Merge `sourceIds` into `targetId` in one transaction.
+ *
+ * Each column takes the chosen lead's value, else the target's, else the
+ * first non-empty source value. Every card image stays linked through
+ * `lead_images`, edit history and captures move to the target, and each
+ * removed row is snapshotted into `lead_merges`.
+ */
+export async function mergeLeads({
+  targetId,
+  sourceIds,
+  choices = {},
+  scope,
+}: MergeRequest): Promise<MergeResult> {
+  const ids = [targetId, ...sourceIds];
+  if (sourceIds.length === 0 || new Set(ids).size !== ids.length) {
+    return { ok: false, status: 400, error: "Provide a target and at least one other, distinct lead." };
+  }
+  for (const [column, id] of Object.entries(choices)) {
+    if (!MERGE_COLUMNS.includes(column as MergeColumn)) {
+      return { ok: false, status: 400, error: `Unknown column '${column}'.` };
+    }
+    if (!ids.includes(id as number)) {
+      return { ok: false, status: 400, error: `Choice for '${column}' must be one of the merged leads.` };
+    }
+  }
+
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM leads
+       WHERE id IN (${ids.map(() => "?").join(", ")}) AND ${scope.where}
+       FOR UPDATE`,
+      [...ids, ...scope.params]
+    );
+    if (rows.length !== ids.length) {
+      await connection.rollback();
+      const found = new Set(rows.map((r) => r.id));
+      return {
+        ok: false,
+        status: 404,
+        error: `Lead not found: ${ids.filter((id) => !found.has(id)).join(", ")}.`,
+      };
+    }
+
+    const byId = new Map(rows.map((r) => [r.id as number, rowToLead(r)]));
+    const target = byId.get(targetId)!;
+    const sources = sourceIds.map((id) => byId.get(id)!);
+
+    const merged: Partial<Record<MergeColumn, string | null>> = {};
+    const confidence = { ...target.field_confidence };
+    for (const column of MERGE_COLUMNS) {
+      const chosen = choices[column];
+      const donor =
+        chosen !== undefined
+          ? byId.get(chosen)!
+          : target[column]
+            ? target
+            : sources.find((s) => s[column]) ?? target;
+      merged[column] = donor[column];
+      if (column !== "image_url") {
+        const score = donor.field_confidence[column];
+        if (score === undefined) delete confidence[column];
+        else confidence[column] = score;
+      }
+    }
+
+    const status = [target, ...sources].some((l) => l.status === "active") ? "active" : "draft";
+    await connection.execute(
+      `UPDATE leads SET ${MERGE_COLUMNS.map((c) => `\`${c}\` = ?`).join(", ")},
+         status = ?, field_confidence = ?
+       WHERE id = ?`,
+      [...MERGE_COLUMNS.map((c) => merged[c] ?? null), status, JSON.stringify(confidence), targetId]
+    );
+
+    // Keep every card image, including the target's own
+    const sourcePlaceholders = sourceIds.map(() => "?").join(", ");
+    await connection.execute(
+      `UPDATE IGNORE lead_images SET lead_id = ? WHERE lead_id IN (${sourcePlaceholders})`,
+      [targetId, ...sourceIds]
+    );
+    for (const lead of [target, ...sources]) {
+      if (!lead.image_url) continue;
+      await connection.execute(
+        "INSERT IGNORE INTO lead_images (lead_id, image_url) VALUES (?, ?)",
+        [targetId, lead.image_url]
+      );
+    }
+
+    await connection.execute(
+      `UPDATE lead_edits SET lead_id = ? WHERE lead_id IN (${sourcePlaceholders})`,
+      [targetId, ...sourceIds]
+    );
+    await connection.execute(
+      `UPDATE ocr_jobs SET lead_id = ? WHERE lead_id IN (${sourcePlaceholders})`,
+      [targetId, ...sourceIds]
+    );
+    await connection.execute(
+      `UPDATE captures SET lead_id = ? WHERE lead_id IN (${sourcePlaceholders})`,
+      [targetId, ...sourceIds]
+    );
+
+    for (const column of MERGE_COLUMNS) {
+      if ((merged[column] ?? null) === target[column]) continue;
+      await connection.execute(
+        "INSERT INTO lead_edits (lead_id, field, old_value, new_value) VALUES (?, ?, ?, ?)",
+        [targetId, column, target[column], merged[column] ?? null]
+      );
+    }
+
+    for (const source of sources) {
+      await connection.execute(
+        `INSERT INTO lead_merges (target_id, source_id, source_snapshot, choices)
+         VALUES (?, ?, ?, ?)`,
+        [targetId, source.id, JSON.stringify(source), JSON.stringify(choices)]
+      );
+    }
+
+    await connection.execute(
+      `DELETE FROM leads WHERE id IN (${sourcePlaceholders})`,
+      sourceIds
+    );
+
+    const changes: string[] = MERGE_COLUMNS.filter((c) => (merged[c] ?? null) !== target[c]);
+    if (status !== target.status) changes.push("status");
+    await queueLeadEvent("lead.updated", targetId, { db: connection, changes });
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback().catch(() => {});
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  wakeWebhookDispatcher();
+  const [updated] = await pool.query<RowDataPacket[]>("SELECT * FROM leads WHERE id = ?", [targetId]);
+  return { ok: true, lead: rowToLead(updated[0]), merged: sourceIds };
+}
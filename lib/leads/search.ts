@@ -0,0 +1,205 @@
+import { RowDataPacket } from "mysql2";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+import { rowToLead, type Lead } from "./index";
+import { SEARCH_MATCH, type LeadFilter } from "./filters";
+
+export const DEFAULT_LEAD_PAGE_SIZE = 50;
+export const MAX_LEAD_PAGE_SIZE = 200;
+
+export const LEAD_SORTS = ["created_at", "name", "company", "relevance"] as const;
+export type LeadSort = (typeof LEAD_SORTS)[number];
+export type SortOrder = "asc" | "desc";
+
+/** Ordering and page position for `searchLeads` */
+export interface LeadQuery {
+  /** Defaults to relevance when searching, otherwise created_at */
+  sort?: LeadSort;
+  /** Defaults to desc */
+  order?: SortOrder;
+  limit?: number;
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string | null;
+}
+
+export interface LeadPage {
+  leads: Lead[];
+  /** `null` on the last page */
+  nextCursor: string | null;
+  /** Leads matching the filter, across all pages */
+  total: number;
+  /** The ordering applied, with defaults filled in */
+  sort: LeadSort;
+  order: SortOrder;
+}
+
+export type LeadQueryResult =
+  | { ok: true; page: LeadPage }
+  | { ok: false; error: string };
+
+/** Body of a successful GET /api/leads */
+export interface LeadListResponse extends LeadPage {
+  success: true;
+}
+
+/**
+ * Decimal places relevance is rounded to. The cursor must carry the exact
+ * key it compares with, and a raw MATCH score is a float that need not
+ * survive the trip through JSON; a rounded DECIMAL does.
+ */
+const RELEVANCE_DIGITS = 6;
+
+/** Sort key as SQL, with any parameters it binds. Nullable text sorts as "" */
+function sortKey(sort: LeadSort, filter: LeadFilter): { sql: string; params: string[] } {
+  switch (sort) {
+    case "created_at":
+      return { sql: "created_at", params: [] };
+    case "name":
+      return { sql: "COALESCE(name, '')", params: [] };
+    case "company":
+      return { sql: "COALESCE(company, '')", params: [] };
+    case "relevance":
+      return {
+        sql: `ROUND(${SEARCH_MATCH} AGAINST (? IN BOOLEAN MODE), ${RELEVANCE_DIGITS})`,
+        params: [filter.search!],
+      };
+  }
+}
+
+type CursorValue = string | number;
+
+/** Position after the last row of a page: the ordering it belongs to, its sort key and id */
+function encodeCursor(sort: LeadSort, order: SortOrder, value: CursorValue, id: number): string {
+  return Buffer.from(JSON.stringify([sort, order, value, id])).toString("base64url");
+}
+
+/** A row's sort key as the cursor stores it */
+function cursorValue(sort: LeadSort, key: unknown): CursorValue {
+  if (key instanceof Date) return key.getTime();
+  // mysql2 returns DECIMAL as a string, e.g. "1.234568"
+  if (sort === "relevance") return Number(key);
+  return key as string;
+}
+
+function decodeCursor(
+  cursor: string,
+  sort: LeadSort,
+  order: SortOrder
+): { value: CursorValue | Date; id: number } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (!Array.isArray(decoded) || decoded.length !== 4) return null;
+    const [cursorSort, cursorOrder, value, id] = decoded;
+    if (cursorSort !== sort || cursorOrder !== order || !Number.isInteger(id)) return null;
+    if (sort === "created_at" || sort === "relevance") {
+      if (typeof value !== "number" || !Number.isFinite(value)) return null;
+      return { value: sort === "created_at" ? new Date(value) : value, id };
+    }
+    return typeof value === "string" ? { value, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Check `sort`/`order`/`limit` query parameters */
+export function leadQueryFromParams(
+  params: URLSearchParams
+): { ok: true; query: LeadQuery } | { ok: false; error: string } {
+  const sort = params.get("sort");
+  if (sort !== null && !LEAD_SORTS.includes(sort as LeadSort)) {
+    return { ok: false, error: `sort must be one of: ${LEAD_SORTS.join(", ")}.` };
+  }
+  const order = params.get("order");
+  if (order !== null && order !== "asc" && order !== "desc") {
+    return { ok: false, error: "order must be 'asc' or 'desc'." };
+  }
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? undefined : Number(rawLimit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return { ok: false, error: "limit must be a positive integer." };
+  }
+  return {
+    ok: true,
+    query: {
+      sort: (sort as LeadSort | null) ?? undefined,
+      order: order ?? undefined,
+      limit,
+      cursor: params.get("cursor"),
+    },
+  };
+}
+
+/** The sort and order a query resolves to against `filter` */
+function resolveOrdering(
+  filter: LeadFilter,
+  query: LeadQuery
+): { ok: true; sort: LeadSort; order: SortOrder } | { ok: false; error: string } {
+  const sort = query.sort ?? (filter.search ? "relevance" : "created_at");
+  if (sort === "relevance" && !filter.search) {
+    return { ok: false, error: "sort=relevance needs a search (q) of at least 3 characters." };
+  }
+  return { ok: true, sort, order: query.order ?? "desc" };
+}
+
+/**
+ * One page of the leads within `scope` that match `filter`. Keyset
+ * pagination on (sort key, id) keeps pages stable while leads arrive;
+ * a cursor only continues the ordering it was issued for.
+ */
+export async function searchLeads(
+  scope: OwnerScope,
+  filter: LeadFilter,
+  query: LeadQuery = {}
+): Promise<LeadQueryResult> {
+  const ordering = resolveOrdering(filter, query);
+  if (!ordering.ok) return ordering;
+  const { sort, order } = ordering;
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_LEAD_PAGE_SIZE), MAX_LEAD_PAGE_SIZE);
+  const key = sortKey(sort, filter);
+
+  const filterWhere = `${filter.where} AND ${scope.where}`;
+  const filterValues: (string | number | Date)[] = [...filter.params, ...scope.params];
+  let where = filterWhere;
+  const values = [...filterValues];
+
+  if (query.cursor) {
+    const position = decodeCursor(query.cursor, sort, order);
+    if (!position) return { ok: false, error: "Invalid cursor." };
+    const op = order === "desc" ? "<" : ">";
+    where += ` AND (${key.sql} ${op} ? OR (${key.sql} = ? AND id ${op} ?))`;
+    values.push(...key.params, position.value, ...key.params, position.value, position.id);
+  }
+
+  const direction = order === "desc" ? "DESC" : "ASC";
+  // LIMIT is inlined: prepared LIMIT placeholders are unreliable in mysql2
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT *, ${key.sql} AS sort_key FROM leads WHERE ${where}
+     ORDER BY sort_key ${direction}, id ${direction} LIMIT ${limit + 1}`,
+    [...key.params, ...values]
+  );
+  const [[{ total }]] = await pool.query<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total FROM leads WHERE ${filterWhere}`,
+    filterValues
+  );
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const hasMore = rows.length > limit;
+  return {
+    ok: true,
+    page: {
+      leads: page.map(rowToLead),
+      nextCursor: hasMore
+        ? encodeCursor(
+            sort,
+            order,
+            cursorValue(sort, last.sort_key),
+            last.id
+          )
+        : null,
+      total: Number(total),
+      sort,
+      order,
+    },
+  };
+}
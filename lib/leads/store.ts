@@ -0,0 +1,105 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import type { Connection } from "mysql2/promise";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+import { getStorage, imageUrlForKey, keyFromImageUrl, signImageUrl } from "@/lib/storage";
+import { queueLeadEvent } from "@/lib/webhooks/events";
+import { wakeWebhookDispatcher } from "@/lib/webhooks/outbox";
+import { LEAD_FIELDS, type Lead } from "./index";
+import type { LeadInput } from "./validation";
+
+/** Who entered a lead, and at which event */
+export interface LeadOrigin {
+  createdBy: number | null;
+  eventId?: number | null;
+  /** Captures the lead's `image_url` may point at: the creator's `ownerScope` */
+  scope: OwnerScope;
+}
+
+/**
+ * The `image_url` to store for a lead: our own images by canonical URL,
+ * never a signed one, and only when the capture is within `scope` —
+ * otherwise `null`, as a lead's image is served to whoever sees the lead.
+ * Other URLs are kept as given.
+ */
+export async function scopedImageUrl(
+  imageUrl: string | null | undefined,
+  scope: OwnerScope,
+  db: Connection | typeof pool = pool
+): Promise<string | null> {
+  const key = keyFromImageUrl(imageUrl);
+  if (!key) return imageUrl ?? null;
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT 1 FROM captures WHERE storage_key = ? AND ${scope.where}`,
+    [key, ...scope.params]
+  );
+  return rows.length > 0 ? imageUrlForKey(key) : null;
+}
+
+/**
+ * Insert a validated lead and queue lead.created; returns the new id. An
+ * `image_url` outside the creator's captures is dropped (see scopedImageUrl).
+ * Inside a transaction, pass its connection so the event commits with the
+ * lead, and wake the webhook dispatcher after the commit.
+ */
+export async function insertLead(
+  lead: LeadInput,
+  origin: LeadOrigin,
+  options: { db?: Connection } = {}
+): Promise<number> {
+  const db = options.db ?? pool;
+  const columns = [...LEAD_FIELDS, "image_url"] as const;
+  const values = { ...lead, image_url: await scopedImageUrl(lead.image_url, origin.scope, db) };
+  const [result] = await db.execute<ResultSetHeader>(
+    `INSERT INTO leads (${columns.join(", ")}, created_by, event_id)
+     VALUES (${columns.map(() => "?").join(", ")}, ?, ?)`,
+    [...columns.map((c) => values[c] ?? null), origin.createdBy, origin.eventId ?? null]
+  );
+  // The lead is saved either way; a missed webhook is logged, not thrown
+  await queueLeadEvent("lead.created", result.insertId, { db: options.db }).catch((err) =>
+    console.error("[leads] Could not queue webhooks:", err)
+  );
+  return result.insertId;
+}
+
+/**
+ * Insert several validated leads in one transaction — all of them or, if
+ * one fails, none — and return their ids in order.
+ */
+export async function insertLeads(leads: LeadInput[], origin: LeadOrigin): Promise<number[]> {
+  if (leads.length === 0) return [];
+  const connection = await pool.getConnection();
+  const ids: number[] = [];
+  try {
+    await connection.beginTransaction();
+    for (const lead of leads) ids.push(await insertLead(lead, origin, { db: connection }));
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback().catch(() => {});
+    throw error;
+  } finally {
+    connection.release();
+  }
+  wakeWebhookDispatcher();
+  return ids;
+}
+
+/** A lead as sent to the browser: its image behind a signed URL */
+export function withSignedImage<T extends Pick<Lead, "image_url">>(lead: T): T {
+  return { ...lead, image_url: signImageUrl(lead.image_url) };
+}
+
+/**
+ * Read the card image behind a lead's `image_url`, or `null` if it is
+ * missing or not one of our stored images.
+ */
+export async function readLeadImage(
+  imageUrl: string | null
+): Promise<{ mime: string; data: Buffer } | null> {
+  const key = keyFromImageUrl(imageUrl);
+  if (!key) return null;
+
+  const object = await getStorage().get(key);
+  if (!object || !object.contentType.startsWith("image/")) return null;
+  return { mime: object.contentType, data: object.data };
+}
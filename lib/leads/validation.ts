@@ -0,0 +1,38 @@
+import type { LeadFieldName } from "@/lib/contact-extract";
+import { LEAD_FIELDS } from "./index";
+
+/** Fields accepted when creating a lead (POST, import) */
+export type LeadInput = Partial<Record<LeadFieldName, string>> & {
+  image_url?: string;
+};
+
+export type LeadValidation =
+  | { ok: true; lead: LeadInput }
+  | { ok: false; error: string };
+
+/**
+ * Validate a lead payload: every field is an optional string, and at least
+ * one of name, email, or phone is required. Blank strings count as absent.
+ */
+export function validateLeadInput(body: unknown): LeadValidation {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, error: "Expected a JSON object." };
+  }
+
+  const source = body as Record<string, unknown>;
+  const lead: LeadInput = {};
+  for (const field of [...LEAD_FIELDS, "image_url"] as const) {
+    const value = source[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "string") {
+      return { ok: false, error: `Field '${field}' must be a string.` };
+    }
+    const trimmed = value.trim();
+    if (trimmed) lead[field] = trimmed;
+  }
+
+  if (!lead.name && !lead.email && !lead.phone) {
+    return { ok: false, error: "At least one of name, email, or phone is required." };
+  }
+  return { ok: true, lead };
+}
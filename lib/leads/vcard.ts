@@ -0,0 +1,197 @@
+/**
+ * vCard 4.0 (RFC 6350) serialization for leads, plus a tolerant parser
+ * that also reads the 3.0/2.1 cards phones commonly export.
+ */
+import type { Lead } from "./index";
+import type { LeadInput } from "./validation";
+
+const CRLF = "\r\n";
+/** RFC 6350 §3.2: lines SHOULD NOT be longer than 75 octets */
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r\n|\r|\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+}
+
+/** A quoted parameter value, RFC 6868 style: ^ → ^^, newline → ^n, " → ^' */
+function escapeParam(value: string): string {
+  return value.replace(/\^/g, "^^").replace(/\r\n|\r|\n/g, "^n").replace(/"/g, "^'");
+}
+
+/** URI values aren't backslash-escaped, so only line breaks need taking out */
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+/** Fold a content line at 75 octets without splitting a UTF-8 sequence */
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = out.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      out.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  out.push(current);
+  return out.join(`${CRLF} `);
+}
+
+function splitName(name: string): { family: string; given: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return { family: "", given: parts[0] };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(" ") };
+}
+
+/**
+ * Serialize one lead. `photo` is embedded as a data: URI PHOTO property.
+ */
+export function leadToVCard(lead: Lead, photo?: { mime: string; data: Buffer } | null): string {
+  const lines = ["BEGIN:VCARD", "VERSION:4.0"];
+
+  const fn = lead.name || lead.email || lead.company || `Lead ${lead.id}`;
+  lines.push(`FN:${escapeText(fn)}`);
+  if (lead.name) {
+    const { family, given } = splitName(lead.name);
+    lines.push(`N:${escapeText(family)};${escapeText(given)};;;`);
+  }
+  if (lead.company) lines.push(`ORG:${escapeText(lead.company)}`);
+  if (lead.job_title) lines.push(`TITLE:${escapeText(lead.job_title)}`);
+  if (lead.email) lines.push(`EMAIL;TYPE=work:${escapeText(lead.email)}`);
+  if (lead.phone) lines.push(`TEL;VALUE=uri;TYPE="work,voice":tel:${singleLine(lead.phone)}`);
+  if (lead.mobile) lines.push(`TEL;VALUE=uri;TYPE="cell,voice":tel:${singleLine(lead.mobile)}`);
+  if (lead.fax) lines.push(`TEL;VALUE=uri;TYPE="work,fax":tel:${singleLine(lead.fax)}`);
+  if (lead.website) lines.push(`URL:${singleLine(lead.website)}`);
+  if (lead.address) {
+    lines.push(`ADR;TYPE=work;LABEL="${escapeParam(lead.address)}":;;${escapeText(lead.address)};;;;`);
+  }
+  if (photo) lines.push(`PHOTO:data:${photo.mime};base64,${photo.data.toString("base64")}`);
+  lines.push(`REV:${lead.created_at.replace(/[-:]/g, "").replace(/\.\d+/, "")}`);
+  lines.push("END:VCARD");
+
+  return lines.map(fold).join(CRLF) + CRLF;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // Find the first ':' outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(";");
+  const name = rawName.replace(/^[^.]*\./, "").toUpperCase(); // drop "item1." groups
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    // vCard 2.1 bare types: "TEL;CELL:…"
+    const key = eq < 0 ? "TYPE" : param.slice(0, eq).toUpperCase();
+    const value = eq < 0 ? param : param.slice(eq + 1).replace(/^"|"$/g, "");
+    params[key] = [...(params[key] ?? []), ...value.toLowerCase().split(",")];
+  }
+  return { name, params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse every card in a .vcf file into lead inputs (unvalidated).
+ */
+export function parseVCards(text: string): LeadInput[] {
+  const unfolded = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "");
+  const leads: LeadInput[] = [];
+  let current: LeadInput | null = null;
+
+  for (const raw of unfolded.split("\n")) {
+    const line = parseContentLine(raw.trim());
+    if (!line) continue;
+
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VCARD") {
+      current = {};
+      continue;
+    }
+    if (!current) continue;
+    if (line.name === "END") {
+      leads.push(current);
+      current = null;
+      continue;
+    }
+
+    const value = unescapeText(line.value).trim();
+    if (!value) continue;
+    const types = line.params.TYPE ?? [];
+
+    switch (line.name) {
+      case "FN":
+        current.name = value;
+        break;
+      case "N":
+        if (!current.name) {
+          const [family, given] = line.value.split(";").map(unescapeText);
+          const name = [given, family].filter(Boolean).join(" ").trim();
+          if (name) current.name = name;
+        }
+        break;
+      case "ORG":
+        current.company = unescapeText(line.value.split(";")[0]).trim() || undefined;
+        break;
+      case "TITLE":
+        current.job_title = value;
+        break;
+      case "EMAIL":
+        current.email ??= value;
+        break;
+      case "TEL": {
+        const number = value.replace(/^tel:/i, "");
+        if (types.includes("fax")) current.fax ??= number;
+        else if (types.includes("cell") || types.includes("mobile")) current.mobile ??= number;
+        else current.phone ??= number;
+        break;
+      }
+      case "URL":
+        current.website ??= value;
+        break;
+      case "ADR": {
+        // pobox;ext;street;locality;region;code;country
+        const address = line.value
+          .split(";")
+          .map((part) => unescapeText(part).replace(/\n/g, ", ").trim())
+          .filter(Boolean)
+          .join(", ");
+        if (address) current.address ??= address;
+        break;
+      }
+    }
+  }
+
+  // Cards with only a mobile number still have a phone
+  for (const lead of leads) {
+    if (!lead.phone && lead.mobile) lead.phone = lead.mobile;
+  }
+  return leads;
+}
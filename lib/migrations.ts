@@ -0,0 +1,253 @@
+import { createHash } from "crypto";
+import { readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { RowDataPacket } from "mysql2";
+import type { Connection, Pool } from "mysql2/promise";
+
+/**
+ * Schema migrations: ordered SQL files in migrations/, named
+ * `NNNN_description.sql`, each with an up and a down section:
+ *
+ *   -- migrate:up
+ *   ALTER TABLE leads ADD COLUMN notes TEXT;
+ *
+ *   -- migrate:down
+ *   ALTER TABLE leads DROP COLUMN notes;
+ *
+ * Applied versions are recorded in `schema_migrations`. MySQL commits DDL
+ * immediately, so a migration that fails halfway is not rolled back —
+ * keep each file small and check the database by hand if one fails.
+ */
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), "migrations");
+
+const FILE_RE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+const UP_MARKER = /^--\s*migrate:up\s*$/m;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+
+/** Serialises concurrent `migrate`/`rollback` runs against one database */
+const LOCK_NAME = "schema_migrations";
+const LOCK_TIMEOUT_S = 10;
+
+export interface Migration {
+  /** Zero-padded sequence number, e.g. "0003" */
+  version: string;
+  name: string;
+  file: string;
+  up: string;
+  down: string;
+  /** sha256 of the file, to spot migrations edited after they ran */
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+}
+
+export type MigrationState =
+  | "applied"
+  | "pending"
+  /** Applied, but the file has changed since */
+  | "changed"
+  /** Recorded as applied, but no file has that version */
+  | "missing";
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt: string | null;
+}
+
+/** Anything that can run a query: the app's pool or a script's connection */
+type Queryable = Pick<Pool, "query"> | Pick<Connection, "query">;
+
+/** A section's SQL, or "" when it holds only comments (MySQL rejects an empty query) */
+function sectionSql(section: string): string {
+  const sql = section.trim();
+  return sql.split("\n").every((line) => !line.trim() || line.trim().startsWith("--")) ? "" : sql;
+}
+
+function parseMigration(file: string, source: string): Migration {
+  const match = file.match(FILE_RE)!;
+  const up = source.search(UP_MARKER);
+  const down = source.search(DOWN_MARKER);
+  if (up === -1 || down === -1 || down < up) {
+    throw new Error(`${file}: expected '-- migrate:up' followed by '-- migrate:down'`);
+  }
+  return {
+    version: match[1],
+    name: match[2],
+    file,
+    up: sectionSql(source.slice(up, down).replace(UP_MARKER, "")),
+    down: sectionSql(source.slice(down).replace(DOWN_MARKER, "")),
+    checksum: createHash("sha256").update(source).digest("hex"),
+  };
+}
+
+/** Every migration file, oldest first */
+export async function loadMigrations(dir = MIGRATIONS_DIR): Promise<Migration[]> {
+  const files = (await readdir(dir)).filter((file) => file.endsWith(".sql")).sort();
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    if (!FILE_RE.test(file)) {
+      throw new Error(`${file}: migration files must be named NNNN_description.sql`);
+    }
+    migrations.push(parseMigration(file, await readFile(path.join(dir, file), "utf8")));
+  }
+
+  const versions = new Set<string>();
+  for (const { version, file } of migrations) {
+    if (versions.has(version)) throw new Error(`${file}: version ${version} is used twice`);
+    versions.add(version);
+  }
+  return migrations;
+}
+
+async function ensureMigrationsTable(db: Queryable): Promise<void> {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version     VARCHAR(16) PRIMARY KEY,
+      name        VARCHAR(255) NOT NULL,
+      checksum    CHAR(64) NOT NULL,
+      applied_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/** Versions recorded in `schema_migrations`; empty before the first migrate */
+export async function appliedMigrations(db: Queryable): Promise<AppliedMigration[]> {
+  try {
+    const [rows] = await db.query<RowDataPacket[]>(
+      "SELECT * FROM schema_migrations ORDER BY version"
+    );
+    return rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: new Date(row.applied_at).toISOString(),
+    }));
+  } catch (error) {
+    if ((error as { code?: string }).code === "ER_NO_SUCH_TABLE") return [];
+    throw error;
+  }
+}
+
+/** Files whose version has not been applied, oldest first */
+export async function pendingMigrations(db: Queryable): Promise<Migration[]> {
+  const applied = new Set((await appliedMigrations(db)).map((m) => m.version));
+  return (await loadMigrations()).filter((m) => !applied.has(m.version));
+}
+
+/** Every known version, from files and the database, oldest first */
+export async function migrationStatus(db: Queryable): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations();
+  const applied = new Map((await appliedMigrations(db)).map((m) => [m.version, m]));
+
+  const status: MigrationStatus[] = migrations.map((m) => {
+    const record = applied.get(m.version);
+    return {
+      version: m.version,
+      name: m.name,
+      state: !record ? "pending" : record.checksum === m.checksum ? "applied" : "changed",
+      appliedAt: record?.appliedAt ?? null,
+    };
+  });
+  for (const record of applied.values()) {
+    if (!migrations.some((m) => m.version === record.version)) {
+      status.push({
+        version: record.version,
+        name: record.name,
+        state: "missing",
+        appliedAt: record.appliedAt,
+      });
+    }
+  }
+  return status.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+async function withLock<T>(connection: Connection, fn: () => Promise<T>): Promise<T> {
+  const [[{ locked }]] = await connection.query<RowDataPacket[]>(
+    "SELECT GET_LOCK(?, ?) AS locked",
+    [LOCK_NAME, LOCK_TIMEOUT_S]
+  );
+  if (locked !== 1) throw new Error("Another migration run holds the lock; try again shortly.");
+  try {
+    return await fn();
+  } finally {
+    await connection.query("SELECT RELEASE_LOCK(?)", [LOCK_NAME]);
+  }
+}
+
+/**
+ * Apply every pending migration in order. `connection` must have been
+ * opened with `multipleStatements: true`. Returns what was applied.
+ */
+export async function migrate(
+  connection: Connection,
+  onApply?: (migration: Migration) => void
+): Promise<Migration[]> {
+  await ensureMigrationsTable(connection);
+  return withLock(connection, async () => {
+    const pending = await pendingMigrations(connection);
+    for (const migration of pending) {
+      onApply?.(migration);
+      if (migration.up) await connection.query(migration.up);
+      await connection.execute(
+        "INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)",
+        [migration.version, migration.name, migration.checksum]
+      );
+    }
+    return pending;
+  });
+}
+
+/**
+ * Undo the last `steps` applied migrations, newest first, using their
+ * down sections. Returns what was rolled back.
+ */
+export async function rollback(
+  connection: Connection,
+  steps = 1,
+  onRevert?: (migration: Migration) => void
+): Promise<Migration[]> {
+  await ensureMigrationsTable(connection);
+  return withLock(connection, async () => {
+    const files = new Map((await loadMigrations()).map((m) => [m.version, m]));
+    const targets = (await appliedMigrations(connection)).reverse().slice(0, steps);
+
+    const reverted: Migration[] = [];
+    for (const record of targets) {
+      const migration = files.get(record.version);
+      if (!migration) {
+        throw new Error(`Can't roll back ${record.version}_${record.name}: its file is missing.`);
+      }
+      onRevert?.(migration);
+      if (migration.down) await connection.query(migration.down);
+      await connection.execute("DELETE FROM schema_migrations WHERE version = ?", [
+        migration.version,
+      ]);
+      reverted.push(migration);
+    }
+    return reverted;
+  });
+}
+
+/** Write an empty migration after the newest one; returns its path */
+export async function createMigration(description: string, dir = MIGRATIONS_DIR): Promise<string> {
+  const name = description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  if (!name) throw new Error("Migration name must contain letters or digits.");
+
+  const migrations = await loadMigrations(dir);
+  const last = migrations.length > 0 ? Number(migrations[migrations.length - 1].version) : 0;
+  const file = `${String(last + 1).padStart(4, "0")}_${name}.sql`;
+  const target = path.join(dir, file);
+  await writeFile(target, "-- migrate:up\n\n\n-- migrate:down\n\n", { flag: "wx" });
+  return target;
+}
@@ -0,0 +1,25 @@
+import { createTesseractEngine } from "./tesseract";
+import type { OcrEngine } from "./types";
+
+export type { OcrBox, OcrEngine, OcrLine, OcrResult } from "./types";
+
+const ENGINES: Record<string, () => OcrEngine> = {
+  tesseract: createTesseractEngine,
+};
+
+let engine: OcrEngine | null = null;
+
+/**
+ * The OCR engine selected by `OCR_ENGINE` (default: tesseract).
+ */
+export function getOcrEngine(): OcrEngine {
+  if (!engine) {
+    const name = process.env.OCR_ENGINE || "tesseract";
+    const factory = ENGINES[name];
+    if (!factory) {
+      throw new Error(`Unknown OCR_ENGINE '${name}'. Available: ${Object.keys(ENGINES).join(", ")}`);
+    }
+    engine = factory();
+  }
+  return engine;
+}
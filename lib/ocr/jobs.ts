@@ -0,0 +1,168 @@
+import { v4 as uuidv4 } from "uuid";
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import type { OwnerScope } from "@/lib/auth";
+import pool from "@/lib/db";
+import { linkCaptureToLead } from "@/lib/captures";
+import { extractContact, toLeadFields } from "@/lib/contact-extract";
+import { keyFromImageUrl } from "@/lib/storage";
+import { queueLeadEvent } from "@/lib/webhooks/events";
+import { getOcrEngine } from "./index";
+import type { OcrLine } from "./types";
+
+export type OcrJobStatus = "pending" | "running" | "done" | "failed";
+
+export interface OcrJob {
+  id: string;
+  imageUrl: string;
+  /** The card's back, for double-sided captures */
+  backImageUrl: string | null;
+  status: OcrJobStatus;
+  engine: string | null;
+  /** Both sides' text, front first */
+  text: string | null;
+  confidence: number | null;
+  lines: OcrLine[];
+  /** Lines read from the back, boxed in the back image's pixels */
+  backLines: OcrLine[];
+  leadId: number | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Uploader and event of an OCR job, passed on to the lead it creates */
+export interface OcrJobOrigin {
+  createdBy: number | null;
+  eventId: number | null;
+  /** Back of a double-sided card, read along with the front */
+  backImageUrl?: string | null;
+}
+
+/** Queue an OCR job for an uploaded image; returns the job id */
+export async function createOcrJob(imageUrl: string, origin: OcrJobOrigin): Promise<string> {
+  const id = uuidv4();
+  await pool.execute(
+    `INSERT INTO ocr_jobs (id, image_url, back_image_url, status, created_by, event_id)
+     VALUES (?, ?, ?, 'pending', ?, ?)`,
+    [id, imageUrl, origin.backImageUrl ?? null, origin.createdBy, origin.eventId]
+  );
+  return id;
+}
+
+/**
+ * Recognize the image — and its back, if given — store the raw text with
+ * per-line boxes, and create a draft lead pre-filled from the contact
+ * fields extracted from both sides, pointing at the same `image_url`.
+ * Never throws — failures are recorded on the job row.
+ */
+export async function runOcrJob(id: string, image: Buffer, back?: Buffer | null): Promise<void> {
+  try {
+    const engine = getOcrEngine();
+    await pool.execute(
+      "UPDATE ocr_jobs SET status = 'running', engine = ? WHERE id = ?",
+      [engine.name, id]
+    );
+
+    const front = await engine.recognize(image);
+    const reverse = back ? await engine.recognize(back) : null;
+    // Front first, so its name and company win where both sides have one
+    const text = reverse ? `${front.text}\n\n${reverse.text}` : front.text;
+    const confidence = reverse ? (front.confidence + reverse.confidence) / 2 : front.confidence;
+
+    const [[job]] = await pool.query<RowDataPacket[]>(
+      "SELECT image_url, back_image_url, created_by, event_id FROM ocr_jobs WHERE id = ?",
+      [id]
+    );
+    // The capture was discarded while it was being read
+    if (!job) return;
+
+    const fields = toLeadFields(extractContact(text));
+    const [lead] = await pool.execute<ResultSetHeader>(
+      `INSERT INTO leads
+         (name, email, phone, company, job_title, mobile, fax, website, address,
+          image_url, status, field_confidence, created_by, event_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?)`,
+      [
+        fields.name,
+        fields.email,
+        fields.phone,
+        fields.company,
+        fields.job_title,
+        fields.mobile,
+        fields.fax,
+        fields.website,
+        fields.address,
+        job.image_url,
+        JSON.stringify(fields.field_confidence),
+        job.created_by,
+        job.event_id,
+      ]
+    );
+
+    await pool.execute(
+      `UPDATE ocr_jobs
+       SET status = 'done', raw_text = ?, ocr_lines = ?, back_ocr_lines = ?, confidence = ?,
+           lead_id = ?
+       WHERE id = ?`,
+      [
+        text,
+        JSON.stringify(front.lines),
+        reverse ? JSON.stringify(reverse.lines) : null,
+        confidence,
+        lead.insertId,
+        id,
+      ]
+    );
+
+    const key = keyFromImageUrl(job.image_url);
+    if (key) await linkCaptureToLead(key, lead.insertId);
+    if (job.back_image_url) {
+      await pool.execute("INSERT IGNORE INTO lead_images (lead_id, image_url) VALUES (?, ?)", [
+        lead.insertId,
+        job.back_image_url,
+      ]);
+      const backKey = keyFromImageUrl(job.back_image_url);
+      if (backKey) await linkCaptureToLead(backKey, lead.insertId);
+    }
+
+    await queueLeadEvent("lead.created", lead.insertId).catch((err) =>
+      console.error("[ocr] Could not queue webhooks:", id, err)
+    );
+  } catch (error: unknown) {
+    console.error("[ocr] Job failed:", id, error);
+    const message = error instanceof Error ? error.message : "Unknown OCR error";
+    await pool
+      .execute("UPDATE ocr_jobs SET status = 'failed', error = ? WHERE id = ?", [message, id])
+      .catch((err) => console.error("[ocr] Could not record failure:", id, err));
+  }
+}
+
+/** Load a job by id, or `null` if it doesn't exist or is outside `scope` */
+export async function getOcrJob(id: string, scope: OwnerScope): Promise<OcrJob | null> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM ocr_jobs WHERE id = ? AND ${scope.where}`,
+    [id, ...scope.params]
+  );
+  const row = rows[0];
+  if (!row) return null;
+
+  // mysql2 already parses JSON columns
+  const parseLines = (value: unknown): OcrLine[] =>
+    (typeof value === "string" ? JSON.parse(value) : value) ?? [];
+
+  return {
+    id: row.id,
+    imageUrl: row.image_url,
+    backImageUrl: row.back_image_url ?? null,
+    status: row.status,
+    engine: row.engine,
+    text: row.raw_text,
+    confidence: row.confidence,
+    lines: parseLines(row.ocr_lines),
+    backLines: parseLines(row.back_ocr_lines),
+    leadId: row.lead_id,
+    error: row.error,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
@@ -0,0 +1,53 @@
+import os from "os";
+import { createWorker, type Worker } from "tesseract.js";
+import eng from "@tesseract.js-data/eng";
+import type { OcrEngine, OcrLine, OcrResult } from "./types";
+
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * One long-lived worker per process — loading the language model takes
+ * far longer than recognizing a single card.
+ */
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker("eng", undefined, {
+      // Bundled traineddata: no download at runtime
+      langPath: eng.langPath,
+      gzip: eng.gzip,
+      cachePath: os.tmpdir(),
+    }).catch((err) => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+}
+
+/** Tesseract (WASM build) running in-process with bundled English data */
+export function createTesseractEngine(): OcrEngine {
+  return {
+    name: "tesseract",
+    async recognize(image: Buffer): Promise<OcrResult> {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+      const lines: OcrLine[] = [];
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            const text = line.text.trim();
+            if (!text) continue;
+            lines.push({
+              text,
+              confidence: line.confidence,
+              bbox: { ...line.bbox },
+            });
+          }
+        }
+      }
+
+      return { text: data.text.trim(), confidence: data.confidence, lines };
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/** Pixel box in the coordinate space of the recognized image */
+export interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrLine {
+  text: string;
+  /** 0-100, as reported by the engine */
+  confidence: number;
+  bbox: OcrBox;
+}
+
+export interface OcrResult {
+  /** Full recognized text, one line per `\n` */
+  text: string;
+  /** Mean confidence over the whole image (0-100) */
+  confidence: number;
+  lines: OcrLine[];
+}
+
+/**
+ * A local text-recognition engine. Implementations must not call out to
+ * any network service — card images never leave the server.
+ */
+export interface OcrEngine {
+  readonly name: string;
+  recognize(image: Buffer): Promise<OcrResult>;
+}
@@ -0,0 +1,49 @@
+import path from "path";
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import type { StorageDriver } from "./types";
+
+export type { StorageDriver, StoredObject, StoredObjectInfo } from "./types";
+export { contentTypeForKey, imageUrlForKey, isValidKey, keyFromImageUrl } from "./keys";
+export { cacheableUrlForKey, signImageUrl, signedUrlForKey, verifySignedKey } from "./signing";
+
+/** Default local root — deliberately outside `public/` */
+const DEFAULT_LOCAL_ROOT = path.join(process.cwd(), "storage", "uploads");
+
+const DRIVERS: Record<string, () => StorageDriver> = {
+  local: () => createLocalStorage(process.env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_ROOT),
+  s3: () => {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) throw new Error("STORAGE_DRIVER=s3 requires S3_BUCKET");
+    return createS3Storage({
+      bucket,
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      prefix: process.env.S3_PREFIX || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  },
+};
+
+let storage: StorageDriver | null = null;
+
+/**
+ * The storage driver selected by `STORAGE_DRIVER` (default: local).
+ *
+ *   local  STORAGE_LOCAL_DIR (default ./storage/uploads)
+ *   s3     S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_FORCE_PATH_STYLE,
+ *          S3_PREFIX, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+ */
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    const name = process.env.STORAGE_DRIVER || "local";
+    const factory = DRIVERS[name];
+    if (!factory) {
+      throw new Error(`Unknown STORAGE_DRIVER '${name}'. Available: ${Object.keys(DRIVERS).join(", ")}`);
+    }
+    storage = factory();
+  }
+  return storage;
+}
@@ -0,0 +1,43 @@
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".json": "application/json",
+};
+
+/** Route that serves stored images (see app/api/images/[...key]) */
+export const IMAGE_ROUTE = "/api/images/";
+/** Where images lived before storage drivers; still understood on read */
+const LEGACY_PREFIX = "/uploads/";
+
+const KEY_RE = /^[A-Za-z0-9._-]+(?:\/[A-Za-z0-9._-]+)*$/;
+
+/** Relative path of safe segments — no '..', no leading '/' */
+export function isValidKey(key: string): boolean {
+  return KEY_RE.test(key) && !key.split("/").some((part) => part === "." || part === "..");
+}
+
+export function contentTypeForKey(key: string): string {
+  const ext = key.match(/\.[^./]+$/)?.[0].toLowerCase() ?? "";
+  return CONTENT_TYPES[ext] ?? "application/octet-stream";
+}
+
+/** The canonical `image_url` stored in the database for a key */
+export function imageUrlForKey(key: string): string {
+  return `${IMAGE_ROUTE}${key}`;
+}
+
+/**
+ * Storage key behind a stored `image_url` (canonical or legacy
+ * `/uploads/…`), ignoring any query string. `null` if it isn't ours.
+ */
+export function keyFromImageUrl(imageUrl: string | null | undefined): string | null {
+  if (!imageUrl) return null;
+  const pathname = imageUrl.split("?")[0];
+  const prefix = [IMAGE_ROUTE, LEGACY_PREFIX].find((p) => pathname.startsWith(p));
+  if (!prefix) return null;
+  const key = decodeURIComponent(pathname.slice(prefix.length));
+  return isValidKey(key) ? key : null;
+}
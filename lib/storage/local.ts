@@ -0,0 +1,72 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { contentTypeForKey, isValidKey } from "./keys";
+import type { StorageDriver, StoredObjectInfo } from "./types";
+
+/**
+ * Files on the local disk under `root`. Keep `root` outside `public/` so
+ * images are only reachable through the access-checked image route.
+ */
+export function createLocalStorage(root: string): StorageDriver {
+  function resolve(key: string): string {
+    if (!isValidKey(key)) throw new Error(`Invalid storage key '${key}'`);
+    return path.join(root, ...key.split("/"));
+  }
+
+  async function walk(dir: string, prefix: string, out: StoredObjectInfo[]) {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Root doesn't exist yet
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full, key, out);
+      } else if (entry.isFile()) {
+        const info = await stat(full);
+        out.push({ key, size: info.size, lastModified: info.mtime });
+      }
+    }
+  }
+
+  return {
+    name: "local",
+
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    async get(key) {
+      const file = resolve(key);
+      try {
+        const [data, info] = await Promise.all([readFile(file), stat(file)]);
+        return {
+          key,
+          data,
+          size: info.size,
+          lastModified: info.mtime,
+          contentType: contentTypeForKey(key),
+        };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+
+    async list(prefix = "") {
+      const out: StoredObjectInfo[] = [];
+      await walk(root, "", out);
+      return prefix ? out.filter((o) => o.key.startsWith(prefix)) : out;
+    },
+  };
+}
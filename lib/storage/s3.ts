@@ -0,0 +1,107 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { isValidKey } from "./keys";
+import type { StorageDriver, StoredObjectInfo } from "./types";
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services, e.g. http://localhost:9000 for MinIO */
+  endpoint?: string;
+  /** MinIO and most self-hosted services need path-style URLs */
+  forcePathStyle?: boolean;
+  /** Prepended to every key, e.g. "cards/" */
+  prefix?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * Objects in an S3 (or S3-compatible) bucket. Objects are written
+ * private; reads go through the image route, never a public bucket URL.
+ */
+export function createS3Storage(options: S3StorageOptions): StorageDriver {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials:
+      options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+  });
+  const base = options.prefix ?? "";
+
+  function objectKey(key: string): string {
+    if (!isValidKey(key)) throw new Error(`Invalid storage key '${key}'`);
+    return base + key;
+  }
+
+  return {
+    name: "s3",
+
+    async put(key, data, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: objectKey(key),
+          Body: data,
+          ContentType: contentType,
+        })
+      );
+    },
+
+    async get(key) {
+      try {
+        const res = await client.send(
+          new GetObjectCommand({ Bucket: options.bucket, Key: objectKey(key) })
+        );
+        const data = Buffer.from(await res.Body!.transformToByteArray());
+        return {
+          key,
+          data,
+          size: data.length,
+          lastModified: res.LastModified ?? new Date(0),
+          contentType: res.ContentType ?? "application/octet-stream",
+        };
+      } catch (err) {
+        if (err instanceof NoSuchKey) return null;
+        throw err;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: objectKey(key) }));
+    },
+
+    async list(prefix = "") {
+      const out: StoredObjectInfo[] = [];
+      let token: string | undefined;
+      do {
+        const res = await client.send(
+          new ListObjectsV2Command({
+            Bucket: options.bucket,
+            Prefix: base + prefix,
+            ContinuationToken: token,
+          })
+        );
+        for (const object of res.Contents ?? []) {
+          if (!object.Key) continue;
+          out.push({
+            key: object.Key.slice(base.length),
+            size: object.Size ?? 0,
+            lastModified: object.LastModified ?? new Date(0),
+          });
+        }
+        token = res.IsTruncated ? res.NextContinuationToken : undefined;
+      } while (token);
+      return out;
+    },
+  };
+}
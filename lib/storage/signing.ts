@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { imageUrlForKey, keyFromImageUrl } from "./keys";
+
+/** Default lifetime of a signed image URL */
+const DEFAULT_TTL_SECONDS = 60 * 60;
+/** Lifetime of a cacheable URL (see cacheableUrlForKey) */
+const CACHEABLE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+
+let fallbackSecret: string | null = null;
+
+function secret(): string {
+  const configured = process.env.IMAGE_URL_SECRET;
+  if (configured) return configured;
+  if (!fallbackSecret) {
+    // Fine for a single dev server; every instance needs the same secret
+    console.warn("[storage] IMAGE_URL_SECRET is not set — using a per-process secret");
+    fallbackSecret = randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+}
+
+function ttlSeconds(): number {
+  const ttl = Number(process.env.IMAGE_URL_TTL);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+function signature(key: string, expires: number): string {
+  return createHmac("sha256", secret()).update(`${key}\n${expires}`).digest("base64url");
+}
+
+function signedUrl(key: string, expires: number): string {
+  return `${imageUrlForKey(key)}?expires=${expires}&sig=${signature(key, expires)}`;
+}
+
+/** `/api/images/<key>?expires=…&sig=…`, valid for `IMAGE_URL_TTL` seconds */
+export function signedUrlForKey(key: string, ttl = ttlSeconds()): string {
+  // Round up to the minute so repeated calls yield cacheable, identical URLs
+  return signedUrl(key, Math.ceil((Date.now() / 1000 + ttl) / 60) * 60);
+}
+
+/**
+ * A signed URL for content that never changes under its key, such as
+ * image variants: valid for six to seven days and the same all day, so
+ * browsers can keep it cached across visits.
+ */
+export function cacheableUrlForKey(key: string): string {
+  const expires = Math.ceil((Date.now() / 1000 + CACHEABLE_TTL_SECONDS) / DAY_SECONDS) * DAY_SECONDS;
+  return signedUrl(key, expires);
+}
+
+/**
+ * Sign a stored `image_url` for a client. URLs that don't point at our
+ * storage (or are null) are returned unchanged.
+ */
+export function signImageUrl<T extends string | null>(imageUrl: T): T | string {
+  const key = keyFromImageUrl(imageUrl);
+  return key ? signedUrlForKey(key) : imageUrl;
+}
+
+/** Check a signed URL's `expires` and `sig` query values for `key` */
+export function verifySignedKey(key: string, expires: string | null, sig: string | null): boolean {
+  if (!expires || !sig) return false;
+  const at = Number(expires);
+  if (!Number.isInteger(at) || at < Date.now() / 1000) return false;
+
+  const expected = Buffer.from(signature(key, at));
+  const given = Buffer.from(sig);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
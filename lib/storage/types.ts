@@ -0,0 +1,25 @@
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StoredObject extends StoredObjectInfo {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Where uploaded images live. Keys are relative, '/'-separated paths
+ * (e.g. "3f2a….png"); drivers must reject keys that escape their root.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** `null` when the key does not exist */
+  get(key: string): Promise<StoredObject | null>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+  /** Every object under `prefix` (default: all), in no particular order */
+  list(prefix?: string): Promise<StoredObjectInfo[]>;
+}
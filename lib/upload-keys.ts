@@ -0,0 +1,76 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import pool from "@/lib/db";
+
+/** Client-generated keys: a UUID or similar opaque token */
+const KEY_RE = /^[A-Za-z0-9_-]{8,64}$/;
+/**
+ * A claim with no response after this long belongs to a request that
+ * died (crash, deploy, timeout) before completing or releasing it.
+ */
+const STALE_CLAIM_SECONDS = 120;
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_RE.test(key);
+}
+
+export type UploadKeyClaim =
+  /** First time this key is seen — go ahead and store the upload */
+  | { status: "new" }
+  /** Another request with this key is still being processed */
+  | { status: "pending" }
+  /** Already stored; `response` is what the first request returned */
+  | { status: "done"; response: Record<string, unknown> };
+
+/**
+ * Reserve an idempotency key before storing an upload. Keys are per
+ * user: the same key from another account is a different upload. The
+ * insert is the lock: of two concurrent retries, only one gets `new`. A
+ * stale claim is taken over by restamping it, which likewise only one
+ * retry can win.
+ */
+export async function claimUploadKey(userId: number, key: string): Promise<UploadKeyClaim> {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "INSERT IGNORE INTO upload_keys (user_id, idempotency_key) VALUES (?, ?)",
+    [userId, key]
+  );
+  if (result.affectedRows === 1) return { status: "new" };
+
+  const [takeover] = await pool.execute<ResultSetHeader>(
+    `UPDATE upload_keys SET created_at = NOW()
+     WHERE user_id = ? AND idempotency_key = ? AND response IS NULL
+       AND created_at < NOW() - INTERVAL ${STALE_CLAIM_SECONDS} SECOND`,
+    [userId, key]
+  );
+  if (takeover.affectedRows === 1) return { status: "new" };
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT response FROM upload_keys WHERE user_id = ? AND idempotency_key = ?",
+    [userId, key]
+  );
+  const response = rows[0]?.response;
+  if (!response) return { status: "pending" };
+  return {
+    status: "done",
+    response: typeof response === "string" ? JSON.parse(response) : response,
+  };
+}
+
+/** Record the response so retries of the same key get it back */
+export async function completeUploadKey(
+  userId: number,
+  key: string,
+  response: Record<string, unknown>
+) {
+  await pool.execute(
+    "UPDATE upload_keys SET response = ? WHERE user_id = ? AND idempotency_key = ?",
+    [JSON.stringify(response), userId, key]
+  );
+}
+
+/** Drop a reservation whose upload failed, so the client can retry */
+export async function releaseUploadKey(userId: number, key: string) {
+  await pool.execute(
+    "DELETE FROM upload_keys WHERE user_id = ? AND idempotency_key = ? AND response IS NULL",
+    [userId, key]
+  );
+}
@@ -0,0 +1,72 @@
+import { RowDataPacket } from "mysql2";
+import type { Connection } from "mysql2/promise";
+import { getCapture } from "@/lib/captures";
+import pool from "@/lib/db";
+import { rowToLead, type Lead } from "@/lib/leads";
+import { queueWebhookEvent } from "./outbox";
+
+/** `data` of lead.created and lead.updated */
+export interface LeadEventData {
+  /** The lead as stored; `image_url` is the canonical, unsigned URL */
+  lead: Lead;
+  /** lead.updated only: the columns that changed */
+  changes?: string[];
+}
+
+/** `data` of capture.uploaded */
+export interface CaptureEventData {
+  capture: {
+    id: number;
+    /** Canonical, unsigned image URL */
+    url: string;
+    mimeType: string;
+    width: number | null;
+    height: number | null;
+    qualityScore: number | null;
+    /** The card's back, for double-sided captures */
+    backId: number | null;
+    duplicateOf: number | null;
+    createdBy: number | null;
+    eventId: number | null;
+    createdAt: string;
+  };
+}
+
+/**
+ * Queue lead.created or lead.updated with the lead as it now reads. Inside
+ * a transaction, pass its connection so the event commits with the change.
+ */
+export async function queueLeadEvent(
+  event: "lead.created" | "lead.updated",
+  leadId: number,
+  options: { db?: Connection; changes?: string[] } = {}
+): Promise<void> {
+  const db = options.db ?? pool;
+  const [rows] = await db.query<RowDataPacket[]>("SELECT * FROM leads WHERE id = ?", [leadId]);
+  if (!rows[0]) return;
+  const data: LeadEventData = { lead: rowToLead(rows[0]) };
+  if (event === "lead.updated") data.changes = options.changes ?? [];
+  await queueWebhookEvent(event, data, { db });
+}
+
+/** Queue capture.uploaded for a stored card (its front, for double-sided ones) */
+export async function queueCaptureUploaded(captureId: number): Promise<void> {
+  const capture = await getCapture(captureId, { where: "1 = 1", params: [] });
+  if (!capture) return;
+  const data: CaptureEventData = {
+    capture: {
+      id: capture.id,
+      url: capture.url,
+      mimeType: capture.mimeType,
+      width: capture.width,
+      height: capture.height,
+      qualityScore: capture.qualityScore,
+      backId: capture.back?.id ?? null,
+      duplicateOf: capture.duplicateOf,
+      createdBy: capture.createdBy,
+      eventId: capture.eventId,
+      createdAt: capture.createdAt,
+    },
+  };
+  await queueWebhookEvent("capture.uploaded", data);
+}
@@ -0,0 +1,165 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import pool from "@/lib/db";
+import { generateWebhookSecret } from "./signature";
+
+/** Events a subscription can ask for */
+export const WEBHOOK_EVENTS = ["lead.created", "lead.updated", "capture.uploaded"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+/** Sent only by POST /api/webhooks/:id/ping, whatever the subscription's events */
+export const PING_EVENT = "webhook.ping";
+
+/** A subscription; its secret is only returned when created or rotated */
+export interface Webhook {
+  id: number;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  active: boolean;
+  createdBy: number | null;
+  createdAt: string;
+}
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  active: boolean;
+}
+
+export type WebhookValidation<T> =
+  | { ok: true; webhook: T }
+  | { ok: false; error: string };
+
+const MAX_URL_LENGTH = 2048;
+
+function parseEvents(value: unknown): WebhookEvent[] {
+  const events = typeof value === "string" ? JSON.parse(value) : value;
+  return Array.isArray(events) ? events : [];
+}
+
+function rowToWebhook(row: RowDataPacket): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    events: parseEvents(row.events),
+    description: row.description,
+    active: Boolean(row.active),
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Validate a subscription payload. With `partial`, every field is optional
+ * (for PATCH); otherwise `url` and `events` are required.
+ */
+export function validateWebhookInput(body: unknown, partial: true): WebhookValidation<Partial<WebhookInput>>;
+export function validateWebhookInput(body: unknown, partial?: false): WebhookValidation<WebhookInput>;
+export function validateWebhookInput(
+  body: unknown,
+  partial = false
+): WebhookValidation<Partial<WebhookInput>> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, error: "Expected a JSON object." };
+  }
+  const source = body as Record<string, unknown>;
+  const webhook: Partial<WebhookInput> = {};
+
+  if (source.url !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = typeof source.url === "string" ? new URL(source.url) : null;
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+      return { ok: false, error: "url must be an http(s) URL." };
+    }
+    if (url.href.length > MAX_URL_LENGTH) {
+      return { ok: false, error: `url must be at most ${MAX_URL_LENGTH} characters.` };
+    }
+    webhook.url = url.href;
+  }
+  if (source.events !== undefined) {
+    if (
+      !Array.isArray(source.events) ||
+      source.events.length === 0 ||
+      !source.events.every((e) => WEBHOOK_EVENTS.includes(e))
+    ) {
+      return { ok: false, error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(", ")}.` };
+    }
+    webhook.events = [...new Set(source.events as WebhookEvent[])];
+  }
+  if (source.description !== undefined) {
+    if (source.description !== null && typeof source.description !== "string") {
+      return { ok: false, error: "description must be a string or null." };
+    }
+    webhook.description = source.description?.trim().slice(0, 255) || null;
+  }
+  if (source.active !== undefined) {
+    if (typeof source.active !== "boolean") {
+      return { ok: false, error: "active must be true or false." };
+    }
+    webhook.active = source.active;
+  }
+
+  if (!partial) {
+    if (!webhook.url || !webhook.events) {
+      return { ok: false, error: "url and events are required." };
+    }
+    webhook.description ??= null;
+    webhook.active ??= true;
+  }
+  return { ok: true, webhook };
+}
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  const [rows] = await pool.query<RowDataPacket[]>("SELECT * FROM webhooks ORDER BY id");
+  return rows.map(rowToWebhook);
+}
+
+export async function getWebhook(id: number): Promise<Webhook | null> {
+  const [rows] = await pool.query<RowDataPacket[]>("SELECT * FROM webhooks WHERE id = ?", [id]);
+  return rows[0] ? rowToWebhook(rows[0]) : null;
+}
+
+/** Create a subscription; returns its id and the signing secret */
+export async function createWebhook(
+  webhook: WebhookInput,
+  createdBy: number
+): Promise<{ id: number; secret: string }> {
+  const secret = generateWebhookSecret();
+  const [result] = await pool.execute<ResultSetHeader>(
+    `INSERT INTO webhooks (url, secret, events, description, active, created_by)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [webhook.url, secret, JSON.stringify(webhook.events), webhook.description, webhook.active, createdBy]
+  );
+  return { id: result.insertId, secret };
+}
+
+/** Apply a validated partial update; the caller checks the webhook exists */
+export async function updateWebhook(id: number, webhook: Partial<WebhookInput>): Promise<void> {
+  const columns = { url: "url", events: "events", description: "description", active: "active" };
+  const changed = (Object.keys(columns) as (keyof WebhookInput)[]).filter((k) => k in webhook);
+  if (changed.length === 0) return;
+  await pool.execute(
+    `UPDATE webhooks SET ${changed.map((k) => `${columns[k]} = ?`).join(", ")} WHERE id = ?`,
+    [
+      ...changed.map((k) => (k === "events" ? JSON.stringify(webhook.events) : webhook[k] ?? null)),
+      id,
+    ]
+  );
+}
+
+/** Replace the signing secret; deliveries already queued are signed with the new one */
+export async function rotateWebhookSecret(id: number): Promise<string> {
+  const secret = generateWebhookSecret();
+  await pool.execute("UPDATE webhooks SET secret = ? WHERE id = ?", [secret, id]);
+  return secret;
+}
+
+/** Delete a subscription and its delivery log; returns whether it existed */
+export async function deleteWebhook(id: number): Promise<boolean> {
+  const [result] = await pool.execute<ResultSetHeader>("DELETE FROM webhooks WHERE id = ?", [id]);
+  return result.affectedRows > 0;
+}
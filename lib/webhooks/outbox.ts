@@ -0,0 +1,428 @@
+/**
+ * The webhook outbox. Events are written to `webhook_deliveries` — in the
+ * caller's transaction where there is one — and a dispatcher in the server
+ * process POSTs them, retrying failures with exponential backoff until
+ * MAX_ATTEMPTS, after which a delivery is dead-lettered. Every attempt is
+ * logged in `webhook_attempts`.
+ */
+
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+import type { Connection, Pool } from "mysql2/promise";
+import { v4 as uuidv4 } from "uuid";
+import pool from "@/lib/db";
+import type { WebhookEvent } from "./index";
+import { signWebhook, WEBHOOK_HEADERS } from "./signature";
+
+/** Attempts before a delivery is dead-lettered */
+export const MAX_ATTEMPTS = 10;
+/** Wait before the first retry; doubles with every failure */
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+/** A receiver gets this long to answer */
+const REQUEST_TIMEOUT_MS = 10_000;
+/** How long a claimed delivery is held by one sender; longer than a request can take */
+const LOCK_SECONDS = 60;
+const BATCH_SIZE = 20;
+/** How often the dispatcher looks for due deliveries when nothing wakes it */
+const DISPATCH_INTERVAL_MS = 15_000;
+/** Characters of a receiver's response kept in the attempt log */
+const MAX_LOGGED_RESPONSE = 2000;
+
+type Queryable = Pick<Pool, "query"> | Pick<Connection, "query">;
+
+export type DeliveryStatus = "pending" | "delivered" | "dead";
+
+/** The JSON body POSTed to a receiver */
+export interface WebhookPayload<T = unknown> {
+  /** Same for every subscriber of one event; receivers can dedupe on it */
+  id: string;
+  event: string;
+  createdAt: string;
+  data: T;
+}
+
+export interface WebhookAttempt {
+  attempt: number;
+  /** HTTP status, `null` if no response came back */
+  statusCode: number | null;
+  error: string | null;
+  responseBody: string | null;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: number;
+  eventId: string;
+  event: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatus: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+/** One delivery with its body and every attempt, oldest first */
+export interface WebhookDeliveryDetail extends WebhookDelivery {
+  payload: WebhookPayload;
+  log: WebhookAttempt[];
+}
+
+function isoOrNull(value: unknown): string | null {
+  return value ? new Date(value as string).toISOString() : null;
+}
+
+function rowToDelivery(row: RowDataPacket): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.status === "pending" ? isoOrNull(row.next_attempt_at) : null,
+    lastStatus: row.last_status,
+    lastError: row.last_error,
+    deliveredAt: isoOrNull(row.delivered_at),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Queue `event` for every active subscription to it, or for `webhookId`
+ * alone (pings). Pass the connection of an open transaction so the event
+ * is only sent if it commits — then call wakeWebhookDispatcher() after
+ * the commit, or the next sweep picks it up. Returns how many deliveries
+ * were queued.
+ */
+export async function queueWebhookEvent(
+  event: WebhookEvent | string,
+  data: unknown,
+  options: { db?: Queryable; webhookId?: number } = {}
+): Promise<number> {
+  const db = options.db ?? pool;
+  const [subscribers] =
+    options.webhookId !== undefined
+      ? await db.query<RowDataPacket[]>("SELECT id FROM webhooks WHERE id = ?", [options.webhookId])
+      : await db.query<RowDataPacket[]>(
+          "SELECT id FROM webhooks WHERE active AND JSON_CONTAINS(events, JSON_QUOTE(?))",
+          [event]
+        );
+  if (subscribers.length === 0) return 0;
+
+  const payload: WebhookPayload = {
+    id: uuidv4(),
+    event,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+  const body = JSON.stringify(payload);
+  await db.query(
+    "INSERT INTO webhook_deliveries (id, webhook_id, event_id, event, payload) VALUES ?",
+    [subscribers.map((s) => [uuidv4(), s.id, payload.id, event, body])]
+  );
+
+  if (db === pool) wakeWebhookDispatcher();
+  return subscribers.length;
+}
+
+/** Seconds to wait after the `attempts`-th failure, with ±20% jitter so retries spread out */
+function backoffSeconds(attempts: number): number {
+  const base = Math.min(MAX_BACKOFF_SECONDS, BASE_BACKOFF_SECONDS * 2 ** (attempts - 1));
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Take due deliveries for this process. The conditional UPDATE means two
+ * servers sweeping at once never send the same delivery twice; a lock
+ * left by a crashed sender lapses after LOCK_SECONDS.
+ */
+async function claimDue(): Promise<string[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT d.id FROM webhook_deliveries d
+     JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.status = 'pending' AND d.next_attempt_at <= NOW(3)
+       AND (d.locked_until IS NULL OR d.locked_until < NOW(3))
+       AND w.active
+     ORDER BY d.next_attempt_at
+     LIMIT ${BATCH_SIZE}` // prepared LIMIT placeholders are unreliable in mysql2
+  );
+
+  const claimed: string[] = [];
+  for (const row of rows) {
+    const [result] = await pool.execute<ResultSetHeader>(
+      `UPDATE webhook_deliveries
+       SET locked_until = NOW(3) + INTERVAL ${LOCK_SECONDS} SECOND
+       WHERE id = ? AND status = 'pending'
+         AND (locked_until IS NULL OR locked_until < NOW(3))`,
+      [row.id]
+    );
+    if (result.affectedRows > 0) claimed.push(row.id);
+  }
+  return claimed;
+}
+
+/** POST one claimed delivery and record the outcome */
+async function attemptDelivery(id: string): Promise<void> {
+  const [[row]] = await pool.query<RowDataPacket[]>(
+    `SELECT d.event_id, d.event, d.payload, d.attempts, w.url, w.secret
+     FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.id = ?`,
+    [id]
+  );
+  if (!row) return;
+
+  const body = typeof row.payload === "string" ? row.payload : JSON.stringify(row.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempt = row.attempts + 1;
+
+  let statusCode: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  const started = Date.now();
+  try {
+    const response = await fetch(row.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "CaptureCAM-Webhooks/1",
+        [WEBHOOK_HEADERS.id]: row.event_id,
+        [WEBHOOK_HEADERS.event]: row.event,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhook(row.secret, timestamp, body),
+      },
+      body,
+      // A redirect could carry the signed body somewhere it wasn't sent
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    responseBody = (await response.text().catch(() => "")).slice(0, MAX_LOGGED_RESPONSE) || null;
+    if (!response.ok) error = `Receiver answered ${response.status}`;
+  } catch (err) {
+    error =
+      err instanceof Error && err.name === "TimeoutError"
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : err instanceof Error
+          ? (err.cause instanceof Error ? err.cause.message : null) ?? err.message
+          : "Request failed";
+  }
+  const durationMs = Date.now() - started;
+
+  await pool.execute(
+    `INSERT INTO webhook_attempts
+       (delivery_id, attempt, status_code, error, response_body, duration_ms)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [id, attempt, statusCode, error, responseBody, durationMs]
+  );
+
+  if (!error) {
+    await pool.execute(
+      `UPDATE webhook_deliveries
+       SET status = 'delivered', attempts = ?, last_status = ?, last_error = NULL,
+           delivered_at = NOW(3), locked_until = NULL
+       WHERE id = ?`,
+      [attempt, statusCode, id]
+    );
+  } else if (attempt >= MAX_ATTEMPTS) {
+    await pool.execute(
+      `UPDATE webhook_deliveries
+       SET status = 'dead', attempts = ?, last_status = ?, last_error = ?, locked_until = NULL
+       WHERE id = ?`,
+      [attempt, statusCode, error, id]
+    );
+  } else {
+    await pool.execute(
+      `UPDATE webhook_deliveries
+       SET attempts = ?, last_status = ?, last_error = ?, locked_until = NULL,
+           next_attempt_at = NOW(3) + INTERVAL ? SECOND
+       WHERE id = ?`,
+      [attempt, statusCode, error, backoffSeconds(attempt), id]
+    );
+  }
+}
+
+/** Send everything that is due; returns how many deliveries were attempted */
+export async function deliverDueWebhooks(): Promise<number> {
+  let attempted = 0;
+  for (;;) {
+    const batch = await claimDue();
+    if (batch.length === 0) return attempted;
+    await Promise.all(
+      batch.map((id) =>
+        attemptDelivery(id).catch((error) =>
+          console.error("[webhooks] Delivery failed to run:", id, error)
+        )
+      )
+    );
+    attempted += batch.length;
+  }
+}
+
+let sweep: Promise<void> | null = null;
+let sweepAgain = false;
+
+/** Run a sweep now, or right after the one in progress */
+export function wakeWebhookDispatcher(): void {
+  if (sweep) {
+    sweepAgain = true;
+    return;
+  }
+  sweep = deliverDueWebhooks()
+    .then(() => undefined)
+    .catch((error) => console.error("[webhooks] Sweep failed:", error))
+    .finally(() => {
+      sweep = null;
+      if (sweepAgain) {
+        sweepAgain = false;
+        wakeWebhookDispatcher();
+      }
+    });
+}
+
+let dispatcher: ReturnType<typeof setInterval> | null = null;
+
+/** Sweep for due deliveries every DISPATCH_INTERVAL_MS; called once at startup */
+export function startWebhookDispatcher(): void {
+  if (dispatcher) return;
+  dispatcher = setInterval(wakeWebhookDispatcher, DISPATCH_INTERVAL_MS);
+  // Don't hold a script or test process open
+  dispatcher.unref();
+  wakeWebhookDispatcher();
+}
+
+export interface DeliveryQuery {
+  status: DeliveryStatus | null;
+  limit: number;
+  /** Opaque cursor from a previous page */
+  cursor: string | null;
+}
+
+export const DEFAULT_DELIVERY_PAGE_SIZE = 50;
+export const MAX_DELIVERY_PAGE_SIZE = 200;
+const DELIVERY_STATUSES: DeliveryStatus[] = ["pending", "delivered", "dead"];
+
+/** Parse `status`, `limit` and `cursor` from a delivery log URL */
+export function deliveryQueryFromParams(
+  params: URLSearchParams
+): { ok: true; query: DeliveryQuery } | { ok: false; error: string } {
+  const status = params.get("status");
+  if (status !== null && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+    return { ok: false, error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}.` };
+  }
+  const limitParam = params.get("limit");
+  const limit = limitParam === null ? DEFAULT_DELIVERY_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_PAGE_SIZE) {
+    return { ok: false, error: `limit must be between 1 and ${MAX_DELIVERY_PAGE_SIZE}.` };
+  }
+  const cursor = params.get("cursor");
+  if (cursor !== null && !decodeCursor(cursor)) {
+    return { ok: false, error: "Invalid cursor." };
+  }
+  return { ok: true, query: { status: status as DeliveryStatus | null, limit, cursor } };
+}
+
+/** `[createdAt epoch ms, id]` of the last row on a page */
+function encodeCursor(createdAt: string, id: string): string {
+  return Buffer.from(JSON.stringify([Date.parse(createdAt), id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [Date, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      Number.isFinite(value[0]) &&
+      typeof value[1] === "string"
+    ) {
+      return [new Date(value[0]), value[1]];
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/** A webhook's deliveries, newest first */
+export async function listDeliveries(
+  webhookId: number,
+  query: DeliveryQuery
+): Promise<{ deliveries: WebhookDelivery[]; nextCursor: string | null }> {
+  const conditions = ["webhook_id = ?"];
+  const params: (string | number | Date)[] = [webhookId];
+  if (query.status) {
+    conditions.push("status = ?");
+    params.push(query.status);
+  }
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (after) {
+    conditions.push("(created_at < ? OR (created_at = ? AND id < ?))");
+    params.push(after[0], after[0], after[1]);
+  }
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, webhook_id, event_id, event, status, attempts, next_attempt_at,
+            last_status, last_error, delivered_at, created_at
+     FROM webhook_deliveries
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ${query.limit + 1}`, // prepared LIMIT placeholders are unreliable in mysql2
+    params
+  );
+  const deliveries = rows.slice(0, query.limit).map(rowToDelivery);
+  const last = deliveries[deliveries.length - 1];
+  return {
+    deliveries,
+    nextCursor: rows.length > query.limit && last ? encodeCursor(last.createdAt, last.id) : null,
+  };
+}
+
+/** One delivery of `webhookId` with its payload and attempt log, or `null` */
+export async function getDelivery(
+  webhookId: number,
+  deliveryId: string
+): Promise<WebhookDeliveryDetail | null> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    "SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?",
+    [deliveryId, webhookId]
+  );
+  if (!rows[0]) return null;
+
+  const [attempts] = await pool.query<RowDataPacket[]>(
+    "SELECT * FROM webhook_attempts WHERE delivery_id = ? ORDER BY id",
+    [deliveryId]
+  );
+  return {
+    ...rowToDelivery(rows[0]),
+    payload: typeof rows[0].payload === "string" ? JSON.parse(rows[0].payload) : rows[0].payload,
+    log: attempts.map((a) => ({
+      attempt: a.attempt,
+      statusCode: a.status_code,
+      error: a.error,
+      responseBody: a.response_body,
+      durationMs: a.duration_ms,
+      attemptedAt: new Date(a.attempted_at).toISOString(),
+    })),
+  };
+}
+
+/**
+ * Send a delivery again now, whatever its status — a dead one gets a
+ * fresh run of attempts. Returns false if it doesn't exist.
+ */
+export async function redeliver(webhookId: number, deliveryId: string): Promise<boolean> {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE webhook_deliveries
+     SET status = 'pending', attempts = 0, next_attempt_at = NOW(3), locked_until = NULL,
+         delivered_at = NULL
+     WHERE id = ? AND webhook_id = ?`,
+    [deliveryId, webhookId]
+  );
+  if (result.affectedRows === 0) return false;
+  wakeWebhookDispatcher();
+  return true;
+}
@@ -0,0 +1,50 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/** Headers sent with every delivery */
+export const WEBHOOK_HEADERS = {
+  /** Id of the event; the same on every retry and for every subscriber */
+  id: "X-CaptureCAM-Event-Id",
+  event: "X-CaptureCAM-Event",
+  /** Unix seconds when this attempt was signed */
+  timestamp: "X-CaptureCAM-Timestamp",
+  /** `v1=` and the hex HMAC-SHA256 of `${timestamp}.${body}` */
+  signature: "X-CaptureCAM-Signature",
+} as const;
+
+/** Oldest timestamp a receiver should accept, so a captured request can't be replayed later */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** A new signing secret for a subscription */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString("base64url")}`;
+}
+
+function digest(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** The signature header value for `body` sent at `timestamp` (unix seconds) */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `v1=${digest(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a delivery's signature and timestamp, as a receiver should: the
+ * HMAC must match (compared in constant time) and the timestamp must be
+ * within SIGNATURE_TOLERANCE_SECONDS of `now`.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string | null,
+  timestamp: string | null,
+  body: string,
+  now = Date.now()
+): boolean {
+  const seconds = Number(timestamp);
+  if (!signature || !Number.isInteger(seconds)) return false;
+  if (Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhook(secret, seconds, body));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
@@ -0,0 +1,184 @@
+-- Baseline: the schema scripts/init-db.ts created before migrations.
+-- Every table is IF NOT EXISTS so a database set up by init-db is adopted
+-- as-is, and the columns init-db added over time are added here when
+-- missing: the first init-db made `leads` with only id, name, email,
+-- phone, company, image_url and created_at.
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS leads (
+  id          INT AUTO_INCREMENT PRIMARY KEY,
+  name        VARCHAR(255),
+  email       VARCHAR(255),
+  phone       VARCHAR(50),
+  company     VARCHAR(255),
+  job_title   VARCHAR(255),
+  mobile      VARCHAR(50),
+  fax         VARCHAR(50),
+  website     VARCHAR(512),
+  address     VARCHAR(1024),
+  image_url   VARCHAR(512),
+  status      VARCHAR(20) NOT NULL DEFAULT 'active',
+  field_confidence JSON,
+  created_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- An adopted leads table may predate these; MySQL has no ADD COLUMN IF NOT EXISTS
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'leads' AND COLUMN_NAME = 'job_title') = 0,
+  'ALTER TABLE leads ADD COLUMN job_title VARCHAR(255) AFTER company',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'leads' AND COLUMN_NAME = 'mobile') = 0,
+  'ALTER TABLE leads ADD COLUMN mobile VARCHAR(50) AFTER job_title',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'leads' AND COLUMN_NAME = 'fax') = 0,
+  'ALTER TABLE leads ADD COLUMN fax VARCHAR(50) AFTER mobile',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'leads' AND COLUMN_NAME = 'website') = 0,
+  'ALTER TABLE leads ADD COLUMN website VARCHAR(512) AFTER fax',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'leads' AND COLUMN_NAME = 'address') = 0,
+  'ALTER TABLE leads ADD COLUMN address VARCHAR(1024) AFTER website',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'leads' AND COLUMN_NAME = 'status') = 0,
+  'ALTER TABLE leads ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT ''active'' AFTER image_url',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'leads' AND COLUMN_NAME = 'field_confidence') = 0,
+  'ALTER TABLE leads ADD COLUMN field_confidence JSON AFTER status',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+CREATE TABLE IF NOT EXISTS ocr_jobs (
+  id          CHAR(36) PRIMARY KEY,
+  image_url   VARCHAR(512) NOT NULL,
+  status      VARCHAR(20) NOT NULL DEFAULT 'pending',
+  engine      VARCHAR(50),
+  raw_text    TEXT,
+  ocr_lines   JSON,
+  confidence  FLOAT,
+  lead_id     INT,
+  error       TEXT,
+  created_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS lead_edits (
+  id          INT AUTO_INCREMENT PRIMARY KEY,
+  lead_id     INT NOT NULL,
+  field       VARCHAR(64) NOT NULL,
+  old_value   TEXT,
+  new_value   TEXT,
+  edited_at   TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX (lead_id, edited_at),
+  FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS lead_images (
+  id          INT AUTO_INCREMENT PRIMARY KEY,
+  lead_id     INT NOT NULL,
+  image_url   VARCHAR(512) NOT NULL,
+  created_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY (lead_id, image_url),
+  FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS lead_merges (
+  id               INT AUTO_INCREMENT PRIMARY KEY,
+  target_id        INT NOT NULL,
+  source_id        INT NOT NULL,
+  source_snapshot  JSON NOT NULL,
+  choices          JSON,
+  merged_at        TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX (target_id),
+  INDEX (source_id)
+);
+
+CREATE TABLE IF NOT EXISTS upload_keys (
+  idempotency_key  VARCHAR(64) PRIMARY KEY,
+  response         JSON,
+  created_at       TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS captures (
+  id                  INT AUTO_INCREMENT PRIMARY KEY,
+  storage_key         VARCHAR(255) NOT NULL UNIQUE,
+  mime_type           VARCHAR(64) NOT NULL,
+  byte_size           INT NOT NULL,
+  width               INT,
+  height              INT,
+  brightness          FLOAT,
+  laplacian_variance  FLOAT,
+  device_info         JSON,
+  corners             JSON,
+  lead_id             INT,
+  annotated_at        TIMESTAMP NULL,
+  created_at          TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  INDEX (created_at, id),
+  INDEX (lead_id),
+  FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE SET NULL
+);
+
+SET @ddl = IF(
+  (SELECT COUNT(*) FROM information_schema.COLUMNS
+   WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'captures' AND COLUMN_NAME = 'annotated_at') = 0,
+  'ALTER TABLE captures ADD COLUMN annotated_at TIMESTAMP NULL AFTER lead_id',
+  'DO 0');
+PREPARE adopt FROM @ddl;
+EXECUTE adopt;
+DEALLOCATE PREPARE adopt;
+
+CREATE TABLE IF NOT EXISTS annotations (
+  id          INT AUTO_INCREMENT PRIMARY KEY,
+  capture_id  INT NOT NULL,
+  label       VARCHAR(20) NOT NULL,
+  x           FLOAT NOT NULL,
+  y           FLOAT NOT NULL,
+  width       FLOAT NOT NULL,
+  height      FLOAT NOT NULL,
+  created_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX (capture_id),
+  FOREIGN KEY (capture_id) REFERENCES captures(id) ON DELETE CASCADE
+);
+
+-- migrate:down
+-- Nothing: these tables may hold data from before migrations, which a
+-- rollback must not drop. Remove them by hand to start over.
@@ -0,0 +1,46 @@
+-- Local accounts, login sessions, and who created each lead, capture and
+-- OCR job. Rows from before this migration have no creator; only admins,
+-- viewers and reps with team visibility see them.
+
+-- migrate:up
+CREATE TABLE users (
+  id               INT AUTO_INCREMENT PRIMARY KEY,
+  email            VARCHAR(255) NOT NULL UNIQUE,
+  name             VARCHAR(255) NOT NULL,
+  password_hash    VARCHAR(255) NOT NULL,
+  role             VARCHAR(20) NOT NULL DEFAULT 'rep',
+  team_visibility  BOOLEAN NOT NULL DEFAULT FALSE,
+  disabled         BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at       TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE sessions (
+  token_hash  CHAR(64) PRIMARY KEY,
+  user_id     INT NOT NULL,
+  expires_at  TIMESTAMP NOT NULL,
+  created_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX (user_id),
+  INDEX (expires_at),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+ALTER TABLE leads
+  ADD COLUMN created_by INT NULL AFTER field_confidence,
+  ADD INDEX (created_by),
+  ADD CONSTRAINT fk_leads_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE captures
+  ADD COLUMN created_by INT NULL AFTER lead_id,
+  ADD INDEX (created_by),
+  ADD CONSTRAINT fk_captures_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE ocr_jobs
+  ADD COLUMN created_by INT NULL AFTER lead_id,
+  ADD CONSTRAINT fk_ocr_jobs_created_by FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+
+-- migrate:down
+ALTER TABLE ocr_jobs DROP FOREIGN KEY fk_ocr_jobs_created_by, DROP COLUMN created_by;
+ALTER TABLE captures DROP FOREIGN KEY fk_captures_created_by, DROP COLUMN created_by;
+ALTER TABLE leads DROP FOREIGN KEY fk_leads_created_by, DROP COLUMN created_by;
+DROP TABLE sessions;
+DROP TABLE users;
@@ -0,0 +1,35 @@
+-- Trade shows and campaigns. Captures, OCR jobs and leads record the
+-- event that was active on /capture when they were taken.
+
+-- migrate:up
+CREATE TABLE events (
+  id          INT AUTO_INCREMENT PRIMARY KEY,
+  name        VARCHAR(255) NOT NULL,
+  starts_on   DATE NOT NULL,
+  ends_on     DATE NOT NULL,
+  location    VARCHAR(255),
+  created_by  INT NULL,
+  created_at  TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX (starts_on),
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE leads
+  ADD COLUMN event_id INT NULL AFTER created_by,
+  ADD INDEX (event_id),
+  ADD CONSTRAINT fk_leads_event FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE SET NULL;
+
+ALTER TABLE captures
+  ADD COLUMN event_id INT NULL AFTER created_by,
+  ADD INDEX (event_id),
+  ADD CONSTRAINT fk_captures_event FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE SET NULL;
+
+ALTER TABLE ocr_jobs
+  ADD COLUMN event_id INT NULL AFTER created_by,
+  ADD CONSTRAINT fk_ocr_jobs_event FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE SET NULL;
+
+-- migrate:down
+ALTER TABLE ocr_jobs DROP FOREIGN KEY fk_ocr_jobs_event, DROP COLUMN event_id;
+ALTER TABLE captures DROP FOREIGN KEY fk_captures_event, DROP COLUMN event_id;
+ALTER TABLE leads DROP FOREIGN KEY fk_leads_event, DROP COLUMN event_id;
+DROP TABLE events;
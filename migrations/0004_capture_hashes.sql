@@ -0,0 +1,14 @@
+-- Perceptual hashes (64-bit dHash, hex) for spotting near-duplicate
+-- captures, and the earlier capture a new one was flagged against.
+
+-- migrate:up
+ALTER TABLE captures
+  ADD COLUMN phash CHAR(16) NULL AFTER laplacian_variance,
+  ADD COLUMN duplicate_of INT NULL AFTER phash,
+  ADD CONSTRAINT fk_captures_duplicate FOREIGN KEY (duplicate_of) REFERENCES captures(id) ON DELETE SET NULL;
+
+-- migrate:down
+ALTER TABLE captures
+  DROP FOREIGN KEY fk_captures_duplicate,
+  DROP COLUMN duplicate_of,
+  DROP COLUMN phash;
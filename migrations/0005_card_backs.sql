@@ -0,0 +1,22 @@
+-- Double-sided cards: the back is its own capture pointing at the front,
+-- and one OCR job reads both sides into a single lead.
+
+-- migrate:up
+ALTER TABLE captures
+  ADD COLUMN front_id INT NULL AFTER duplicate_of,
+  ADD UNIQUE KEY uq_captures_front (front_id),
+  ADD CONSTRAINT fk_captures_front FOREIGN KEY (front_id) REFERENCES captures(id) ON DELETE CASCADE;
+
+ALTER TABLE ocr_jobs
+  ADD COLUMN back_image_url VARCHAR(512) NULL AFTER image_url,
+  ADD COLUMN back_ocr_lines JSON NULL AFTER ocr_lines;
+
+-- migrate:down
+ALTER TABLE ocr_jobs
+  DROP COLUMN back_ocr_lines,
+  DROP COLUMN back_image_url;
+
+ALTER TABLE captures
+  DROP FOREIGN KEY fk_captures_front,
+  DROP INDEX uq_captures_front,
+  DROP COLUMN front_id;
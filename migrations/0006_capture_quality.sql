@@ -0,0 +1,18 @@
+-- Highlight clipping, glare, contrast and card coverage for each capture,
+-- and the combined 0-100 quality score (see lib/image/quality).
+
+-- migrate:up
+ALTER TABLE captures
+  ADD COLUMN clipped_ratio FLOAT NULL AFTER laplacian_variance,
+  ADD COLUMN glare_ratio FLOAT NULL AFTER clipped_ratio,
+  ADD COLUMN contrast FLOAT NULL AFTER glare_ratio,
+  ADD COLUMN coverage FLOAT NULL AFTER contrast,
+  ADD COLUMN quality_score FLOAT NULL AFTER coverage;
+
+-- migrate:down
+ALTER TABLE captures
+  DROP COLUMN quality_score,
+  DROP COLUMN coverage,
+  DROP COLUMN contrast,
+  DROP COLUMN glare_ratio,
+  DROP COLUMN clipped_ratio;
@@ -0,0 +1,13 @@
+-- Free-text lead search over name, email and company, and an index for
+-- paging through leads newest first.
+
+-- migrate:up
+-- InnoDB builds a FULLTEXT index in its own ALTER
+ALTER TABLE leads ADD FULLTEXT INDEX ft_leads_search (name, email, company);
+
+ALTER TABLE leads ADD INDEX idx_leads_created (created_at, id);
+
+-- migrate:down
+ALTER TABLE leads DROP INDEX idx_leads_created;
+
+ALTER TABLE leads DROP INDEX ft_leads_search;
@@ -0,0 +1,53 @@
+-- Outbound webhooks: subscriptions, an outbox of deliveries retried with
+-- backoff until they succeed or are dead-lettered, and a log of every
+-- attempt.
+
+-- migrate:up
+CREATE TABLE webhooks (
+  id           INT AUTO_INCREMENT PRIMARY KEY,
+  url          VARCHAR(2048) NOT NULL,
+  secret       VARCHAR(128) NOT NULL,
+  events       JSON NOT NULL,
+  description  VARCHAR(255),
+  active       BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by   INT NULL,
+  created_at   TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE webhook_deliveries (
+  id               CHAR(36) PRIMARY KEY,
+  webhook_id       INT NOT NULL,
+  event_id         CHAR(36) NOT NULL,
+  event            VARCHAR(64) NOT NULL,
+  payload          JSON NOT NULL,
+  status           VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts         INT NOT NULL DEFAULT 0,
+  next_attempt_at  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  locked_until     TIMESTAMP(3) NULL,
+  last_status      INT NULL,
+  last_error       TEXT,
+  delivered_at     TIMESTAMP(3) NULL,
+  created_at       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  INDEX (status, next_attempt_at),
+  INDEX (webhook_id, created_at),
+  FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+);
+
+CREATE TABLE webhook_attempts (
+  id             INT AUTO_INCREMENT PRIMARY KEY,
+  delivery_id    CHAR(36) NOT NULL,
+  attempt        INT NOT NULL,
+  status_code    INT NULL,
+  error          TEXT,
+  response_body  TEXT,
+  duration_ms    INT NOT NULL,
+  attempted_at   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  INDEX (delivery_id, attempt),
+  FOREIGN KEY (delivery_id) REFERENCES webhook_deliveries(id) ON DELETE CASCADE
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS webhook_attempts;
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhooks;
@@ -0,0 +1,16 @@
+-- Gallery trash: deleting a capture stamps it, and it can be restored until
+-- it is purged (see lib/captures purgeTrash) or deleted for good.
+
+-- migrate:up
+ALTER TABLE captures
+  ADD COLUMN deleted_at TIMESTAMP NULL,
+  ADD COLUMN deleted_by INT NULL,
+  ADD INDEX idx_captures_deleted (deleted_at),
+  ADD CONSTRAINT fk_captures_deleted_by FOREIGN KEY (deleted_by) REFERENCES users(id) ON DELETE SET NULL;
+
+-- migrate:down
+ALTER TABLE captures
+  DROP FOREIGN KEY fk_captures_deleted_by,
+  DROP INDEX idx_captures_deleted,
+  DROP COLUMN deleted_by,
+  DROP COLUMN deleted_at;
@@ -0,0 +1,8 @@
+-- Down-scaled AVIF/WebP copies of each capture for the gallery (see
+-- lib/image/variants); NULL until generated.
+
+-- migrate:up
+ALTER TABLE captures ADD COLUMN variants JSON NULL AFTER phash;
+
+-- migrate:down
+ALTER TABLE captures DROP COLUMN variants;
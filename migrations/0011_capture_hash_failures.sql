@@ -0,0 +1,8 @@
+-- Captures whose image could not be hashed (missing from storage or not
+-- decodable) are stamped so the hashing backfill stops retrying them.
+
+-- migrate:up
+ALTER TABLE captures ADD COLUMN phash_failed_at TIMESTAMP NULL AFTER phash;
+
+-- migrate:down
+ALTER TABLE captures DROP COLUMN phash_failed_at;
@@ -0,0 +1,19 @@
+-- Idempotency keys belong to the account that sent them, so replaying
+-- another user's key can't read back their upload. Keys only matter while
+-- a client retries, so existing ones are dropped rather than guessed at.
+
+-- migrate:up
+DELETE FROM upload_keys;
+ALTER TABLE upload_keys
+  ADD COLUMN user_id INT NOT NULL FIRST,
+  DROP PRIMARY KEY,
+  ADD PRIMARY KEY (user_id, idempotency_key),
+  ADD CONSTRAINT fk_upload_keys_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+
+-- migrate:down
+DELETE FROM upload_keys;
+ALTER TABLE upload_keys
+  DROP FOREIGN KEY fk_upload_keys_user,
+  DROP PRIMARY KEY,
+  DROP COLUMN user_id,
+  ADD PRIMARY KEY (idempotency_key);
@@ -1,7 +1,13 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // OCR runs in worker threads and loads bundled traineddata from disk
+  serverExternalPackages: ["tesseract.js", "@tesseract.js-data/eng"],
+  experimental: {
+    // proxy.ts runs in front of every API route and buffers request bodies
+    // up to this size; bulk imports of scanned PDFs go up to 25 MB
+    proxyClientMaxBodySize: "30mb",
+  },
 };
 
 export default nextConfig;
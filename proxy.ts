@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/cookie";
+
+/**
+ * Turn away requests with no session cookie before they reach a page or
+ * route handler: pages redirect to /login, API calls get 401. Whether the
+ * session is valid, and what the user may do, is checked in each route
+ * handler (lib/auth `authenticate`).
+ */
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ success: false, error: "Sign in required." }, { status: 401 });
+  }
+
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", pathname + search);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Everything except the sign-in page and API, build assets and the service worker
+  matcher: ["/((?!login|api/auth/login|_next/static|_next/image|favicon\\.ico|sw\\.js).*)"],
+};
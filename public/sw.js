@@ -0,0 +1,253 @@
+/**
+ * CaptureCAM service worker.
+ *
+ * 1. Upload queue — drains the IndexedDB queue written by
+ *    lib/capture-queue.ts into POST /api/upload, one capture at a time,
+ *    with exponential backoff. The record id is sent as Idempotency-Key.
+ * 2. Offline shell — pages and their static assets are served
+ *    network-first and fall back to the last cached copy, so /capture
+ *    still opens with no connection.
+ *
+ * Plain JS: this file is served as-is from /sw.js, not bundled.
+ */
+
+const DB_NAME = "capturecam";
+const DB_VERSION = 1;
+const STORE = "captures";
+const SYNC_TAG = "capture-upload";
+const SHELL_CACHE = "capturecam-shell-v1";
+
+/** First retry after 5 s, doubling up to 5 min */
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+/**
+ * 409s in a row before a capture is given up on. The server takes over a
+ * stuck key after two minutes, so this many means it never will.
+ */
+const MAX_CONFLICTS = 10;
+
+// ── IndexedDB ──
+
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function run(mode, fn) {
+  const db = await openQueue();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = tx.onabort = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+// ── Messaging ──
+
+async function notify(message) {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  for (const client of clients) client.postMessage(message);
+}
+
+async function notifyPending() {
+  const pending = await run("readonly", (store) => store.count());
+  await notify({ type: "queue-changed", pending });
+}
+
+// ── Upload ──
+
+function backoff(attempts) {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1));
+  // Jitter so a room full of phones doesn't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * 408, 409 (same key in flight), 429 and 5xx are worth retrying, and so
+ * is 401: the capture waits until the user signs in again.
+ */
+function isRetryable(status) {
+  return status === 401 || status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Upload one capture. Returns true when it left the queue (stored or
+ * permanently rejected), false when it was rescheduled.
+ */
+async function uploadOne(record) {
+  const form = new FormData();
+  form.append("image", record.image, "capture.png");
+  if (record.back) form.append("back", record.back, "back.png");
+  // Records queued before `fields` existed only carried corners
+  const fields = record.fields || (record.corners ? { corners: record.corners } : {});
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+
+  let status = 0;
+  let body = null;
+  try {
+    const res = await fetch("/api/upload", {
+      method: "POST",
+      body: form,
+      headers: { "Idempotency-Key": record.id },
+    });
+    status = res.status;
+    body = await res.json().catch(() => null);
+  } catch (err) {
+    body = { error: err instanceof Error ? err.message : "Network error" };
+  }
+
+  if (status >= 200 && status < 300 && body && body.success) {
+    await run("readwrite", (store) => store.delete(record.id));
+    await notify({ type: "capture-uploaded", id: record.id, result: body });
+    return true;
+  }
+
+  const conflicts = status === 409 ? (record.conflicts || 0) + 1 : 0;
+  if (conflicts > MAX_CONFLICTS) {
+    await run("readwrite", (store) => store.delete(record.id));
+    await notify({
+      type: "capture-rejected",
+      id: record.id,
+      error: "Upload stuck in progress on the server; capture it again.",
+    });
+    return true;
+  }
+
+  if (status !== 0 && !isRetryable(status)) {
+    // The server will never accept this file; keeping it would retry forever
+    await run("readwrite", (store) => store.delete(record.id));
+    await notify({
+      type: "capture-rejected",
+      id: record.id,
+      error: (body && body.error) || `Upload rejected (${status})`,
+    });
+    return true;
+  }
+
+  const attempts = record.attempts + 1;
+  await run("readwrite", (store) =>
+    store.put({
+      ...record,
+      attempts,
+      conflicts,
+      nextAttemptAt: Date.now() + backoff(attempts),
+      lastError: (body && body.error) || `HTTP ${status}`,
+    })
+  );
+  return false;
+}
+
+let flushing = null;
+
+/**
+ * Upload every capture that is due, oldest first. Resolves to true when
+ * nothing due was left behind. Concurrent calls share one pass.
+ */
+function flush() {
+  if (!flushing) {
+    flushing = (async () => {
+      const records = await run("readonly", (store) => store.getAll());
+      const now = Date.now();
+      const due = records
+        .filter((r) => r.nextAttemptAt <= now)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      let drained = true;
+      for (const record of due) {
+        if (!(await uploadOne(record))) {
+          drained = false;
+          // Still offline — don't burn through the rest of the queue
+          if (!self.navigator.onLine) break;
+        }
+      }
+      await notifyPending();
+      return drained;
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+// ── Lifecycle ──
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.add("/capture"))
+      .catch(() => {})
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((k) => k !== SHELL_CACHE).map((k) => caches.delete(k)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  // Rejecting tells the browser to schedule another sync later
+  event.waitUntil(
+    flush().then((drained) => {
+      if (!drained) throw new Error("Captures still pending");
+    })
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "flush") event.waitUntil(flush());
+});
+
+// ── Offline shell ──
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (
+    request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith("/api/")
+  ) {
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        // A redirect here is the sign-in page; don't cache it as the page asked for
+        if (response.ok && !response.redirected) {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request, { ignoreSearch: request.mode === "navigate" });
+        return cached || Response.error();
+      })
+  );
+});
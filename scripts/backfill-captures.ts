@@ -0,0 +1,111 @@
+/**
+ * One-off: add a `captures` row for every stored image that predates the
+ * table. Dimensions come from the file, corners from its `.json` sidecar
+ * (if any), the time from the file's modification time (the original in
+ * public/uploads when migrate-uploads copied it), and the lead from
+ * any lead pointing at the image. Brightness, sharpness and device info
+ * were never recorded for these and stay NULL. Safe to re-run.
+ *
+ *   npx tsx scripts/backfill-captures.ts
+ */
+import { config } from "dotenv";
+import path from "path";
+
+config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { stat } from "fs/promises";
+import mysql from "mysql2/promise";
+import type { RowDataPacket } from "mysql2";
+import { imageSize } from "../lib/image/size";
+import { VARIANT_PREFIX } from "../lib/image/variants";
+import { getStorage, imageUrlForKey } from "../lib/storage";
+
+const IMAGE_KEY_RE = /\.(?:png|jpe?g|webp)$/i;
+const LEGACY_DIR = path.join(process.cwd(), "public", "uploads");
+
+/** Copies made by migrate-uploads are new files; the original keeps the real time */
+async function capturedAt(key: string, fallback: Date): Promise<Date> {
+  try {
+    return (await stat(path.join(LEGACY_DIR, key))).mtime;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Canonical and legacy forms of a key's image URL */
+function urlsFor(key: string): [string, string] {
+  return [imageUrlForKey(key), `/uploads/${key}`];
+}
+
+async function main() {
+  const connection = await mysql.createConnection({
+    host: process.env.DB_HOST,
+    port: Number(process.env.DB_PORT) || 3306,
+    user: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_NAME,
+  });
+
+  const storage = getStorage();
+  const objects = await storage.list();
+  const keys = new Set(objects.map((o) => o.key));
+
+  const [existing] = await connection.query<RowDataPacket[]>("SELECT storage_key FROM captures");
+  const known = new Set(existing.map((row) => row.storage_key as string));
+
+  let added = 0;
+  let skipped = 0;
+  for (const info of objects) {
+    if (!IMAGE_KEY_RE.test(info.key) || info.key.startsWith(VARIANT_PREFIX)) continue;
+    if (known.has(info.key)) continue;
+
+    const object = await storage.get(info.key);
+    if (!object) {
+      skipped++;
+      continue;
+    }
+
+    let corners: unknown = null;
+    const sidecar = info.key.replace(/\.\w+$/, ".json");
+    if (keys.has(sidecar)) {
+      try {
+        corners = JSON.parse((await storage.get(sidecar))!.data.toString("utf8")).corners ?? null;
+      } catch {
+        console.warn(`! ${sidecar}: unreadable sidecar, corners left empty`);
+      }
+    }
+
+    const [leads] = await connection.query<RowDataPacket[]>(
+      `SELECT id FROM leads WHERE image_url IN (?, ?)
+       UNION SELECT lead_id AS id FROM lead_images WHERE image_url IN (?, ?)
+       LIMIT 1`,
+      [...urlsFor(info.key), ...urlsFor(info.key)]
+    );
+
+    const dimensions = imageSize(object.data);
+    await connection.execute(
+      `INSERT IGNORE INTO captures
+         (storage_key, mime_type, byte_size, width, height, corners, lead_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        info.key,
+        object.contentType,
+        object.size,
+        dimensions?.width ?? null,
+        dimensions?.height ?? null,
+        corners ? JSON.stringify(corners) : null,
+        leads[0]?.id ?? null,
+        await capturedAt(info.key, info.lastModified),
+      ]
+    );
+    added++;
+  }
+
+  console.log(`✓ ${added} captures added, ${known.size} already present, ${skipped} unreadable`);
+  await connection.end();
+}
+
+main().catch((err) => {
+  console.error("✗ backfill-captures failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+/**
+ * Run the contact-extraction fixture corpus and report every field that
+ * differs from the expected lead columns.
+ *
+ *   npx tsx scripts/check-extraction.ts
+ */
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import type { CountryCode } from "libphonenumber-js/core";
+import { extractContact, toLeadFields, type LeadFieldName } from "../lib/contact-extract";
+
+const FIXTURES_DIR = path.resolve(__dirname, "../lib/contact-extract/fixtures");
+
+interface Fixture {
+  region?: CountryCode;
+  expected: Partial<Record<LeadFieldName, string | null>>;
+}
+
+async function main() {
+  const files = (await readdir(FIXTURES_DIR)).filter((f) => f.endsWith(".txt")).sort();
+  let failures = 0;
+
+  for (const file of files) {
+    const slug = file.replace(/\.txt$/, "");
+    const text = await readFile(path.join(FIXTURES_DIR, file), "utf8");
+    const fixture = JSON.parse(
+      await readFile(path.join(FIXTURES_DIR, `${slug}.json`), "utf8")
+    ) as Fixture;
+
+    const fields = toLeadFields(extractContact(text, { defaultRegion: fixture.region }));
+    const mismatches = (Object.keys(fixture.expected) as LeadFieldName[]).filter(
+      (key) => (fields[key] ?? null) !== fixture.expected[key]
+    );
+
+    if (mismatches.length === 0) {
+      console.log(`✓ ${slug}`);
+      continue;
+    }
+
+    failures++;
+    console.log(`✗ ${slug}`);
+    for (const key of mismatches) {
+      console.log(`    ${key}: expected ${JSON.stringify(fixture.expected[key])}, got ${JSON.stringify(fields[key])}`);
+    }
+  }
+
+  console.log(`\n${files.length - failures}/${files.length} fixtures passed`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error("✗ check-extraction failed:", err);
+  process.exit(1);
+});
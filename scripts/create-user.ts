@@ -0,0 +1,52 @@
+/**
+ * Create an account from the command line — how the first admin gets in.
+ *
+ *   npx tsx scripts/create-user.ts --email you@example.com --name "Your Name"
+ *     --password '…' [--role admin|rep|viewer] [--team-visibility true]
+ *
+ * The role defaults to admin.
+ */
+import { config } from "dotenv";
+import path from "path";
+
+config({ path: path.resolve(process.cwd(), ".env.local") });
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (!flag.startsWith("--") || value === undefined || value.startsWith("--")) {
+      throw new Error(`Expected '--name value', got '${flag}'`);
+    }
+    args[flag.slice(2)] = value;
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Imported after dotenv so the DB pool sees the environment
+  const { validateNewUser } = await import("../lib/auth/validation");
+  const { createUser } = await import("../lib/auth/users");
+  const pool = (await import("../lib/db")).default;
+
+  const validation = validateNewUser({
+    email: args.email,
+    name: args.name,
+    password: args.password,
+    role: args.role ?? "admin",
+    teamVisibility: args["team-visibility"] === undefined ? undefined : args["team-visibility"] === "true",
+  });
+  if (!validation.ok) throw new Error(validation.error);
+
+  const id = await createUser(validation.user);
+  await pool.end();
+  console.log(`✓ created ${validation.user.role} ${validation.user.email} (id ${id})`);
+}
+
+main().catch((err) => {
+  console.error("✗ create-user failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
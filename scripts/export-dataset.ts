@@ -0,0 +1,65 @@
+/**
+ * Write a training-dataset zip (same contents as GET /api/dataset/export).
+ *
+ *   npx tsx scripts/export-dataset.ts --out dataset.zip [--format coco]
+ *     [--seed s] [--ratios 0.8,0.1,0.1] [--from 2025-01-01] [--to …]
+ *     [--min-brightness 40] [--max-brightness …]
+ *     [--min-sharpness 20] [--max-sharpness …] [--min-quality 60] [--max-quality …]
+ */
+import { config } from "dotenv";
+import path from "path";
+
+config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
+
+/** --kebab-case flags → the API's camelCase query parameters */
+function parseArgs(argv: string[]): URLSearchParams {
+  const params = new URLSearchParams();
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (!flag.startsWith("--") || value === undefined || value.startsWith("--")) {
+      throw new Error(`Expected '--name value', got '${flag}'`);
+    }
+    params.set(flag.slice(2).replace(/-(\w)/g, (_, c: string) => c.toUpperCase()), value);
+    i++;
+  }
+  return params;
+}
+
+async function main() {
+  const params = parseArgs(process.argv.slice(2));
+  const out = params.get("out");
+  if (!out) throw new Error("--out <file.zip> is required");
+
+  const format = params.get("format") ?? "jsonl";
+  if (format !== "jsonl" && format !== "coco") throw new Error("--format must be jsonl or coco");
+
+  // Imported after dotenv so the DB pool sees the environment
+  const { createDatasetArchive, datasetFilterFromParams, loadDatasetItems, splitConfig } =
+    await import("../lib/dataset");
+  const pool = (await import("../lib/db")).default;
+
+  const split = splitConfig({ seed: params.get("seed"), ratios: params.get("ratios") });
+  if (!split.ok) throw new Error("--ratios must be three non-negative numbers: train,val,test");
+
+  const filter = datasetFilterFromParams(params);
+  if (!filter.ok) throw new Error(filter.error);
+
+  const items = await loadDatasetItems(filter);
+  console.log(`Exporting ${items.length} images (${format}, seed '${split.config.seed}')…`);
+
+  await pipeline(
+    createDatasetArchive(items, { format, split: split.config, filter: filter.applied }),
+    createWriteStream(out)
+  );
+  await pool.end();
+  console.log(`✓ Wrote ${out}`);
+}
+
+main().catch((err) => {
+  console.error("✗ export-dataset failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
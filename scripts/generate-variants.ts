@@ -0,0 +1,68 @@
+/**
+ * Make the AVIF/WebP variants (see lib/image/variants) for captures
+ * stored before they existed, backs included. Only captures without
+ * variants are done unless `--all` is given, e.g. after changing
+ * VARIANT_WIDTHS. Safe to re-run; variants are overwritten in place.
+ *
+ *   npm run images:variants [-- --all]
+ */
+import { config } from "dotenv";
+import path from "path";
+
+config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import type { RowDataPacket } from "mysql2";
+
+const BATCH_SIZE = 50;
+
+async function main() {
+  const all = process.argv.includes("--all");
+
+  // Imported after dotenv so the DB pool and storage see the environment
+  const { storeCaptureVariants } = await import("../lib/captures");
+  const { getStorage } = await import("../lib/storage");
+  const pool = (await import("../lib/db")).default;
+  const storage = getStorage();
+
+  let lastId = 0;
+  let done = 0;
+  let missing = 0;
+  let failed = 0;
+  for (;;) {
+    // prepared LIMIT placeholders are unreliable in mysql2; BATCH_SIZE is a constant
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, storage_key FROM captures
+       WHERE id > ?${all ? "" : " AND variants IS NULL"}
+       ORDER BY id
+       LIMIT ${BATCH_SIZE}`,
+      [lastId]
+    );
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      lastId = row.id;
+      const object = await storage.get(row.storage_key);
+      if (!object) {
+        console.warn(`! ${row.storage_key}: not in storage`);
+        missing++;
+        continue;
+      }
+      try {
+        // A capture deleted meanwhile has its new variants cleaned up
+        if (await storeCaptureVariants(row.id, row.storage_key, object.data)) done++;
+      } catch (err) {
+        console.warn(`! ${row.storage_key}:`, err instanceof Error ? err.message : err);
+        failed++;
+      }
+    }
+    console.log(`  … ${done} done`);
+  }
+
+  await pool.end();
+  console.log(`✓ variants made for ${done} capture(s), ${missing} missing from storage, ${failed} failed`);
+}
+
+main().catch((err) => {
+  console.error("✗ generate-variants failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+/**
+ * Move images saved before storage drivers (public/uploads) into the
+ * configured storage, and point `/uploads/…` URLs in the database at
+ * `/api/images/…`. Safe to re-run; originals are left in place.
+ *
+ *   npx tsx scripts/migrate-uploads.ts
+ */
+import { config } from "dotenv";
+import path from "path";
+
+config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import { readdir, readFile } from "fs/promises";
+import mysql from "mysql2/promise";
+import { contentTypeForKey, getStorage } from "../lib/storage";
+
+const LEGACY_DIR = path.join(process.cwd(), "public", "uploads");
+
+/** Tables and columns that hold an image URL */
+const URL_COLUMNS: [string, string][] = [
+  ["leads", "image_url"],
+  ["ocr_jobs", "image_url"],
+  ["lead_images", "image_url"],
+];
+
+async function main() {
+  const storage = getStorage();
+  let files: string[] = [];
+  try {
+    files = (await readdir(LEGACY_DIR)).filter((f) => !f.startsWith("."));
+  } catch {
+    // Nothing was ever uploaded locally
+  }
+
+  const existing = new Set((await storage.list()).map((o) => o.key));
+  let copied = 0;
+  for (const file of files) {
+    if (existing.has(file)) continue;
+    const data = await readFile(path.join(LEGACY_DIR, file));
+    await storage.put(file, data, contentTypeForKey(file));
+    copied++;
+  }
+  console.log(`✓ ${copied} of ${files.length} files copied to ${storage.name} storage`);
+
+  const connection = await mysql.createConnection({
+    host: process.env.DB_HOST,
+    port: Number(process.env.DB_PORT) || 3306,
+    user: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_NAME,
+  });
+
+  for (const [table, column] of URL_COLUMNS) {
+    const [result] = await connection.execute<mysql.ResultSetHeader>(
+      `UPDATE IGNORE \`${table}\`
+       SET \`${column}\` = CONCAT('/api/images/', SUBSTRING(\`${column}\`, LENGTH('/uploads/') + 1))
+       WHERE \`${column}\` LIKE '/uploads/%'`
+    );
+    console.log(`✓ ${table}.${column}: ${result.affectedRows} rows updated`);
+  }
+
+  await connection.end();
+}
+
+main().catch((err) => {
+  console.error("✗ migrate-uploads failed:", err);
+  process.exit(1);
+});
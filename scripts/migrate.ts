@@ -0,0 +1,92 @@
+/**
+ * Database migrations (see lib/migrations.ts for the file format).
+ *
+ *   npx tsx scripts/migrate.ts migrate             apply everything pending
+ *   npx tsx scripts/migrate.ts rollback [steps]    undo the last N (default 1)
+ *   npx tsx scripts/migrate.ts status              applied / pending per file
+ *   npx tsx scripts/migrate.ts create <name>       new empty migration file
+ *
+ * `migrate` creates the database first if it doesn't exist.
+ */
+import { config } from "dotenv";
+import path from "path";
+
+config({ path: path.resolve(process.cwd(), ".env.local") });
+
+import mysql from "mysql2/promise";
+import {
+  createMigration,
+  migrate,
+  migrationStatus,
+  rollback,
+  type MigrationState,
+} from "../lib/migrations";
+
+const STATE_MARKS: Record<MigrationState, string> = {
+  applied: "✓",
+  pending: "·",
+  changed: "!",
+  missing: "?",
+};
+
+async function connect(): Promise<mysql.Connection> {
+  // Connect without a database so `migrate` can create it
+  const connection = await mysql.createConnection({
+    host: process.env.DB_HOST,
+    port: Number(process.env.DB_PORT) || 3306,
+    user: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    multipleStatements: true,
+  });
+  const dbName = process.env.DB_NAME!;
+  await connection.query(`CREATE DATABASE IF NOT EXISTS \`${dbName}\``);
+  await connection.changeUser({ database: dbName });
+  return connection;
+}
+
+async function main() {
+  const [command, arg] = process.argv.slice(2);
+
+  if (command === "create") {
+    if (!arg) throw new Error("Usage: migrate.ts create <name>");
+    console.log(`✓ created ${path.relative(process.cwd(), await createMigration(arg))}`);
+    return;
+  }
+
+  const connection = await connect();
+  try {
+    switch (command) {
+      case "migrate": {
+        const applied = await migrate(connection, (m) => console.log(`  ↑ ${m.file}`));
+        console.log(applied.length ? `✓ ${applied.length} applied` : "✓ already up to date");
+        break;
+      }
+      case "rollback": {
+        const steps = arg === undefined ? 1 : Number(arg);
+        if (!Number.isInteger(steps) || steps < 1) throw new Error("steps must be a positive integer");
+        const reverted = await rollback(connection, steps, (m) => console.log(`  ↓ ${m.file}`));
+        console.log(reverted.length ? `✓ ${reverted.length} rolled back` : "✓ nothing to roll back");
+        break;
+      }
+      case "status": {
+        const status = await migrationStatus(connection);
+        for (const m of status) {
+          const when = m.appliedAt ? `  ${m.appliedAt}` : "";
+          console.log(`  ${STATE_MARKS[m.state]} ${m.version}_${m.name}  ${m.state}${when}`);
+        }
+        const pending = status.filter((m) => m.state === "pending").length;
+        console.log(pending ? `${pending} pending` : "✓ up to date");
+        break;
+      }
+      default:
+        throw new Error(`Unknown command '${command ?? ""}': use migrate, rollback, status or create`);
+    }
+  } finally {
+    await connection.end();
+  }
+}
+
+main().catch((err) => {
+  console.error("✗ migrate failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+/**
+ * Delete captures that have been in the gallery trash longer than
+ * TRASH_RETENTION_DAYS (see lib/captures) — images, backs and unreviewed
+ * draft leads made from them. Meant for a daily cron job.
+ *
+ *   npm run trash:purge
+ */
+import { config } from "dotenv";
+import path from "path";
+
+config({ path: path.resolve(process.cwd(), ".env.local") });
+
+async function main() {
+  // Imported after dotenv so the DB pool and storage see the environment
+  const { purgeTrash, TRASH_RETENTION_DAYS } = await import("../lib/captures");
+  const pool = (await import("../lib/db")).default;
+
+  const purged = await purgeTrash();
+  await pool.end();
+  console.log(`✓ purged ${purged} capture(s) trashed over ${TRASH_RETENTION_DAYS} days ago`);
+}
+
+main().catch((err) => {
+  console.error("✗ purge-trash failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * A local webhook receiver for trying subscriptions end to end: prints
+ * each delivery and checks its signature as a real receiver should.
+ *
+ *   npm run webhooks:receiver -- --secret whsec_… [--port 4000] [--fail-rate 0.5]
+ *
+ * Subscribe http://localhost:4000/ (POST /api/webhooks) with the secret
+ * from the response. `--fail-rate` answers that share of deliveries with a
+ * 500, to watch retries and dead-lettering in the delivery log.
+ */
+import { createServer } from "http";
+import { verifyWebhookSignature, WEBHOOK_HEADERS } from "../lib/webhooks/signature";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (!flag.startsWith("--") || value === undefined || value.startsWith("--")) {
+      throw new Error(`Expected '--name value', got '${flag}'`);
+    }
+    args[flag.slice(2)] = value;
+  }
+  return args;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const secret = args.secret ?? process.env.WEBHOOK_SECRET;
+  if (!secret) throw new Error("Pass --secret (or set WEBHOOK_SECRET)");
+  const port = Number(args.port ?? 4000);
+  const failRate = Number(args["fail-rate"] ?? 0);
+  if (!Number.isFinite(failRate) || failRate < 0 || failRate > 1) {
+    throw new Error("--fail-rate must be between 0 and 1");
+  }
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+      const header = (name: string) => {
+        const value = req.headers[name.toLowerCase()];
+        return typeof value === "string" ? value : null;
+      };
+      const event = header(WEBHOOK_HEADERS.event);
+      const id = header(WEBHOOK_HEADERS.id);
+
+      if (
+        !verifyWebhookSignature(
+          secret,
+          header(WEBHOOK_HEADERS.signature),
+          header(WEBHOOK_HEADERS.timestamp),
+          body
+        )
+      ) {
+        console.log(`✗ ${event} ${id} — bad signature or stale timestamp`);
+        res.writeHead(401).end("Invalid signature");
+        return;
+      }
+      if (Math.random() < failRate) {
+        console.log(`↻ ${event} ${id} — failing on purpose`);
+        res.writeHead(500).end("Simulated failure");
+        return;
+      }
+
+      console.log(`✓ ${event} ${id}`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+      res.writeHead(200, { "Content-Type": "text/plain" }).end("ok");
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`Listening on http://localhost:${port}/ (fail rate ${failRate})`);
+  });
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}